@@ -5,6 +5,8 @@ export default {
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    // Tests run against the core sources, without building core first
+    '^@fetch-ui/core$': '<rootDir>/../core/src/index.ts',
   },
   transform: {
     '^.+\\.tsx?$': [
@@ -0,0 +1,14 @@
+import { writeFileSync } from 'fs';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ProjectConfigSchema } from '../dist/config/schema.js';
+
+// Regenerates schema.json, the published $schema for fetch-ui.json
+const schema = {
+  ...zodToJsonSchema(ProjectConfigSchema, { $refStrategy: 'none' }),
+  title: 'fetch-ui.json',
+};
+
+writeFileSync(
+  new URL('../schema.json', import.meta.url),
+  `${JSON.stringify(schema, null, 2)}\n`
+);
@@ -2,6 +2,7 @@
 import { CLI } from "./index.js";
 import { logger } from "./logger.js";
 
+jest.mock("../commands/add.js");
 jest.mock("./logger.js", () => ({
   logger: {
     info: jest.fn(),
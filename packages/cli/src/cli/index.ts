@@ -1,10 +1,28 @@
 import { Command } from 'commander';
 import { logger } from './logger.js';
+import { add, AddOptions } from '../commands/add.js';
+import { cleanCache, listCache, verifyCache } from '../commands/cache.js';
+import { diff, DiffOptions } from '../commands/diff.js';
+import { init, InitOptions } from '../commands/init.js';
+import { list, ListOptions } from '../commands/list.js';
+import { publish, PublishOptions } from '../commands/publish.js';
+import {
+  registryAdd,
+  RegistryAddOptions,
+  registryList,
+  RegistryListOptions,
+  registryRemove,
+  registrySetDefault,
+  registryStatus,
+  RegistryStatusOptions,
+} from '../commands/registry.js';
+import { remove, RemoveOptions } from '../commands/remove.js';
+import { search, SearchOptions } from '../commands/search.js';
+import { update, UpdateOptions } from '../commands/update.js';
+import { CLIError } from '../utils/error.js';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
-type RegistryType = 'npm' | 'git' | 'local' | 'custom';
-
 const packageJson = JSON.parse(
   readFileSync(join(process.cwd(), 'package.json'), 'utf-8')
 );
@@ -16,23 +34,191 @@ export class CLI {
     this.program = new Command()
       .name('fetch-ui')
       .description('Fetch UI CLI - A tool for managing UI components')
-      .version(packageJson.version);
+      .version(packageJson.version)
+      // Keep `add --version <version>` from being taken as the program version flag
+      .enablePositionalOptions();
 
     this.setupCommands();
   }
 
   private setupCommands(): void {
+    this.program
+      .command('init')
+      .description('Create a fetch-ui.json config for your project')
+      .option('--cwd <path>', 'Working directory')
+      .option('-y, --yes', 'Skip prompts and use defaults for unset options')
+      .option('-f, --force', 'Overwrite an existing fetch-ui.json')
+      .option('--extends <config>', 'Inherit from a shared base config (path or package)')
+      .option('--style <name>', 'Component style preset')
+      .option('--ts', 'Use TypeScript')
+      .option('--no-ts', 'Use JavaScript')
+      .option('--jsx', 'Use JSX syntax')
+      .option('--no-jsx', 'Do not use JSX syntax')
+      .option('--components <path>', 'Components directory')
+      .option('--prefix <prefix>', 'Import prefix for components')
+      .option('--registry <url>', 'Registry URL')
+      .option('--tailwind-config <path>', 'Tailwind config path')
+      .option('--tailwind-css <path>', 'Global CSS path')
+      .option('--base-color <color>', 'Tailwind base color')
+      .action(async (options: InitOptions) => {
+        await init(options);
+      });
+
     this.program
       .command('add')
-      .description('Add a UI component to your project')
-      .argument('<component>', 'The component to add')
-      .option('-r, --registry <registry>', 'Specify the registry to use (npm|git|local|custom)', 'local')
+      .description('Add UI components to your project')
+      .argument('<components...>', 'The components to add, optionally as name@version or name@tag')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
       .option('-v, --version <version>', 'Specify the component version')
       .option('-f, --force', 'Force install even if the component exists')
-      .action((component: string, options: { registry: RegistryType; version?: string; force?: boolean }) => {
-        logger.info(`Adding component ${component} from ${options.registry} registry`);
-        // TODO: Implement add command using the ComponentManager interface
+      .option('--cwd <path>', 'Working directory')
+      .option('-p, --path <path>', 'Directory to install components into')
+      .option('-s, --style <style>', 'Style variant to install, instead of the style in fetch-ui.json')
+      .option('--dry-run', 'Show the install plan without writing anything')
+      .option('--deps', 'Install the npm packages the components depend on')
+      .option('--offline', 'Only use cached registry responses')
+      .action(async (components: string[], options: AddOptions) => {
+        const label = components.length > 1 ? 'components' : 'component';
+        logger.info(`Adding ${label} ${components.join(', ')} from ${options.registry} registry`);
+        await add(components, options);
       });
+
+    this.program
+      .command('remove')
+      .description('Remove installed components from your project')
+      .argument('<components...>', 'The components to remove')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('-f, --force', 'Remove components even if you changed their files')
+      .option('--unused-deps', 'List npm dependencies no remaining component uses')
+      .action((components: string[], options: RemoveOptions) => remove(components, options));
+
+    this.program
+      .command('list')
+      .description('List components installed in your project')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('--json', 'Output as JSON')
+      .action((options: ListOptions) => list(options));
+
+    this.program
+      .command('search')
+      .description('Search the registry for components')
+      .argument('[query]', 'Text to match against names, descriptions and tags')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('-t, --tags <tags>', 'Only components with all of these comma-separated tags')
+      .option('--author <author>', 'Only components by this author')
+      .option('--style <style>', 'Only components in this style')
+      .option('--typescript', 'Only TypeScript components')
+      .option('--no-typescript', 'Only JavaScript components')
+      .option('--page <page>', 'Page of results to show')
+      .option('--limit <count>', 'Results per page')
+      .option('--json', 'Output as JSON')
+      .option('--offline', 'Only use cached registry responses')
+      .action((query: string | undefined, options: SearchOptions) => search(query, options));
+
+    this.program
+      .command('update')
+      .description('Update installed components, merging local changes')
+      .argument('[component]', 'The component to update')
+      .argument('[version]', 'The version to update to (default: latest)')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('--all', 'Update all installed components')
+      .option('--check', 'Only show available updates and what they change')
+      .option('--backup', 'Save the current files to .fetch-ui/backups first')
+      .option('-f, --force', 'Reinstall even if already up to date')
+      .option('--offline', 'Only use cached registry responses')
+      .action((component: string | undefined, version: string | undefined, options: UpdateOptions) =>
+        update(component, version, options)
+      );
+
+    this.program
+      .command('diff')
+      .description('Compare a component with its installed or another registry version')
+      .argument('<component>', 'The component to compare')
+      .argument('[from]', 'Version or dist-tag to compare against (default: the installed version)')
+      .argument('[to]', 'Second version or dist-tag, to compare two registry versions')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('--json', 'Output as JSON')
+      .option('--offline', 'Only use cached registry responses')
+      .action(
+        (component: string, from: string | undefined, to: string | undefined, options: DiffOptions) =>
+          diff(component, from, to, options)
+      );
+
+    this.program
+      .command('publish')
+      .description('Publish a local component directory to the registry')
+      .argument('[dir]', 'Directory containing component.json (default: current directory)')
+      .option('-r, --registry <registry>', 'Registry to use: a configured name, a URL, git+<url>, local:<path> or npm[:<location>]', 'local')
+      .option('--cwd <path>', 'Working directory')
+      .option('-t, --tag <tag>', 'Dist-tag to point at the published version')
+      .option('--dry-run', 'Validate and show what would be published without uploading')
+      .action((dir: string | undefined, options: PublishOptions) => publish(dir, options));
+
+    const registry = this.program
+      .command('registry')
+      .description('Manage the registries in ~/.fetch-ui/config.json');
+
+    registry
+      .command('add')
+      .description('Add or replace a named registry')
+      .argument('<name>', 'Registry name, e.g. internal')
+      .argument('<url>', 'Registry URL')
+      .option('--auth-type <type>', 'How to send the token (apiKey|bearer)')
+      .option('--token <token>', 'Token to send, FETCH_UI_REGISTRY_TOKEN is used if unset')
+      .option('--timeout <ms>', 'Request timeout in milliseconds')
+      .option('--default', 'Make this the default registry')
+      .action((name: string, url: string, options: RegistryAddOptions) =>
+        registryAdd(name, url, options)
+      );
+
+    registry
+      .command('remove')
+      .description('Remove a named registry')
+      .argument('<name>', 'Registry name')
+      .action((name: string) => registryRemove(name));
+
+    registry
+      .command('list')
+      .description('List the configured registries, the default marked with *')
+      .option('--json', 'Output as JSON')
+      .action((options: RegistryListOptions) => registryList(options));
+
+    registry
+      .command('set-default')
+      .description('Use a named registry for projects that do not set registry.url')
+      .argument('<name>', 'Registry name')
+      .action((name: string) => registrySetDefault(name));
+
+    registry
+      .command('status')
+      .description('Check that the configured registries are reachable')
+      .option('--cwd <path>', 'Working directory')
+      .action((options: RegistryStatusOptions) => registryStatus(options));
+
+    const cache = this.program
+      .command('cache')
+      .description('Manage the cache of registry responses');
+
+    cache
+      .command('ls')
+      .description('List cached registry responses')
+      .option('--json', 'Output as JSON')
+      .action((options: { json?: boolean }) => listCache(options));
+
+    cache
+      .command('clean')
+      .description('Remove all cached registry responses')
+      .action(() => cleanCache());
+
+    cache
+      .command('verify')
+      .description('Check cached responses and drop corrupt ones')
+      .action(() => verifyCache());
   }
 
   async run(args: string[] = process.argv): Promise<void> {
@@ -44,7 +230,12 @@ export class CLI {
   }
 
   handleError(error: unknown): void {
-    if (error instanceof Error) {
+    if (error instanceof CLIError) {
+      logger.error(error.message);
+      if (error.suggestion) {
+        logger.info(error.suggestion);
+      }
+    } else if (error instanceof Error) {
       logger.error(error.message);
     } else {
       logger.error('An unknown error occurred');
@@ -0,0 +1,238 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { add } from "./add.js";
+import { RegistryClient } from "../registry/client.js";
+import { Component } from "../types/component.js";
+import { CLIError } from "../utils/error.js";
+import { hashContent } from "../utils/hash.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function makeComponent(name: string, files: Component["files"]): Component {
+  return { metadata: { name, version: "1.0.0" }, files };
+}
+
+describe("add command", () => {
+  let cwd: string;
+  let client: RegistryClient;
+  let getComponent: jest.Mock;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-add-"));
+    getComponent = jest.fn(async (name: string) =>
+      makeComponent(name, [
+        { path: "index.ts", content: `export const ${name} = 1;`, type: "typescript" },
+        { path: "styles/index.css", content: ".root {}", type: "css" },
+      ])
+    );
+    client = {
+      baseUrl: "http://registry.test",
+      getComponent,
+    } as unknown as RegistryClient;
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  test("writes component files into the components directory", async () => {
+    await add(["button"], { registry: "local", cwd }, client);
+
+    const dir = join(cwd, "components", "button");
+    expect(await fs.readFile(join(dir, "index.ts"), "utf-8")).toBe(
+      "export const button = 1;"
+    );
+    expect(await fs.pathExists(join(dir, "styles", "index.css"))).toBe(true);
+  });
+
+  test("installs several components in one run", async () => {
+    await add(["button", "card", "dialog"], { registry: "local", cwd }, client);
+
+    for (const name of ["button", "card", "dialog"]) {
+      expect(
+        await fs.pathExists(join(cwd, "components", name, "index.ts"))
+      ).toBe(true);
+    }
+  });
+
+  test("passes the requested version to the registry", async () => {
+    await add(["button"], { registry: "local", cwd, version: "2.0.0" }, client);
+    expect(getComponent).toHaveBeenCalledWith("button", "2.0.0", undefined);
+  });
+
+  test("accepts versions and dist-tags in the component spec", async () => {
+    await add(["button@next", "card"], { registry: "local", cwd, version: "1.0.0" }, client);
+    expect(getComponent).toHaveBeenCalledWith("button", "next", undefined);
+    expect(getComponent).toHaveBeenCalledWith("card", "1.0.0", undefined);
+  });
+
+  test("refuses to overwrite existing files without --force", async () => {
+    const file = join(cwd, "components", "button", "index.ts");
+    await fs.outputFile(file, "local changes");
+
+    await expect(
+      add(["button"], { registry: "local", cwd }, client)
+    ).rejects.toThrow("Failed to add 1 of 1 component(s): button");
+    expect(await fs.readFile(file, "utf-8")).toBe("local changes");
+    expect(
+      await fs.pathExists(join(cwd, "components", "button", "styles"))
+    ).toBe(false);
+  });
+
+  test("overwrites existing files with --force", async () => {
+    const file = join(cwd, "components", "button", "index.ts");
+    await fs.outputFile(file, "local changes");
+
+    await add(["button"], { registry: "local", cwd, force: true }, client);
+    expect(await fs.readFile(file, "utf-8")).toBe("export const button = 1;");
+  });
+
+  test("continues with remaining components and fails at the end", async () => {
+    getComponent.mockRejectedValueOnce(
+      new CLIError("COMPONENT_NOT_FOUND", "Component not found")
+    );
+
+    await expect(
+      add(["missing", "card"], { registry: "local", cwd }, client)
+    ).rejects.toThrow("missing");
+    expect(await fs.pathExists(join(cwd, "components", "card"))).toBe(true);
+  });
+
+  test("installs component dependencies before the component", async () => {
+    getComponent.mockImplementation(async (name: string) => ({
+      ...makeComponent(name, [
+        { path: "index.ts", content: "", type: "typescript" },
+      ]),
+      metadata: {
+        name,
+        version: "1.0.0",
+        componentDependencies: name === "dialog" ? { button: "^1.0.0" } : undefined,
+      },
+    }));
+
+    await add(["dialog"], { registry: "local", cwd }, client);
+
+    const manifest = await fs.readJson(join(cwd, "fetch-ui.lock.json"));
+    expect(Object.keys(manifest.components).sort()).toEqual(["button", "dialog"]);
+    expect(manifest.components.dialog.componentDependencies).toEqual({
+      button: "^1.0.0",
+    });
+    expect(getComponent.mock.calls.map(([name]) => name)).toEqual([
+      "dialog",
+      "button",
+    ]);
+  });
+
+  test("only shows the plan with --dry-run", async () => {
+    await add(["button"], { registry: "local", cwd, dryRun: true }, client);
+
+    expect(await fs.pathExists(join(cwd, "components"))).toBe(false);
+    expect(await fs.pathExists(join(cwd, "fetch-ui.lock.json"))).toBe(false);
+  });
+
+  test("installs missing npm dependencies with --deps", async () => {
+    getComponent.mockImplementation(async (name: string) => ({
+      ...makeComponent(name, []),
+      metadata: {
+        name,
+        version: "1.0.0",
+        dependencies: { clsx: "^2.0.0", react: "^18.0.0" },
+      },
+    }));
+    await fs.writeJson(join(cwd, "package.json"), {
+      dependencies: { react: "^18.2.0" },
+    });
+    await fs.writeFile(join(cwd, "pnpm-lock.yaml"), "");
+    const runner = jest.fn(async () => {});
+
+    await add(["button"], { registry: "local", cwd, deps: true }, client, runner);
+    expect(runner).toHaveBeenCalledWith("pnpm", ["add", "clsx@^2.0.0"], cwd);
+  });
+
+  test("does not run the package manager with --deps --dry-run", async () => {
+    getComponent.mockImplementation(async (name: string) => ({
+      ...makeComponent(name, []),
+      metadata: { name, version: "1.0.0", dependencies: { clsx: "^2.0.0" } },
+    }));
+    const runner = jest.fn(async () => {});
+
+    await add(
+      ["button"],
+      { registry: "local", cwd, deps: true, dryRun: true },
+      client,
+      runner
+    );
+    expect(runner).not.toHaveBeenCalled();
+  });
+
+  test("rewrites imports to the project's prefixes before writing", async () => {
+    const content = 'import { Button } from "@/components/button";\n';
+    getComponent.mockResolvedValueOnce(
+      makeComponent("dialog", [{ path: "index.tsx", content, type: "typescript" }])
+    );
+    await fs.writeJson(join(cwd, "fetch-ui.json"), {
+      components: { path: "src/components/ui", prefix: "@/components/ui" },
+    });
+    await fs.writeJson(join(cwd, "tsconfig.json"), {
+      compilerOptions: { paths: { "@/*": ["./src/*"] } },
+    });
+
+    await add(["dialog"], { registry: "local", cwd }, client);
+
+    const written = await fs.readFile(
+      join(cwd, "src", "components", "ui", "dialog", "index.tsx"),
+      "utf-8"
+    );
+    expect(written).toBe('import { Button } from "@/components/ui/button";\n');
+    const manifest = await fs.readJson(join(cwd, "fetch-ui.lock.json"));
+    expect(manifest.components.dialog.files[0].hash).toBe(hashContent(written));
+  });
+
+  test("requires the style given with --style", async () => {
+    await add(["button"], { registry: "local", cwd, style: "new-york" }, client);
+    expect(getComponent).toHaveBeenCalledWith("button", undefined, "new-york");
+  });
+
+  test("rejects file paths that escape the component directory", async () => {
+    getComponent.mockResolvedValueOnce(
+      makeComponent("evil", [
+        { path: "../../outside.ts", content: "", type: "typescript" },
+      ])
+    );
+
+    await expect(
+      add(["evil"], { registry: "local", cwd }, client)
+    ).rejects.toThrow();
+    expect(await fs.pathExists(join(cwd, "outside.ts"))).toBe(false);
+  });
+
+  test("records installed components in the manifest", async () => {
+    await add(["button"], { registry: "local", cwd }, client);
+
+    const manifest = await fs.readJson(join(cwd, "fetch-ui.lock.json"));
+    expect(manifest.components.button).toMatchObject({
+      name: "button",
+      version: "1.0.0",
+      installPath: "components/button",
+    });
+  });
+
+  test("installs into the components path from fetch-ui.json", async () => {
+    await fs.writeJson(join(cwd, "fetch-ui.json"), {
+      components: { path: "src/ui" },
+    });
+
+    await add(["button"], { registry: "local", cwd }, client);
+    expect(
+      await fs.pathExists(join(cwd, "src", "ui", "button", "index.ts"))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { logger } from '../cli/logger.js';
+import { ComponentManager } from '../manager/component-manager.js';
+import {
+  CommandRunner,
+  detectPackageManager,
+  installCommand,
+  planDependencies,
+  runCommand,
+} from '../manager/dependencies.js';
+import { formatPlan } from '../manager/resolver.js';
+import { parseComponentSpec } from '../registry/component-spec.js';
+import { TransformPipeline } from '../transform/pipeline.js';
+import { Component } from '../types/component.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { loadCommandContext } from './context.js';
+
+export interface AddOptions {
+  registry: string;
+  version?: string;
+  force?: boolean;
+  cwd?: string;
+  path?: string;
+  style?: string;
+  dryRun?: boolean;
+  deps?: boolean;
+  offline?: boolean;
+}
+
+function reportFailure(name: string, error: unknown): void {
+  logger.error(`Failed to add ${name}: ${(error as Error).message}`);
+  if (error instanceof CLIError && error.suggestion) {
+    logger.info(error.suggestion);
+  }
+}
+
+/**
+ * Install the npm packages the planned components need and the project
+ * does not have yet
+ */
+async function installDependencies(
+  cwd: string,
+  components: Component[],
+  dryRun: boolean | undefined,
+  runner: CommandRunner
+): Promise<void> {
+  const { missing, warnings } = await planDependencies(cwd, components);
+  for (const warning of warnings) {
+    logger.warn(warning);
+  }
+  if (missing.length === 0) {
+    return;
+  }
+
+  const [command, args] = installCommand(await detectPackageManager(cwd), missing);
+  logger.info(`Installing ${missing.join(', ')} with ${command}`);
+  if (!dryRun) {
+    await runner(command, args, cwd);
+  }
+}
+
+export async function add(
+  components: string[],
+  options: AddOptions,
+  client?: IRegistry,
+  runner: CommandRunner = runCommand
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  const componentsConfig = {
+    ...context.config.components,
+    path: options.path ?? context.config.components.path,
+  };
+  const manager = new ComponentManager({
+    cwd: context.cwd,
+    clientFor: context.clientFor,
+    componentsPath: componentsConfig.path,
+    force: options.force,
+    // An explicit --style must exist, the configured one is a preference
+    style: options.style ?? context.config.style,
+    requireStyle: options.style !== undefined,
+    pipeline: await TransformPipeline.load(context.cwd, {
+      ...context.config,
+      components: componentsConfig,
+    }),
+  });
+  const failed: string[] = [];
+
+  // Resolve everything, including component dependencies, before writing
+  const resolver = await manager.createResolver();
+  for (const spec of components) {
+    const { name, version } = parseComponentSpec(spec);
+    try {
+      await resolver.add(name, version ?? options.version);
+    } catch (error) {
+      failed.push(name);
+      reportFailure(name, error);
+    }
+  }
+
+  const plan = resolver.plan();
+  if (plan.roots.length > 0) {
+    logger.info('Install plan:');
+    for (const line of formatPlan(plan)) {
+      console.log(`  ${line}`);
+    }
+  }
+
+  const pending = plan.order.filter((resolved) => !resolved.installed);
+  const total = failed.length + pending.length;
+  if (!options.dryRun) {
+    for (const resolved of pending) {
+      const missing = Object.keys(resolved.dependencies).filter((name) =>
+        failed.includes(name)
+      );
+      if (missing.length > 0) {
+        failed.push(resolved.name);
+        logger.error(
+          `Skipped ${resolved.name} because ${missing.join(', ')} could not be added`
+        );
+        continue;
+      }
+      try {
+        const installed = await manager.installResolved(resolved);
+        logger.success(
+          `Added ${installed.name}@${installed.version} (${installed.files.length} files)`
+        );
+      } catch (error) {
+        failed.push(resolved.name);
+        reportFailure(resolved.name, error);
+      }
+    }
+  }
+
+  if (options.deps) {
+    const added = pending.flatMap((resolved) =>
+      resolved.component && !failed.includes(resolved.name)
+        ? [resolved.component]
+        : []
+    );
+    await installDependencies(context.cwd, added, options.dryRun, runner);
+  }
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to add ${failed.length} of ${total} component(s): ${failed.join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { logger } from '../cli/logger.js';
+import { RegistryCache } from '../registry/cache.js';
+import { formatSize } from '../utils/format.js';
+
+export interface CacheListOptions {
+  json?: boolean;
+}
+
+export async function listCache(
+  options: CacheListOptions,
+  cache: RegistryCache = new RegistryCache()
+): Promise<void> {
+  const entries = await cache.entries();
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    logger.info(`Cache at ${cache.dir} is empty`);
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`${entry.key}  ${formatSize(entry.size)}  (${entry.validatedAt})`);
+  }
+}
+
+export async function cleanCache(
+  cache: RegistryCache = new RegistryCache()
+): Promise<void> {
+  const count = await cache.clean();
+  logger.success(`Removed ${count} cached response(s) from ${cache.dir}`);
+}
+
+export async function verifyCache(
+  cache: RegistryCache = new RegistryCache()
+): Promise<void> {
+  const { checked, removed, orphans } = await cache.verify();
+
+  for (const key of removed) {
+    logger.warn(`Removed corrupt entry ${key}`);
+  }
+  if (orphans > 0) {
+    logger.info(`Removed ${orphans} unreferenced content file(s)`);
+  }
+  logger.success(
+    `Verified ${checked - removed.length} of ${checked} cached response(s)`
+  );
+}
@@ -0,0 +1,59 @@
+import { resolve } from 'path';
+import { loadConfig } from '../config/loader.js';
+import { ProjectConfig } from '../config/schema.js';
+import { loadUserConfig } from '../config/user.js';
+import { RegistryCache } from '../registry/cache.js';
+import { RegistryRouter } from '../registry/router.js';
+import { IRegistry } from '../types/registry.js';
+
+export interface CommandOptions {
+  cwd?: string;
+  registry?: string;
+  offline?: boolean;
+}
+
+export interface CommandContext {
+  cwd: string;
+  config: ProjectConfig;
+  /**
+   * Client for registry-wide requests such as search. Resolved on first
+   * use, so commands that never contact a registry work without one.
+   */
+  readonly client: IRegistry;
+  /**
+   * Client for the registry a component is routed to, or the one it was
+   * installed from when `installedFrom` is given
+   */
+  clientFor(component: string, installedFrom?: string): IRegistry;
+}
+
+/**
+ * Load the project config and set up the registry clients shared by
+ * project commands. Registry responses are cached in the user's cache
+ * directory. A given client is used for every component.
+ */
+export async function loadCommandContext(
+  options: CommandOptions,
+  client?: IRegistry
+): Promise<CommandContext> {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const config = await loadConfig(cwd);
+  if (client) {
+    return { cwd, config, client, clientFor: () => client };
+  }
+
+  const router = new RegistryRouter(config, await loadUserConfig(), {
+    registry: options.registry,
+    client: { cache: new RegistryCache(), offline: options.offline },
+    cwd,
+  });
+  return {
+    cwd,
+    config,
+    get client() {
+      return router.clientFor();
+    },
+    clientFor: (component, installedFrom) =>
+      router.clientFor(component, installedFrom),
+  };
+}
@@ -0,0 +1,124 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { add } from "./add.js";
+import { diff } from "./diff.js";
+import { RegistryClient } from "../registry/client.js";
+import { Component } from "../types/component.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const versions: Record<string, Component> = {
+  "1.0.0": {
+    metadata: { name: "button", version: "1.0.0" },
+    files: [
+      { path: "index.ts", content: "a\nb\nc\n", type: "typescript" },
+      { path: "old.css", content: ".old {}\n", type: "css" },
+    ],
+  },
+  "2.0.0": {
+    metadata: { name: "button", version: "2.0.0" },
+    files: [
+      { path: "index.ts", content: "a\nB\nc\n", type: "typescript" },
+      { path: "new.css", content: ".new {}\n", type: "css" },
+    ],
+  },
+};
+
+describe("diff command", () => {
+  let cwd: string;
+  let client: RegistryClient;
+  let logSpy: jest.SpyInstance;
+
+  async function diffJson(from?: string, to?: string) {
+    logSpy.mockClear();
+    await diff("button", from, to, { registry: "local", cwd, json: true }, client);
+    return JSON.parse(logSpy.mock.calls[0][0]);
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-diff-"));
+    client = {
+      baseUrl: "http://registry.test",
+      getComponent: jest.fn(
+        async (_name: string, version = "latest") =>
+          versions[version === "latest" ? "2.0.0" : version]
+      ),
+    } as unknown as RegistryClient;
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    await add(["button@1.0.0"], { registry: "local", cwd }, client);
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    await fs.remove(cwd);
+  });
+
+  test("shows local edits against the installed version", async () => {
+    const index = join(cwd, "components", "button", "index.ts");
+    await fs.writeFile(index, "a\nb\nc\nd\n");
+
+    expect(await diffJson()).toEqual({
+      component: "button",
+      from: "button@1.0.0",
+      to: "local",
+      files: [
+        {
+          path: "index.ts",
+          status: "modified",
+          patch: [
+            "--- a/index.ts\tbutton@1.0.0",
+            "+++ b/index.ts\tlocal",
+            "@@ -1,3 +1,4 @@",
+            " a",
+            " b",
+            " c",
+            "+d",
+          ].join("\n"),
+        },
+      ],
+    });
+  });
+
+  test("reports an unchanged copy", async () => {
+    await diff("button", undefined, undefined, { registry: "local", cwd }, client);
+    expect(logger.info).toHaveBeenCalledWith(
+      "No differences between button@1.0.0 and local"
+    );
+  });
+
+  test("compares the local copy with another version", async () => {
+    const result = await diffJson("latest");
+    expect(result.from).toBe("button@2.0.0");
+    const statuses = result.files.map(
+      (file: { path: string; status: string }) => [file.path, file.status]
+    );
+    expect(statuses).toEqual([
+      ["index.ts", "modified"],
+      ["new.css", "removed"],
+      ["old.css", "added"],
+    ]);
+  });
+
+  test("compares two registry versions", async () => {
+    const result = await diffJson("1.0.0", "2.0.0");
+    expect(result).toMatchObject({ from: "button@1.0.0", to: "button@2.0.0" });
+    expect(result.files[0].patch).toContain("-b\n+B");
+  });
+
+  test("prints colorized patches", async () => {
+    logSpy.mockClear();
+    await diff("button", "1.0.0", "2.0.0", { registry: "local", cwd }, client);
+    expect(logSpy).toHaveBeenCalledTimes(3);
+    expect(logSpy.mock.calls[0][0]).toContain("@@ -1,3 +1,3 @@");
+  });
+});
@@ -0,0 +1,80 @@
+import { logger } from '../cli/logger.js';
+import { ComponentManager } from '../manager/component-manager.js';
+import { Manifest } from '../manager/manifest.js';
+import { TransformPipeline } from '../transform/pipeline.js';
+import { IRegistry } from '../types/registry.js';
+import { colorizePatch, DiffFile, diffFiles } from '../utils/diff.js';
+import { loadCommandContext } from './context.js';
+
+export interface DiffOptions {
+  registry: string;
+  cwd?: string;
+  json?: boolean;
+  offline?: boolean;
+}
+
+/**
+ * Compare the local copy of a component with the installed version (no
+ * versions), with another version (one), or two registry versions
+ */
+export async function diff(
+  name: string,
+  from: string | undefined,
+  to: string | undefined,
+  options: DiffOptions,
+  client?: IRegistry
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  let before: DiffFile[];
+  let after: DiffFile[];
+  let labels: [string, string];
+
+  if (from && to) {
+    // Installed components are compared on the registry they came from
+    const manifest = await Manifest.load(context.cwd);
+    const registry = context.clientFor(name, manifest.get(name)?.registry);
+    const older = await registry.getComponent(name, from);
+    const newer = await registry.getComponent(name, to);
+    before = older.files;
+    after = newer.files;
+    labels = [
+      `${name}@${older.metadata.version}`,
+      `${name}@${newer.metadata.version}`,
+    ];
+  } else {
+    // Transform the registry files like an install would, so only real
+    // differences show up
+    const manager = new ComponentManager({
+      cwd: context.cwd,
+      clientFor: context.clientFor,
+      componentsPath: context.config.components.path,
+      style: context.config.style,
+      pipeline: await TransformPipeline.load(context.cwd, context.config),
+    });
+    const upstream = await manager.fetchInstalledVersion(name, from);
+    before = upstream.files;
+    after = await manager.readInstalledFiles(name);
+    labels = [`${name}@${upstream.metadata.version}`, 'local'];
+  }
+
+  const diffs = diffFiles(before, after, labels);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        { component: name, from: labels[0], to: labels[1], files: diffs },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (diffs.length === 0) {
+    logger.info(`No differences between ${labels[0]} and ${labels[1]}`);
+    return;
+  }
+  for (const file of diffs) {
+    console.log(colorizePatch(file.patch));
+  }
+}
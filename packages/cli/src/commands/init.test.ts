@@ -0,0 +1,99 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { init } from "./init.js";
+import { CONFIG_FILE, CONFIG_SCHEMA_URL } from "../config/schema.js";
+import { Prompter } from "../utils/prompt.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("init command", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-init-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  test("writes a complete config from flags", async () => {
+    await init({
+      cwd,
+      yes: true,
+      style: "minimal",
+      ts: false,
+      components: "src/ui",
+      registry: "https://registry.example.com",
+    });
+
+    const written = await fs.readJson(join(cwd, CONFIG_FILE));
+    expect(written).toMatchObject({
+      $schema: CONFIG_SCHEMA_URL,
+      style: "minimal",
+      typescript: false,
+      jsx: true,
+      components: { path: "src/ui", prefix: "@/components" },
+      registry: { url: "https://registry.example.com" },
+      tailwind: { config: "tailwind.config.js" },
+    });
+  });
+
+  test("asks for settings that were not passed as flags", async () => {
+    const prompter: Prompter = {
+      text: jest.fn(async (question: string, defaultValue: string) =>
+        question === "Components directory" ? "app/ui" : defaultValue
+      ),
+      confirm: jest.fn(async () => false),
+      close: jest.fn(),
+    };
+
+    await init({ cwd, style: "minimal" }, prompter);
+
+    const written = await fs.readJson(join(cwd, CONFIG_FILE));
+    expect(written.style).toBe("minimal");
+    expect(written.components.path).toBe("app/ui");
+    expect(written.typescript).toBe(false);
+    expect(prompter.text).not.toHaveBeenCalledWith("Style", expect.anything());
+  });
+
+  test("refuses to overwrite an existing config without --force", async () => {
+    await fs.writeJson(join(cwd, CONFIG_FILE), { style: "mine" });
+
+    await expect(init({ cwd, yes: true })).rejects.toThrow("already exists");
+    await init({ cwd, yes: true, force: true });
+    expect((await fs.readJson(join(cwd, CONFIG_FILE))).style).toBe("default");
+  });
+
+  test("only records overrides when extending a base config", async () => {
+    await fs.writeJson(join(cwd, "base.json"), { style: "minimal" });
+
+    const config = await init({
+      cwd,
+      extends: "./base.json",
+      components: "src/ui",
+    });
+
+    expect(await fs.readJson(join(cwd, CONFIG_FILE))).toEqual({
+      $schema: CONFIG_SCHEMA_URL,
+      extends: "./base.json",
+      components: { path: "src/ui" },
+    });
+    expect(config.style).toBe("minimal");
+  });
+
+  test("does not write an invalid config", async () => {
+    await expect(
+      init({ cwd, yes: true, registry: "not a url" })
+    ).rejects.toThrow("registry.url");
+    expect(await fs.pathExists(join(cwd, CONFIG_FILE))).toBe(false);
+  });
+});
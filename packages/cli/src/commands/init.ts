@@ -0,0 +1,166 @@
+import fs from 'fs-extra';
+import { join, resolve } from 'path';
+import { logger } from '../cli/logger.js';
+import { parseConfig, resolveConfig } from '../config/loader.js';
+import {
+  CONFIG_FILE,
+  CONFIG_SCHEMA_URL,
+  ProjectConfig,
+  ProjectConfigSchema,
+} from '../config/schema.js';
+import { DEFAULT_REGISTRY_URL } from '../registry/client.js';
+import { CLIError } from '../utils/error.js';
+import { createPrompter, Prompter } from '../utils/prompt.js';
+
+export interface InitOptions {
+  cwd?: string;
+  yes?: boolean;
+  force?: boolean;
+  extends?: string;
+  style?: string;
+  ts?: boolean;
+  jsx?: boolean;
+  components?: string;
+  prefix?: string;
+  registry?: string;
+  tailwindConfig?: string;
+  tailwindCss?: string;
+  baseColor?: string;
+}
+
+interface ConfigAnswers {
+  style?: string;
+  typescript?: boolean;
+  jsx?: boolean;
+  components: { path?: string; prefix?: string };
+  registry: { url?: string };
+  tailwind: { config?: string; css?: string; baseColor?: string };
+}
+
+function answersFromOptions(options: InitOptions): ConfigAnswers {
+  return {
+    style: options.style,
+    typescript: options.ts,
+    jsx: options.jsx,
+    components: { path: options.components, prefix: options.prefix },
+    registry: { url: options.registry },
+    tailwind: {
+      config: options.tailwindConfig,
+      css: options.tailwindCss,
+      baseColor: options.baseColor,
+    },
+  };
+}
+
+/**
+ * Ask for every setting that was not given as a flag
+ */
+async function promptMissing(
+  answers: ConfigAnswers,
+  prompter: Prompter
+): Promise<ConfigAnswers> {
+  const defaults = ProjectConfigSchema.parse({});
+  return {
+    style: answers.style ?? (await prompter.text('Style', defaults.style)),
+    typescript:
+      answers.typescript ??
+      (await prompter.confirm('Use TypeScript?', defaults.typescript)),
+    jsx: answers.jsx ?? (await prompter.confirm('Use JSX?', defaults.jsx)),
+    components: {
+      path:
+        answers.components.path ??
+        (await prompter.text('Components directory', defaults.components.path)),
+      prefix:
+        answers.components.prefix ??
+        (await prompter.text('Components import prefix', defaults.components.prefix)),
+    },
+    registry: {
+      url:
+        answers.registry.url ??
+        (await prompter.text('Registry URL', DEFAULT_REGISTRY_URL)),
+    },
+    tailwind: {
+      config:
+        answers.tailwind.config ??
+        (await prompter.text('Tailwind config', defaults.tailwind.config)),
+      css:
+        answers.tailwind.css ??
+        (await prompter.text('Global CSS file', defaults.tailwind.css)),
+      baseColor:
+        answers.tailwind.baseColor ??
+        (await prompter.text('Base color', defaults.tailwind.baseColor)),
+    },
+  };
+}
+
+/**
+ * Drop unset values so they neither shadow an extended config nor end up
+ * as nulls in the written file
+ */
+function compact(value: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined) {
+      continue;
+    }
+    if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+      const nested = compact(entry as Record<string, unknown>);
+      if (Object.keys(nested).length > 0) {
+        result[key] = nested;
+      }
+    } else {
+      result[key] = entry;
+    }
+  }
+  return result;
+}
+
+export async function init(
+  options: InitOptions,
+  prompter?: Prompter
+): Promise<ProjectConfig> {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const path = join(cwd, CONFIG_FILE);
+
+  if (!options.force && (await fs.pathExists(path))) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `${CONFIG_FILE} already exists in ${cwd}`,
+      'Use --force to overwrite it'
+    );
+  }
+
+  let answers = answersFromOptions(options);
+  // A config that extends a base only records what the user overrides
+  const interactive =
+    !options.yes && !options.extends && (prompter || process.stdin.isTTY);
+  if (interactive) {
+    const activePrompter = prompter ?? createPrompter();
+    try {
+      answers = await promptMissing(answers, activePrompter);
+    } finally {
+      if (!prompter) {
+        activePrompter.close();
+      }
+    }
+  }
+
+  const overrides = compact({ ...answers });
+  let content: Record<string, unknown>;
+  if (options.extends) {
+    content = { $schema: CONFIG_SCHEMA_URL, extends: options.extends, ...overrides };
+  } else {
+    // Write every setting so the file documents the full configuration
+    const { $schema: _schema, extends: _extends, ...settings } = parseConfig(
+      overrides,
+      path
+    );
+    content = { $schema: CONFIG_SCHEMA_URL, ...settings };
+  }
+
+  // Validate, including any extended configs, before touching the disk
+  const config = parseConfig(await resolveConfig(content, path), path);
+  await fs.writeJson(path, content, { spaces: 2 });
+  logger.success(`Created ${CONFIG_FILE}`);
+  return config;
+}
@@ -0,0 +1,39 @@
+import { logger } from '../cli/logger.js';
+import { ComponentManager } from '../manager/component-manager.js';
+import { IRegistry } from '../types/registry.js';
+import { loadCommandContext } from './context.js';
+
+export interface ListOptions {
+  registry: string;
+  cwd?: string;
+  json?: boolean;
+}
+
+export async function list(
+  options: ListOptions,
+  client?: IRegistry
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  const manager = new ComponentManager({
+    cwd: context.cwd,
+    clientFor: context.clientFor,
+    componentsPath: context.config.components.path,
+  });
+  const components = await manager.listInstalledComponents();
+
+  if (options.json) {
+    console.log(JSON.stringify(components, null, 2));
+    return;
+  }
+
+  if (components.length === 0) {
+    logger.info('No components installed');
+    return;
+  }
+
+  for (const component of components) {
+    console.log(
+      `${component.name}@${component.version}  ${component.installPath}  (${component.registry})`
+    );
+  }
+}
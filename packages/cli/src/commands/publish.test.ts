@@ -0,0 +1,99 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { publish } from "./publish.js";
+import { RegistryClient } from "../registry/client.js";
+import { CLIError } from "../utils/error.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("publish command", () => {
+  let cwd: string;
+  let client: RegistryClient;
+  let publishSpy: jest.Mock;
+  let getDetails: jest.Mock;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-publish-"));
+    await fs.outputJson(join(cwd, "button", "component.json"), {
+      name: "button",
+      version: "1.1.0",
+    });
+    await fs.outputFile(join(cwd, "button", "index.ts"), "export {};");
+    await fs.outputFile(join(cwd, "button", "README.md"), "# Button");
+
+    publishSpy = jest.fn(async (component) => component);
+    getDetails = jest.fn(async () => ({
+      component: {},
+      versions: [{ version: "1.0.0", createdAt: "", updatedAt: "" }],
+    }));
+    client = {
+      baseUrl: "http://registry.test",
+      getDetails,
+      publish: publishSpy,
+    } as unknown as RegistryClient;
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    await fs.remove(cwd);
+  });
+
+  test("publishes the packed component with the tag", async () => {
+    await publish("button", { registry: "local", cwd, tag: "next" }, client);
+
+    expect(publishSpy).toHaveBeenCalledWith(
+      {
+        metadata: { name: "button", version: "1.1.0" },
+        files: [{ path: "index.ts", content: "export {};", type: "typescript" }],
+        readme: "# Button",
+      },
+      "next"
+    );
+    expect(logger.success).toHaveBeenCalledWith(
+      "Published button@1.1.0 to http://registry.test"
+    );
+  });
+
+  test("shows a summary without uploading on --dry-run", async () => {
+    await publish("button", { registry: "local", cwd, dryRun: true }, client);
+
+    expect(publishSpy).not.toHaveBeenCalled();
+    const output = logSpy.mock.calls.map(([line]) => line);
+    expect(output).toContain("button@1.1.0");
+    expect(output).toContain("  index.ts  typescript  10 B");
+    expect(output).toContain("  with README");
+  });
+
+  test("refuses versions that are already published", async () => {
+    await fs.writeJson(join(cwd, "button", "component.json"), {
+      name: "button",
+      version: "1.0.0",
+    });
+
+    await expect(
+      publish("button", { registry: "local", cwd }, client)
+    ).rejects.toThrow("button@1.0.0 has already been published");
+    expect(publishSpy).not.toHaveBeenCalled();
+  });
+
+  test("publishes the first version of a new component", async () => {
+    getDetails.mockRejectedValue(
+      new CLIError("COMPONENT_NOT_FOUND", "Component not found")
+    );
+
+    await publish("button", { registry: "local", cwd }, client);
+    expect(publishSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { resolve } from 'path';
+import { logger } from '../cli/logger.js';
+import { COMPONENT_MANIFEST, packComponent } from '../registry/pack.js';
+import { Component } from '../types/component.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { formatSize } from '../utils/format.js';
+import { loadCommandContext } from './context.js';
+
+export interface PublishOptions {
+  registry: string;
+  cwd?: string;
+  tag?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Fail early when the version is already in the registry
+ */
+async function checkVersionIsNew(
+  client: IRegistry,
+  component: Component
+): Promise<void> {
+  const { name, version } = component.metadata;
+  let versions: string[] = [];
+  try {
+    const details = await client.getDetails(name);
+    versions = details.versions.map((entry) => entry.version);
+  } catch (error) {
+    if (!(error instanceof CLIError && error.code === 'COMPONENT_NOT_FOUND')) {
+      throw error;
+    }
+  }
+  if (versions.includes(version)) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `${name}@${version} has already been published`,
+      `Bump the version in ${COMPONENT_MANIFEST} and publish again`
+    );
+  }
+}
+
+function printSummary(component: Component, tag: string | undefined): void {
+  const { name, version } = component.metadata;
+  const size = (content: string) => Buffer.byteLength(content);
+
+  console.log(`${name}@${version}${tag ? ` (tag: ${tag})` : ''}`);
+  for (const file of component.files) {
+    console.log(`  ${file.path}  ${file.type}  ${formatSize(size(file.content))}`);
+  }
+  const documents = [
+    component.readme !== undefined && 'README',
+    component.changelog !== undefined && 'CHANGELOG',
+  ].filter(Boolean);
+  if (documents.length > 0) {
+    console.log(`  with ${documents.join(' and ')}`);
+  }
+  console.log(
+    `${component.files.length} file(s), ${formatSize(size(JSON.stringify(component)))} in total`
+  );
+}
+
+/**
+ * Package the component in `dir` and publish it to the registry
+ */
+export async function publish(
+  dir: string | undefined,
+  options: PublishOptions,
+  client?: IRegistry
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  const { component, skipped } = await packComponent(
+    resolve(context.cwd, dir ?? '.')
+  );
+  const { name, version } = component.metadata;
+
+  for (const path of skipped) {
+    logger.warn(`Skipping ${path}, its file type cannot be published`);
+  }
+  const registry = context.clientFor(name);
+  await checkVersionIsNew(registry, component);
+
+  if (options.dryRun) {
+    printSummary(component, options.tag);
+    logger.info('Dry run, nothing was published');
+    return;
+  }
+
+  await registry.publish(component, options.tag);
+  logger.success(`Published ${name}@${version} to ${registry.baseUrl}`);
+}
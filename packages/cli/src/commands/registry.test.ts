@@ -0,0 +1,124 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  registryAdd,
+  registryList,
+  registryRemove,
+  registrySetDefault,
+  registryStatus,
+} from "./registry.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("registry commands", () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-registry-"));
+    configPath = join(dir, "config.json");
+    process.env.FETCH_UI_USER_CONFIG = configPath;
+  });
+
+  afterEach(async () => {
+    delete process.env.FETCH_UI_USER_CONFIG;
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  test("adds registries with auth and timeout to the user config", async () => {
+    await registryAdd("internal", "https://internal.example.com", {
+      token: "secret",
+      timeout: "5000",
+      default: true,
+    });
+
+    expect(await fs.readJson(configPath)).toEqual({
+      defaultRegistry: "internal",
+      registries: {
+        internal: {
+          url: "https://internal.example.com",
+          auth: { type: "bearer", token: "secret" },
+          timeout: 5000,
+        },
+      },
+    });
+  });
+
+  test("rejects invalid names and URLs", async () => {
+    await expect(registryAdd("Internal", "https://a.example.com", {})).rejects.toThrow(
+      '"Internal" is not a valid registry name'
+    );
+    await expect(registryAdd("internal", "not a url", {})).rejects.toThrow(
+      "Invalid registry: url"
+    );
+  });
+
+  test("lists registries and marks the default", async () => {
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    await registryAdd("public", "https://public.example.com", {});
+    await registryAdd("internal", "https://internal.example.com", { authType: "apiKey" });
+    await registrySetDefault("public");
+
+    await registryList({});
+    expect(logSpy.mock.calls.map(([line]) => line)).toEqual([
+      "  internal  https://internal.example.com  (auth: apiKey)",
+      "* public  https://public.example.com",
+    ]);
+  });
+
+  test("masks tokens in the JSON listing", async () => {
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    await registryAdd("internal", "https://internal.example.com", { token: "secret" });
+
+    await registryList({ json: true });
+    const output = logSpy.mock.calls[0][0];
+    expect(output).not.toContain("secret");
+    expect(JSON.parse(output).registries.internal.auth).toEqual({
+      type: "bearer",
+      token: "********",
+    });
+  });
+
+  test("removing the default registry unsets it", async () => {
+    await registryAdd("internal", "https://internal.example.com", { default: true });
+    await registryRemove("internal");
+
+    expect(await fs.readJson(configPath)).toEqual({ registries: {} });
+    await expect(registryRemove("internal")).rejects.toThrow('Unknown registry "internal"');
+  });
+
+  test("status calls the health endpoint of every registry", async () => {
+    await registryAdd("internal", "https://internal.example.com", {});
+    const fetchSpy = jest.spyOn(global, "fetch").mockImplementation(async (url) =>
+      String(url).startsWith("https://internal")
+        ? ({ ok: true, status: 200, json: async () => ({ status: "ok" }) } as Response)
+        : Promise.reject(new TypeError("fetch failed"))
+    );
+
+    await expect(registryStatus({ cwd: dir })).rejects.toMatchObject({
+      code: "REGISTRY_UNREACHABLE",
+      message: "1 of 2 registries are unreachable",
+    });
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://internal.example.com/health",
+      expect.any(Object)
+    );
+    expect(logger.success).toHaveBeenCalledWith(
+      expect.stringMatching(/^internal {2}https:\/\/internal\.example\.com {2}\d+ms$/)
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      "project  http://localhost:3000  Could not reach registry at http://localhost:3000"
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { resolve } from 'path';
+import { logger } from '../cli/logger.js';
+import { loadConfig } from '../config/loader.js';
+import { RegistryAuth } from '../config/schema.js';
+import {
+  loadUserConfig,
+  REGISTRY_NAME_PATTERN,
+  RegistryEntry,
+  RegistryEntrySchema,
+  saveUserConfig,
+  UserConfig,
+} from '../config/user.js';
+import { createRegistry, RegistryRouter } from '../registry/router.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { formatZodIssues } from '../utils/validation.js';
+
+export interface RegistryAddOptions {
+  authType?: RegistryAuth['type'];
+  token?: string;
+  timeout?: string;
+  default?: boolean;
+}
+
+export interface RegistryListOptions {
+  json?: boolean;
+}
+
+export interface RegistryStatusOptions {
+  cwd?: string;
+}
+
+function requireRegistry(config: UserConfig, name: string): RegistryEntry {
+  const entry = config.registries[name];
+  if (!entry) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Unknown registry "${name}"`,
+      'Run `fetch-ui registry list` to see the configured registries'
+    );
+  }
+  return entry;
+}
+
+function describeEntry(entry: RegistryEntry): string {
+  const details = [
+    entry.auth && `auth: ${entry.auth.type}`,
+    entry.timeout && `timeout: ${entry.timeout}ms`,
+  ].filter(Boolean);
+  return details.length > 0 ? `${entry.url}  (${details.join(', ')})` : entry.url;
+}
+
+// Tokens stand in the user config in plain text, so they are never printed
+const MASKED_TOKEN = '********';
+
+function maskEntry(entry: RegistryEntry): RegistryEntry {
+  return entry.auth?.token
+    ? { ...entry, auth: { ...entry.auth, token: MASKED_TOKEN } }
+    : entry;
+}
+
+export async function registryAdd(
+  name: string,
+  url: string,
+  options: RegistryAddOptions
+): Promise<void> {
+  if (!REGISTRY_NAME_PATTERN.test(name)) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `"${name}" is not a valid registry name`,
+      'Use lowercase letters, digits and dashes'
+    );
+  }
+
+  const type = options.authType ?? (options.token ? 'bearer' : undefined);
+  const result = RegistryEntrySchema.safeParse({
+    url,
+    ...(type && { auth: { type, token: options.token } }),
+    ...(options.timeout !== undefined && { timeout: Number(options.timeout) }),
+  });
+  if (!result.success) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Invalid registry: ${formatZodIssues(result.error)}`
+    );
+  }
+
+  const config = await loadUserConfig();
+  const existed = name in config.registries;
+  config.registries[name] = result.data;
+  if (options.default) {
+    config.defaultRegistry = name;
+  }
+  await saveUserConfig(config);
+  logger.success(`${existed ? 'Updated' : 'Added'} registry ${name} (${url})`);
+}
+
+export async function registryRemove(name: string): Promise<void> {
+  const config = await loadUserConfig();
+  requireRegistry(config, name);
+
+  delete config.registries[name];
+  if (config.defaultRegistry === name) {
+    delete config.defaultRegistry;
+  }
+  await saveUserConfig(config);
+  logger.success(`Removed registry ${name}`);
+}
+
+export async function registrySetDefault(name: string): Promise<void> {
+  const config = await loadUserConfig();
+  requireRegistry(config, name);
+
+  config.defaultRegistry = name;
+  await saveUserConfig(config);
+  logger.success(`${name} is now the default registry`);
+}
+
+export async function registryList(options: RegistryListOptions): Promise<void> {
+  const config = await loadUserConfig();
+
+  if (options.json) {
+    const registries = Object.fromEntries(
+      Object.entries(config.registries).map(([name, entry]) => [
+        name,
+        maskEntry(entry),
+      ])
+    );
+    console.log(JSON.stringify({ ...config, registries }, null, 2));
+    return;
+  }
+
+  const names = Object.keys(config.registries).sort();
+  if (names.length === 0) {
+    logger.info('No registries configured, add one with `fetch-ui registry add <name> <url>`');
+    return;
+  }
+  for (const name of names) {
+    const marker = name === config.defaultRegistry ? '*' : ' ';
+    console.log(`${marker} ${name}  ${describeEntry(config.registries[name])}`);
+  }
+}
+
+/**
+ * Call the health endpoint of every configured registry and of the one
+ * the project in `cwd` uses by default
+ */
+export async function registryStatus(options: RegistryStatusOptions): Promise<void> {
+  const user = await loadUserConfig();
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const project = await loadConfig(cwd);
+
+  const targets = new Map<string, IRegistry>();
+  for (const [name, entry] of Object.entries(user.registries)) {
+    targets.set(name, createRegistry(entry, {}, cwd));
+  }
+  const fallback = new RegistryRouter(project, user).resolve();
+  if (!fallback.name) {
+    targets.set('project', createRegistry(fallback, {}, cwd));
+  }
+
+  let unreachable = 0;
+  for (const [name, client] of targets) {
+    const started = Date.now();
+    try {
+      await client.health();
+      logger.success(`${name}  ${client.baseUrl}  ${Date.now() - started}ms`);
+    } catch (error) {
+      unreachable++;
+      logger.error(`${name}  ${client.baseUrl}  ${(error as Error).message}`);
+    }
+  }
+
+  if (unreachable > 0) {
+    throw new CLIError(
+      'REGISTRY_UNREACHABLE',
+      `${unreachable} of ${targets.size} registries are unreachable`
+    );
+  }
+}
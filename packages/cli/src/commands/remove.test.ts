@@ -0,0 +1,104 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { add } from "./add.js";
+import { remove } from "./remove.js";
+import { RegistryClient } from "../registry/client.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("remove command", () => {
+  let cwd: string;
+  let client: RegistryClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-remove-"));
+    client = {
+      baseUrl: "http://registry.test",
+      getComponent: jest.fn(async (name: string) => ({
+        metadata: {
+          name,
+          version: "1.0.0",
+          dependencies:
+            name === "dialog"
+              ? { clsx: "^2.0.0", "@radix-ui/react-dialog": "^1.0.0" }
+              : { clsx: "^2.0.0" },
+          componentDependencies: name === "dialog" ? { button: "^1.0.0" } : undefined,
+        },
+        files: [{ path: "index.ts", content: name, type: "typescript" }],
+      })),
+    } as unknown as RegistryClient;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    await add(["dialog"], { registry: "local", cwd }, client);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(cwd);
+  });
+
+  test("removes the recorded files and keeps the rest", async () => {
+    const notes = join(cwd, "components", "dialog", "notes.md");
+    await fs.writeFile(notes, "mine");
+
+    await remove(["dialog"], { registry: "local", cwd }, client);
+
+    expect(await fs.pathExists(join(cwd, "components", "dialog", "index.ts"))).toBe(false);
+    expect(await fs.pathExists(notes)).toBe(true);
+    const manifest = await fs.readJson(join(cwd, "fetch-ui.lock.json"));
+    expect(Object.keys(manifest.components)).toEqual(["button"]);
+  });
+
+  test("warns when installed components depend on a removed one", async () => {
+    await remove(["button"], { registry: "local", cwd }, client);
+    expect(logger.warn).toHaveBeenCalledWith("dialog still depend on button");
+  });
+
+  test("does not warn about dependents removed in the same run", async () => {
+    await remove(["button", "dialog"], { registry: "local", cwd }, client);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  test("works without a usable registry", async () => {
+    const config = join(cwd, "user-config.json");
+    await fs.writeJson(config, { defaultRegistry: "missing" });
+    process.env.FETCH_UI_USER_CONFIG = config;
+    try {
+      await remove(["dialog"], { registry: "local", cwd });
+    } finally {
+      delete process.env.FETCH_UI_USER_CONFIG;
+    }
+
+    const manifest = await fs.readJson(join(cwd, "fetch-ui.lock.json"));
+    expect(Object.keys(manifest.components)).toEqual(["button"]);
+  });
+
+  test("fails for modified components unless forced", async () => {
+    await fs.writeFile(join(cwd, "components", "button", "index.ts"), "mine");
+
+    await expect(
+      remove(["button"], { registry: "local", cwd }, client)
+    ).rejects.toThrow("Failed to remove 1 of 1 component(s): button");
+    await remove(["button"], { registry: "local", cwd, force: true }, client);
+    expect(await fs.pathExists(join(cwd, "components", "button"))).toBe(false);
+  });
+
+  test("lists npm dependencies nothing uses anymore", async () => {
+    await remove(["dialog"], { registry: "local", cwd, unusedDeps: true }, client);
+    expect(logger.info).toHaveBeenCalledWith(
+      "No installed component uses @radix-ui/react-dialog anymore"
+    );
+    expect(logger.info).toHaveBeenCalledWith(
+      "If your own code does not need them either, run: npm uninstall @radix-ui/react-dialog"
+    );
+  });
+});
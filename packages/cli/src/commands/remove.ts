@@ -0,0 +1,85 @@
+import { logger } from '../cli/logger.js';
+import { ComponentManager } from '../manager/component-manager.js';
+import {
+  detectPackageManager,
+  uninstallCommand,
+  unusedDependencies,
+} from '../manager/dependencies.js';
+import { InstalledComponent } from '../types/manager.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { loadCommandContext } from './context.js';
+
+export interface RemoveOptions {
+  registry: string;
+  cwd?: string;
+  force?: boolean;
+  unusedDeps?: boolean;
+}
+
+export async function remove(
+  components: string[],
+  options: RemoveOptions,
+  client?: IRegistry
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  const manager = new ComponentManager({
+    cwd: context.cwd,
+    clientFor: context.clientFor,
+    force: options.force,
+  });
+  const installed = await manager.listInstalledComponents();
+  const removing = new Set(components);
+  const removed: InstalledComponent[] = [];
+  const failed: string[] = [];
+
+  for (const name of components) {
+    const dependents = installed
+      .filter(
+        (component) =>
+          !removing.has(component.name) &&
+          component.componentDependencies?.[name] !== undefined
+      )
+      .map((component) => component.name);
+    if (dependents.length > 0) {
+      logger.warn(`${dependents.join(', ')} still depend on ${name}`);
+    }
+
+    try {
+      await manager.uninstallComponent(name);
+      removed.push(installed.find((component) => component.name === name)!);
+      logger.success(`Removed ${name}`);
+    } catch (error) {
+      failed.push(name);
+      logger.error(`Failed to remove ${name}: ${(error as Error).message}`);
+      if (error instanceof CLIError && error.suggestion) {
+        logger.info(error.suggestion);
+      }
+    }
+  }
+
+  if (options.unusedDeps && removed.length > 0) {
+    const remaining = installed.filter(
+      (component) => !removed.includes(component)
+    );
+    const unused = unusedDependencies(removed, remaining);
+    if (unused.length === 0) {
+      logger.info('All npm dependencies are still used by installed components');
+    } else {
+      const [command, args] = uninstallCommand(
+        await detectPackageManager(context.cwd),
+        unused
+      );
+      logger.info(`No installed component uses ${unused.join(', ')} anymore`);
+      logger.info(
+        `If your own code does not need them either, run: ${command} ${args.join(' ')}`
+      );
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to remove ${failed.length} of ${components.length} component(s): ${failed.join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { tmpdir } from "os";
+import { search } from "./search.js";
+import { RegistryClient } from "../registry/client.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("search command", () => {
+  let client: RegistryClient;
+  let searchSpy: jest.Mock;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    searchSpy = jest.fn(async () => ({
+      results: [
+        {
+          name: "button",
+          latestVersion: "1.0.0",
+          description: "A clickable button",
+          tags: ["form"],
+          score: 10,
+        },
+      ],
+      total: 1,
+      page: 1,
+      pageSize: 10,
+      facets: { tags: { form: 1 }, styles: { default: 1 } },
+    }));
+    client = { search: searchSpy } as unknown as RegistryClient;
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  test("sends the query and filters to the registry", async () => {
+    await search(
+      "button",
+      {
+        registry: "local",
+        cwd: tmpdir(),
+        tags: "form, action",
+        typescript: true,
+        limit: "5",
+      },
+      client
+    );
+
+    expect(searchSpy).toHaveBeenCalledWith({
+      q: "button",
+      tags: ["form", "action"],
+      author: undefined,
+      style: undefined,
+      typescript: true,
+      page: undefined,
+      pageSize: 5,
+    });
+  });
+
+  test("prints results and facet counts", async () => {
+    await search("button", { registry: "local", cwd: tmpdir() }, client);
+
+    const output = logSpy.mock.calls.flat().join("\n");
+    expect(output).toContain("button");
+    expect(output).toContain("A clickable button");
+    expect(logger.info).toHaveBeenCalledWith("Showing 1-1 of 1 components");
+    expect(logger.info).toHaveBeenCalledWith("Tags: form (1)");
+  });
+
+  test("prints raw JSON with --json", async () => {
+    await search(undefined, { registry: "local", cwd: tmpdir(), json: true }, client);
+
+    const output = JSON.parse(logSpy.mock.calls[0][0]);
+    expect(output.total).toBe(1);
+  });
+});
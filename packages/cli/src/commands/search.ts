@@ -0,0 +1,68 @@
+import chalk from 'chalk';
+import { logger } from '../cli/logger.js';
+import { IRegistry } from '../types/registry.js';
+import { loadCommandContext } from './context.js';
+
+export interface SearchOptions {
+  registry: string;
+  cwd?: string;
+  tags?: string;
+  author?: string;
+  style?: string;
+  typescript?: boolean;
+  page?: string;
+  limit?: string;
+  offline?: boolean;
+  json?: boolean;
+}
+
+function formatFacet(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([value, count]) => `${value} (${count})`)
+    .join(', ');
+}
+
+export async function search(
+  query: string | undefined,
+  options: SearchOptions,
+  client?: IRegistry
+): Promise<void> {
+  const context = await loadCommandContext(options, client);
+  const response = await context.client.search({
+    q: query,
+    tags: options.tags?.split(',').map((tag) => tag.trim()).filter(Boolean),
+    author: options.author,
+    style: options.style,
+    typescript: options.typescript,
+    page: options.page ? Number(options.page) : undefined,
+    pageSize: options.limit ? Number(options.limit) : undefined,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(response, null, 2));
+    return;
+  }
+
+  if (response.results.length === 0) {
+    logger.info(query ? `No components match "${query}"` : 'No components found');
+    return;
+  }
+
+  for (const result of response.results) {
+    const tags = result.tags?.length ? chalk.gray(` [${result.tags.join(', ')}]`) : '';
+    console.log(`${chalk.bold(result.name)}@${result.latestVersion}${tags}`);
+    if (result.description) {
+      console.log(`  ${result.description}`);
+    }
+  }
+
+  const first = (response.page - 1) * response.pageSize + 1;
+  const last = first + response.results.length - 1;
+  console.log();
+  logger.info(`Showing ${first}-${last} of ${response.total} components`);
+  if (Object.keys(response.facets.tags).length > 0) {
+    logger.info(`Tags: ${formatFacet(response.facets.tags)}`);
+  }
+  logger.info(`Styles: ${formatFacet(response.facets.styles)}`);
+}
@@ -0,0 +1,130 @@
+import { logger } from '../cli/logger.js';
+import { ComponentManager } from '../manager/component-manager.js';
+import { TransformPipeline } from '../transform/pipeline.js';
+import { UpdateCheck, UpdateResult } from '../types/manager.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { loadCommandContext } from './context.js';
+
+export interface UpdateOptions {
+  registry: string;
+  cwd?: string;
+  all?: boolean;
+  check?: boolean;
+  backup?: boolean;
+  force?: boolean;
+  offline?: boolean;
+}
+
+function printChanges(check: UpdateCheck): void {
+  for (const change of check.changes) {
+    console.log(`  ${change.type.padEnd(8)} ${change.path}`);
+  }
+}
+
+function reportCheck(check: UpdateCheck): void {
+  if (!check.hasUpdate) {
+    logger.info(`${check.component} is up to date (${check.currentVersion})`);
+    return;
+  }
+  logger.info(
+    `${check.component} ${check.currentVersion} -> ${check.latestVersion}`
+  );
+  printChanges(check);
+  if (check.localChanges.length > 0) {
+    logger.warn(
+      `Local changes to ${check.localChanges.join(', ')} will be merged`
+    );
+  }
+}
+
+function reportUpdate(result: UpdateResult): void {
+  if (result.backupPath) {
+    logger.info(`Backed up ${result.component} to ${result.backupPath}`);
+  }
+  logger.success(
+    `Updated ${result.component} from ${result.currentVersion} to ${result.installed.version}`
+  );
+  printChanges(result);
+  if (result.merged.length > 0) {
+    logger.info(`Merged local changes into ${result.merged.join(', ')}`);
+  }
+  if (result.conflicts.length > 0) {
+    logger.warn(
+      `Resolve the conflict markers in ${result.conflicts.join(', ')}`
+    );
+  }
+  if (result.kept.length > 0) {
+    logger.warn(
+      `Kept ${result.kept.join(', ')}: no longer part of ${result.component} but changed locally`
+    );
+  }
+}
+
+export async function update(
+  name: string | undefined,
+  version: string | undefined,
+  options: UpdateOptions,
+  client?: IRegistry
+): Promise<void> {
+  if (name && options.all) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      'Pass either a component or --all, not both'
+    );
+  }
+  if (!name && !options.all) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      'Specify a component to update',
+      'Use --all to update every installed component'
+    );
+  }
+
+  const context = await loadCommandContext(options, client);
+  const manager = new ComponentManager({
+    cwd: context.cwd,
+    clientFor: context.clientFor,
+    componentsPath: context.config.components.path,
+    force: options.force,
+    style: context.config.style,
+    pipeline: await TransformPipeline.load(context.cwd, context.config),
+  });
+  const names = name
+    ? [name]
+    : (await manager.listInstalledComponents()).map((installed) => installed.name);
+  if (names.length === 0) {
+    logger.info('No components installed');
+    return;
+  }
+
+  const failed: string[] = [];
+  for (const component of names) {
+    try {
+      if (options.check) {
+        reportCheck(await manager.checkUpdate(component, version));
+        continue;
+      }
+      const result = await manager.updateComponent(component, version, {
+        backup: options.backup,
+      });
+      if (!result.hasUpdate && !options.force) {
+        logger.info(`${component} is up to date (${result.currentVersion})`);
+      } else {
+        reportUpdate(result);
+      }
+    } catch (error) {
+      failed.push(component);
+      logger.error(`Failed to update ${component}: ${(error as Error).message}`);
+      if (error instanceof CLIError && error.suggestion) {
+        logger.info(error.suggestion);
+      }
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to update ${failed.length} of ${names.length} component(s): ${failed.join(', ')}`
+    );
+  }
+}
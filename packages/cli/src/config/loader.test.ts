@@ -0,0 +1,118 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { loadConfig, mergeConfig } from "./loader.js";
+import { CONFIG_FILE, ProjectConfigSchema } from "./schema.js";
+
+describe("config loader", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  test("returns defaults when there is no config file", async () => {
+    const config = await loadConfig(cwd);
+    expect(config.components).toEqual({
+      path: "components",
+      prefix: "@/components",
+    });
+    expect(config.typescript).toBe(true);
+  });
+
+  test("loads and fills in a partial config", async () => {
+    await fs.writeJson(join(cwd, CONFIG_FILE), {
+      style: "minimal",
+      components: { path: "src/components/ui" },
+    });
+
+    const config = await loadConfig(cwd);
+    expect(config.style).toBe("minimal");
+    expect(config.components).toEqual({
+      path: "src/components/ui",
+      prefix: "@/components",
+    });
+  });
+
+  test("reports invalid fields with their path", async () => {
+    await fs.writeJson(join(cwd, CONFIG_FILE), {
+      typescript: "yes",
+      registry: { url: "not a url" },
+    });
+
+    await expect(loadConfig(cwd)).rejects.toThrow(
+      /Invalid fetch-ui\.json .*typescript: Expected boolean.*registry\.url: Invalid url/
+    );
+  });
+
+  test("reports malformed JSON", async () => {
+    await fs.writeFile(join(cwd, CONFIG_FILE), "{ style: ");
+    await expect(loadConfig(cwd)).rejects.toMatchObject({
+      code: "CONFIG_ERROR",
+    });
+  });
+
+  test("inherits from an extended base config", async () => {
+    await fs.outputJson(join(cwd, "shared", "base.json"), {
+      style: "minimal",
+      registry: { url: "https://registry.team.dev" },
+      components: { path: "ui", prefix: "@team/ui" },
+    });
+    await fs.writeJson(join(cwd, CONFIG_FILE), {
+      extends: "./shared/base.json",
+      components: { path: "src/ui" },
+    });
+
+    const config = await loadConfig(cwd);
+    expect(config.style).toBe("minimal");
+    expect(config.registry.url).toBe("https://registry.team.dev");
+    expect(config.components).toEqual({ path: "src/ui", prefix: "@team/ui" });
+  });
+
+  test("resolves extends from installed packages", async () => {
+    const pkg = join(cwd, "node_modules", "@team", "fetch-ui-config");
+    await fs.outputJson(join(pkg, "package.json"), {
+      name: "@team/fetch-ui-config",
+      main: "fetch-ui.json",
+    });
+    await fs.outputJson(join(pkg, "fetch-ui.json"), { style: "team" });
+    await fs.writeJson(join(cwd, CONFIG_FILE), {
+      extends: "@team/fetch-ui-config",
+    });
+
+    expect((await loadConfig(cwd)).style).toBe("team");
+  });
+
+  test("detects circular extends", async () => {
+    await fs.writeJson(join(cwd, "a.json"), { extends: "./fetch-ui.json" });
+    await fs.writeJson(join(cwd, CONFIG_FILE), { extends: "./a.json" });
+
+    await expect(loadConfig(cwd)).rejects.toThrow("Circular extends");
+  });
+
+  test("reports a missing base config", async () => {
+    await fs.writeJson(join(cwd, CONFIG_FILE), { extends: "./missing.json" });
+    await expect(loadConfig(cwd)).rejects.toThrow("Cannot find base config");
+  });
+
+  test("mergeConfig replaces arrays and merges objects", () => {
+    expect(
+      mergeConfig(
+        { a: { b: 1, c: [1, 2] }, d: 1 },
+        { a: { c: [3] }, e: 2 }
+      )
+    ).toEqual({ a: { b: 1, c: [3] }, d: 1, e: 2 });
+  });
+
+  test("published schema.json matches ProjectConfigSchema", async () => {
+    const published = await fs.readJson(join(__dirname, "../../schema.json"));
+    expect(published).toMatchObject(
+      zodToJsonSchema(ProjectConfigSchema, { $refStrategy: "none" })
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs-extra';
+import { createRequire } from 'module';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { CLIError } from '../utils/error.js';
+import { formatZodIssues } from '../utils/validation.js';
+import { CONFIG_FILE, ProjectConfig, ProjectConfigSchema } from './schema.js';
+
+type RawConfig = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge two raw configs. Objects merge key by key, everything else
+ * (including arrays) is replaced by the overriding value.
+ */
+export function mergeConfig(base: RawConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeConfig(merged[key] as RawConfig, value)
+        : value;
+  }
+  return merged;
+}
+
+async function readConfigFile(path: string): Promise<RawConfig> {
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(path);
+  } catch (error) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Could not read ${path}: ${(error as Error).message}`
+    );
+  }
+  if (!isPlainObject(raw)) {
+    throw new CLIError('CONFIG_ERROR', `${path} must contain a JSON object`);
+  }
+  return raw;
+}
+
+function resolveExtends(spec: string, from: string): string {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    return resolve(dirname(from), spec);
+  }
+  try {
+    return createRequire(from).resolve(spec);
+  } catch {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Cannot find base config "${spec}" extended by ${from}`,
+      'Check the extends path or install the package that provides it'
+    );
+  }
+}
+
+async function readConfigChain(path: string, seen: string[]): Promise<RawConfig> {
+  if (seen.includes(path)) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Circular extends: ${[...seen, path].join(' -> ')}`
+    );
+  }
+  return resolveExtendsChain(await readConfigFile(path), path, seen);
+}
+
+async function resolveExtendsChain(
+  raw: RawConfig,
+  path: string,
+  seen: string[]
+): Promise<RawConfig> {
+  // $schema only describes the file it appears in
+  const { extends: base, $schema: _schema, ...config } = raw;
+  if (base === undefined) {
+    return config;
+  }
+  if (typeof base !== 'string') {
+    throw new CLIError('CONFIG_ERROR', `${path}: extends must be a string`);
+  }
+
+  const basePath = resolveExtends(base, path);
+  if (!(await fs.pathExists(basePath))) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Cannot find base config ${basePath} extended by ${path}`
+    );
+  }
+  return mergeConfig(await readConfigChain(basePath, [...seen, path]), config);
+}
+
+/**
+ * Merge a raw config with the configs it extends, as if it were stored at
+ * `path`
+ */
+export async function resolveConfig(
+  raw: RawConfig,
+  path: string
+): Promise<RawConfig> {
+  return resolveExtendsChain(raw, path, []);
+}
+
+/**
+ * Validate a raw config, reporting problems against the given file
+ */
+export function parseConfig(raw: unknown, path: string): ProjectConfig {
+  const result = ProjectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Invalid ${CONFIG_FILE} (${path}): ${formatZodIssues(result.error)}`,
+      `Fix the listed fields or run \`fetch-ui init --force\` to regenerate it`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Load the project config from fetch-ui.json in `cwd`, following `extends`.
+ * Projects without a config file get the defaults.
+ */
+export async function loadConfig(cwd: string): Promise<ProjectConfig> {
+  const path = join(resolve(cwd), CONFIG_FILE);
+  if (!(await fs.pathExists(path))) {
+    return ProjectConfigSchema.parse({});
+  }
+  return parseConfig(await readConfigChain(path, []), path);
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { DEFAULT_REGISTRY_URL } from '../registry/client.js';
+
+export const CONFIG_FILE = 'fetch-ui.json';
+export const CONFIG_SCHEMA_URL = 'https://unpkg.com/fetch-ui/schema.json';
+
+// Without a token, FETCH_UI_REGISTRY_TOKEN is used so it can stay out of
+// version control
+export const RegistryAuthSchema = z.object({
+  type: z.enum(['apiKey', 'bearer']),
+  token: z.string().optional(),
+});
+
+export type RegistryAuth = z.infer<typeof RegistryAuthSchema>;
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Extra rewrites applied to installed files. `import` rules rewrite import
+// specifiers, the other types rewrite the content of matching files.
+export const TransformRuleSchema = z.object({
+  type: z
+    .enum(['import', 'style', 'jsx', 'tsx'])
+    .describe(
+      'import: module specifiers, style: CSS files, jsx: JavaScript files, tsx: TypeScript files'
+    ),
+  pattern: z
+    .string()
+    .refine(isValidRegExp, 'Must be a valid regular expression')
+    .describe('Regular expression to replace'),
+  flags: z
+    .string()
+    .regex(/^[dgimsuy]*$/, 'Must be regular expression flags')
+    .default('g')
+    .describe('Regular expression flags'),
+  replace: z.string().describe('Replacement, may use $1-style groups'),
+});
+
+export type TransformRule = z.infer<typeof TransformRuleSchema>;
+
+export const ProjectConfigSchema = z.object({
+  $schema: z.string().optional(),
+  extends: z
+    .string()
+    .optional()
+    .describe('Path or package specifier of a base config to inherit from'),
+  style: z.string().default('default').describe('Component style preset'),
+  typescript: z.boolean().default(true),
+  jsx: z.boolean().default(true),
+  components: z
+    .object({
+      path: z.string().default('components').describe('Components directory'),
+      prefix: z
+        .string()
+        .default('@/components')
+        .describe('Import prefix for components'),
+    })
+    .default({}),
+  utils: z
+    .object({
+      prefix: z
+        .string()
+        .default('@/lib/utils')
+        .describe('Import path of the shared utils module'),
+    })
+    .default({}),
+  registry: z
+    .object({
+      url: z
+        .string()
+        .url()
+        .optional()
+        .describe(
+          `Registry URL, defaults to the user's default registry or ${DEFAULT_REGISTRY_URL}`
+        ),
+      auth: RegistryAuthSchema.optional(),
+      routes: z
+        .record(z.string())
+        .default({})
+        .describe(
+          'Registry name or URL by component name pattern, e.g. "@internal/*": "internal"'
+        ),
+    })
+    .default({}),
+  tailwind: z
+    .object({
+      config: z.string().default('tailwind.config.js'),
+      css: z.string().default('src/styles/globals.css'),
+      baseColor: z.string().default('slate'),
+      cssVariables: z.boolean().default(true),
+    })
+    .default({}),
+  transforms: z
+    .array(TransformRuleSchema)
+    .default([])
+    .describe('Rewrite rules applied to component files before writing'),
+});
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+export type ProjectConfigInput = z.input<typeof ProjectConfigSchema>;
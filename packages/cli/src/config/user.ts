@@ -0,0 +1,72 @@
+import fs from 'fs-extra';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { CLIError } from '../utils/error.js';
+import { formatZodIssues } from '../utils/validation.js';
+import { RegistryAuthSchema } from './schema.js';
+
+// Lowercase words joined by dashes, like `internal` or `acme-mirror`
+export const REGISTRY_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const RegistryEntrySchema = z.object({
+  url: z.string().url(),
+  auth: RegistryAuthSchema.optional(),
+  /** Request timeout in milliseconds */
+  timeout: z.number().int().positive().optional(),
+});
+
+export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
+
+// Settings of the current user, shared by all projects
+export const UserConfigSchema = z.object({
+  defaultRegistry: z.string().optional(),
+  registries: z
+    .record(z.string().regex(REGISTRY_NAME_PATTERN), RegistryEntrySchema)
+    .default({}),
+});
+
+export type UserConfig = z.infer<typeof UserConfigSchema>;
+
+/**
+ * FETCH_UI_USER_CONFIG or ~/.fetch-ui/config.json
+ */
+export function userConfigPath(): string {
+  return (
+    process.env.FETCH_UI_USER_CONFIG || join(homedir(), '.fetch-ui', 'config.json')
+  );
+}
+
+export async function loadUserConfig(
+  path: string = userConfigPath()
+): Promise<UserConfig> {
+  if (!(await fs.pathExists(path))) {
+    return UserConfigSchema.parse({});
+  }
+
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(path);
+  } catch (error) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Could not read ${path}: ${(error as Error).message}`
+    );
+  }
+  const result = UserConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Invalid user config (${path}): ${formatZodIssues(result.error)}`,
+      'Fix the file or manage registries with `fetch-ui registry`'
+    );
+  }
+  return result.data;
+}
+
+export async function saveUserConfig(
+  config: UserConfig,
+  path: string = userConfigPath()
+): Promise<void> {
+  await fs.outputJson(path, config, { spaces: 2 });
+}
@@ -0,0 +1,378 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ComponentManager } from "./component-manager.js";
+import { Manifest, MANIFEST_FILE } from "./manifest.js";
+import { RegistryClient } from "../registry/client.js";
+import { Component } from "../types/component.js";
+import { hashContent } from "../utils/hash.js";
+import { logger } from "../cli/logger.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const versions: Record<string, Component> = {
+  "1.0.0": {
+    metadata: { name: "button", version: "1.0.0" },
+    files: [
+      { path: "index.ts", content: "v1", type: "typescript" },
+      { path: "legacy/old.css", content: ".old {}", type: "css" },
+    ],
+  },
+  "2.0.0": {
+    metadata: { name: "button", version: "2.0.0" },
+    files: [
+      { path: "index.ts", content: "v2", type: "typescript" },
+      { path: "button.css", content: ".new {}", type: "css" },
+    ],
+  },
+};
+
+describe("ComponentManager", () => {
+  let cwd: string;
+  let manager: ComponentManager;
+  let getComponent: jest.Mock;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-manager-"));
+    getComponent = jest.fn(
+      async (_name: string, version = "1.0.0") => versions[version]
+    );
+    const client = {
+      baseUrl: "http://registry.test",
+      getComponent,
+    } as unknown as RegistryClient;
+    manager = new ComponentManager({ cwd, client });
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  describe("installComponent", () => {
+    test("records version, install path, registry and file hashes", async () => {
+      await manager.installComponent("button");
+
+      const [installed] = await manager.listInstalledComponents();
+      expect(installed).toEqual({
+        name: "button",
+        version: "1.0.0",
+        installPath: "components/button",
+        registry: "http://registry.test",
+        files: [
+          { path: "index.ts", hash: hashContent("v1") },
+          { path: "legacy/old.css", hash: hashContent(".old {}") },
+        ],
+      });
+    });
+
+    test("warns when installing a deprecated version", async () => {
+      getComponent.mockResolvedValueOnce({
+        ...versions["1.0.0"],
+        deprecated: true,
+        deprecationMessage: "Use 2.x instead",
+      });
+
+      await manager.installComponent("button", "1.0.0");
+      expect(logger.warn).toHaveBeenCalledWith(
+        "button@1.0.0 is deprecated: Use 2.x instead"
+      );
+    });
+
+    test("installs scoped components under their scope", async () => {
+      getComponent.mockResolvedValueOnce({
+        ...versions["1.0.0"],
+        metadata: { name: "@team/button", version: "1.0.0" },
+      });
+
+      const installed = await manager.installComponent("@team/button");
+      expect(installed.installPath).toBe("components/@team/button");
+      expect(
+        await fs.pathExists(join(cwd, "components", "@team", "button", "index.ts"))
+      ).toBe(true);
+    });
+
+    test("installs the preferred style when the component ships it", async () => {
+      const client = {
+        baseUrl: "http://registry.test",
+        getComponent: jest.fn(
+          async (_name: string, _version?: string, style?: string) =>
+            style
+              ? {
+                  ...versions["1.0.0"],
+                  metadata: { ...versions["1.0.0"].metadata, style },
+                }
+              : { ...versions["1.0.0"], availableStyles: ["default", "minimal"] }
+        ),
+      } as unknown as RegistryClient;
+      manager = new ComponentManager({ cwd, client, style: "minimal" });
+
+      const installed = await manager.installComponent("button");
+      expect(installed.style).toBe("minimal");
+      expect(client.getComponent).toHaveBeenLastCalledWith(
+        "button",
+        "1.0.0",
+        "minimal"
+      );
+    });
+
+    test("falls back to the published style unless the style is required", async () => {
+      const client = {
+        baseUrl: "http://registry.test",
+        getComponent,
+      } as unknown as RegistryClient;
+
+      manager = new ComponentManager({ cwd, client, style: "minimal" });
+      await manager.installComponent("button");
+      expect(getComponent).toHaveBeenCalledWith("button", undefined, undefined);
+
+      manager = new ComponentManager({
+        cwd,
+        client,
+        style: "minimal",
+        requireStyle: true,
+        force: true,
+      });
+      await manager.installComponent("button");
+      expect(getComponent).toHaveBeenLastCalledWith("button", undefined, "minimal");
+    });
+
+    test("fetches from and records the registry a component is routed to", async () => {
+      const internal = {
+        baseUrl: "https://internal.example.com",
+        getComponent: jest.fn(async () => ({
+          ...versions["1.0.0"],
+          metadata: { name: "@internal/button", version: "1.0.0" },
+        })),
+      } as unknown as RegistryClient;
+      manager = new ComponentManager({
+        cwd,
+        client: { getComponent } as unknown as RegistryClient,
+        clientFor: (name) =>
+          name.startsWith("@internal/")
+            ? internal
+            : ({ baseUrl: "http://registry.test", getComponent } as unknown as RegistryClient),
+      });
+
+      const installed = await manager.installComponent("@internal/button");
+      expect(installed.registry).toBe("https://internal.example.com");
+      expect(getComponent).not.toHaveBeenCalled();
+    });
+
+    test("refuses to reinstall an installed component", async () => {
+      await manager.installComponent("button");
+      await expect(manager.installComponent("button")).rejects.toThrow(
+        "button@1.0.0 is already installed"
+      );
+    });
+  });
+
+  describe("uninstallComponent", () => {
+    test("removes recorded files and the manifest entry", async () => {
+      await manager.installComponent("button");
+      await fs.outputFile(join(cwd, "components", "card", "index.ts"), "");
+
+      await manager.uninstallComponent("button");
+
+      expect(await fs.pathExists(join(cwd, "components", "button"))).toBe(false);
+      expect(await fs.pathExists(join(cwd, "components", "card"))).toBe(true);
+      expect(await manager.listInstalledComponents()).toEqual([]);
+    });
+
+    test("keeps files the manifest does not know about", async () => {
+      await manager.installComponent("button");
+      const extra = join(cwd, "components", "button", "notes.md");
+      await fs.outputFile(extra, "mine");
+
+      await manager.uninstallComponent("button");
+      expect(await fs.pathExists(extra)).toBe(true);
+    });
+
+    test("refuses to remove files the user changed without force", async () => {
+      await manager.installComponent("button");
+      const index = join(cwd, "components", "button", "index.ts");
+      await fs.writeFile(index, "mine");
+
+      await expect(manager.uninstallComponent("button")).rejects.toThrow(
+        "button has local changes in index.ts"
+      );
+      expect(await fs.readFile(index, "utf-8")).toBe("mine");
+      expect(await manager.listInstalledComponents()).toHaveLength(1);
+
+      manager = new ComponentManager({
+        cwd,
+        client: { getComponent } as unknown as RegistryClient,
+        force: true,
+      });
+      await manager.uninstallComponent("button");
+      expect(await fs.pathExists(index)).toBe(false);
+    });
+
+    test("throws if the component is not installed", async () => {
+      await expect(manager.uninstallComponent("button")).rejects.toThrow(
+        "button is not installed"
+      );
+    });
+  });
+
+  describe("updateComponent", () => {
+    test("writes the new version and drops files it no longer ships", async () => {
+      await manager.installComponent("button");
+      await manager.updateComponent("button", "2.0.0");
+
+      const dir = join(cwd, "components", "button");
+      expect(await fs.readFile(join(dir, "index.ts"), "utf-8")).toBe("v2");
+      expect(await fs.pathExists(join(dir, "button.css"))).toBe(true);
+      expect(await fs.pathExists(join(dir, "legacy"))).toBe(false);
+
+      const [installed] = await manager.listInstalledComponents();
+      expect(installed.version).toBe("2.0.0");
+    });
+
+    test("throws if the component is not installed", async () => {
+      await expect(manager.updateComponent("button", "2.0.0")).rejects.toThrow(
+        "button is not installed"
+      );
+    });
+
+    describe("with local changes", () => {
+      const lines = (...values: string[]) => values.join("\n");
+      const release = (version: string, content: string): Component => ({
+        metadata: { name: "button", version },
+        files: [
+          { path: "index.ts", content, type: "typescript" },
+          { path: "legacy/old.css", content: ".old {}", type: "css" },
+        ],
+      });
+      const releases: Record<string, Component> = {
+        "1.0.0": release("1.0.0", lines("a", "b", "c", "d")),
+        "2.0.0": {
+          metadata: { name: "button", version: "2.0.0" },
+          files: [
+            {
+              path: "index.ts",
+              content: lines("a2", "b", "c", "d"),
+              type: "typescript",
+            },
+          ],
+        },
+        "3.0.0": release("3.0.0", lines("a", "b", "c", "d3")),
+      };
+      const indexPath = () => join(cwd, "components", "button", "index.ts");
+
+      beforeEach(async () => {
+        getComponent.mockImplementation(
+          async (_name: string, version = "1.0.0") => releases[version]
+        );
+        await manager.installComponent("button");
+      });
+
+      test("merges edits with the new version", async () => {
+        await fs.writeFile(indexPath(), lines("a", "b", "c", "d-local"));
+
+        const result = await manager.updateComponent("button", "2.0.0");
+        expect(await fs.readFile(indexPath(), "utf-8")).toBe(
+          lines("a2", "b", "c", "d-local")
+        );
+        expect(result).toMatchObject({
+          merged: ["index.ts"],
+          conflicts: [],
+          localChanges: ["index.ts"],
+        });
+        expect(getComponent).toHaveBeenCalledWith("button", "1.0.0", undefined);
+      });
+
+      test("writes conflict markers for overlapping edits", async () => {
+        await fs.writeFile(indexPath(), lines("a", "b", "c", "d-local"));
+
+        const result = await manager.updateComponent("button", "3.0.0");
+        expect(result.conflicts).toEqual(["index.ts"]);
+        expect(await fs.readFile(indexPath(), "utf-8")).toBe(
+          lines(
+            "a",
+            "b",
+            "c",
+            "<<<<<<< local",
+            "d-local",
+            "=======",
+            "d3",
+            ">>>>>>> button@3.0.0"
+          )
+        );
+      });
+
+      test("keeps edited files the new version no longer ships", async () => {
+        const old = join(cwd, "components", "button", "legacy", "old.css");
+        await fs.writeFile(old, ".old { color: red; }");
+
+        const result = await manager.updateComponent("button", "2.0.0");
+        expect(result.kept).toEqual(["legacy/old.css"]);
+        expect(await fs.readFile(old, "utf-8")).toBe(".old { color: red; }");
+      });
+
+      test("backs up the current files first", async () => {
+        await fs.writeFile(indexPath(), "mine");
+
+        const { backupPath } = await manager.updateComponent("button", "2.0.0", {
+          backup: true,
+        });
+        const backup = await fs.readJson(backupPath!);
+        expect(backupPath).toContain(join(".fetch-ui", "backups", "button"));
+        expect(backup).toMatchObject({
+          component: "button",
+          version: "1.0.0",
+          files: [
+            { path: "index.ts", content: "mine" },
+            { path: "legacy/old.css", content: ".old {}" },
+          ],
+        });
+      });
+    });
+  });
+
+  describe("checkUpdate", () => {
+    test("reports file changes and local edits without writing", async () => {
+      await manager.installComponent("button");
+      const index = join(cwd, "components", "button", "index.ts");
+      await fs.writeFile(index, "mine");
+
+      expect(await manager.checkUpdate("button", "2.0.0")).toEqual({
+        component: "button",
+        currentVersion: "1.0.0",
+        latestVersion: "2.0.0",
+        hasUpdate: true,
+        changes: [
+          { type: "modified", path: "index.ts" },
+          { type: "added", path: "button.css" },
+          { type: "removed", path: "legacy/old.css" },
+        ],
+        localChanges: ["index.ts"],
+      });
+      expect(await fs.readFile(index, "utf-8")).toBe("mine");
+    });
+
+    test("reports installed versions as up to date", async () => {
+      await manager.installComponent("button");
+      await expect(manager.checkUpdate("button", "1.0.0")).resolves.toMatchObject({
+        hasUpdate: false,
+        changes: [],
+      });
+    });
+  });
+
+  describe("Manifest", () => {
+    test("rejects an invalid manifest file", async () => {
+      await fs.writeJson(join(cwd, MANIFEST_FILE), { components: [] });
+      await expect(Manifest.load(cwd)).rejects.toThrow(
+        `${MANIFEST_FILE} is invalid`
+      );
+    });
+  });
+});
@@ -0,0 +1,577 @@
+import fs from 'fs-extra';
+import { dirname, join, normalize, resolve } from 'path';
+import { logger } from '../cli/logger.js';
+import { TransformPipeline } from '../transform/pipeline.js';
+import {
+  Component,
+  ComponentVersionResponse,
+  DEFAULT_STYLE,
+} from '../types/component.js';
+import {
+  Backup,
+  FileChange,
+  IComponentManager,
+  InstalledComponent,
+  UpdateCheck,
+  UpdateComponentOptions,
+  UpdateResult,
+} from '../types/manager.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { removeEmptyDirs, resolveInside, toPosixRelative } from '../utils/fs.js';
+import { hashContent } from '../utils/hash.js';
+import { Manifest } from './manifest.js';
+import { mergeFile } from './merge.js';
+import { DependencyResolver, ResolvedComponent } from './resolver.js';
+
+export const DEFAULT_COMPONENTS_PATH = 'components';
+
+// Where `update --backup` saves the files it replaces
+export const BACKUP_DIR = '.fetch-ui/backups';
+
+export interface ComponentManagerOptions {
+  cwd: string;
+  /** Client for every component, unless `clientFor` is given */
+  client?: IRegistry;
+  /**
+   * Client for the registry a component is routed to, or the one it was
+   * installed from when `installedFrom` is given. `client` if unset.
+   */
+  clientFor?: (component: string, installedFrom?: string) => IRegistry;
+  componentsPath?: string;
+  force?: boolean;
+  /** Adapts files to the project before they are written */
+  pipeline?: TransformPipeline;
+  /** Style variant to install when a component ships it */
+  style?: string;
+  /** Fail for components that do not ship `style` instead of falling back */
+  requireStyle?: boolean;
+}
+
+/**
+ * Write the files of a component into its target directory
+ * @returns Absolute paths of the written files
+ */
+export async function writeComponentFiles(
+  component: Component,
+  targetDir: string,
+  force = false
+): Promise<string[]> {
+  const targets = component.files.map((file) => ({
+    path: resolveInside(targetDir, file.path),
+    content: file.content,
+  }));
+
+  if (!force) {
+    const existing = [];
+    for (const target of targets) {
+      if (await fs.pathExists(target.path)) {
+        existing.push(target.path);
+      }
+    }
+    if (existing.length > 0) {
+      throw new CLIError(
+        'FILE_SYSTEM_ERROR',
+        `${component.metadata.name} would overwrite existing files: ${existing.join(', ')}`,
+        'Use --force to overwrite them'
+      );
+    }
+  }
+
+  for (const target of targets) {
+    await fs.ensureDir(dirname(target.path));
+    await fs.writeFile(target.path, target.content);
+  }
+
+  return targets.map((target) => target.path);
+}
+
+/**
+ * Installs components into a project and records them in fetch-ui.lock.json
+ */
+export class ComponentManager implements IComponentManager {
+  private readonly cwd: string;
+
+  constructor(private readonly options: ComponentManagerOptions) {
+    this.cwd = resolve(options.cwd);
+  }
+
+  async installComponent(
+    name: string,
+    version?: string
+  ): Promise<InstalledComponent> {
+    const manifest = await Manifest.load(this.cwd);
+    const previous = manifest.get(name);
+    if (previous && !this.options.force) {
+      throw new CLIError(
+        'FILE_SYSTEM_ERROR',
+        `${name}@${previous.version} is already installed`,
+        'Use --force to reinstall it or run `fetch-ui update`'
+      );
+    }
+
+    const component = await this.fetchComponent(name, version);
+    const installed = await this.writeInstall(
+      component,
+      previous,
+      this.options.force
+    );
+    manifest.set(installed);
+    await manifest.save();
+    return installed;
+  }
+
+  /**
+   * Create a resolver that plans installs against this project's installed
+   * components
+   */
+  async createResolver(): Promise<DependencyResolver> {
+    const manifest = await Manifest.load(this.cwd);
+    return new DependencyResolver({
+      fetch: (name, range) => this.fetchComponent(name, range),
+      getInstalled: (name) => manifest.get(name),
+      force: this.options.force,
+    });
+  }
+
+  /**
+   * Install a component fetched while resolving a plan
+   */
+  async installResolved(
+    resolved: ResolvedComponent
+  ): Promise<InstalledComponent> {
+    if (!resolved.component) {
+      throw new Error(`${resolved.name} has nothing to install`);
+    }
+    const manifest = await Manifest.load(this.cwd);
+    const installed = await this.writeInstall(
+      resolved.component,
+      manifest.get(resolved.name),
+      this.options.force
+    );
+    manifest.set(installed);
+    await manifest.save();
+    return installed;
+  }
+
+  async uninstallComponent(name: string): Promise<void> {
+    const manifest = await Manifest.load(this.cwd);
+    const installed = this.getInstalled(manifest, name);
+    const installDir = resolveInside(this.cwd, installed.installPath);
+
+    const changed = await this.findLocalChanges(installed);
+    if (changed.length > 0 && !this.options.force) {
+      throw new CLIError(
+        'FILE_SYSTEM_ERROR',
+        `${name} has local changes in ${changed.join(', ')}`,
+        'Use --force to remove it anyway'
+      );
+    }
+
+    // Only files the manifest recorded, anything the user added stays
+    for (const file of installed.files) {
+      const path = resolveInside(installDir, file.path);
+      await fs.remove(path);
+      await removeEmptyDirs(dirname(path), this.cwd);
+    }
+
+    manifest.remove(name);
+    await manifest.save();
+  }
+
+  async listInstalledComponents(): Promise<InstalledComponent[]> {
+    const manifest = await Manifest.load(this.cwd);
+    return manifest.list();
+  }
+
+  /**
+   * Compare an installed component with the version an update would
+   * install, without writing anything
+   */
+  async checkUpdate(name: string, version?: string): Promise<UpdateCheck> {
+    const manifest = await Manifest.load(this.cwd);
+    const previous = this.getInstalled(manifest, name);
+    const { check } = await this.prepareUpdate(previous, version);
+    return check;
+  }
+
+  /**
+   * Update a component, keeping local edits. Files the user changed are
+   * three-way merged with the new version, using the version they were
+   * installed from as the base.
+   */
+  async updateComponent(
+    name: string,
+    version?: string,
+    options: UpdateComponentOptions = {}
+  ): Promise<UpdateResult> {
+    const manifest = await Manifest.load(this.cwd);
+    const previous = this.getInstalled(manifest, name);
+    const { component, check } = await this.prepareUpdate(previous, version);
+    const result: UpdateResult = {
+      ...check,
+      installed: previous,
+      merged: [],
+      conflicts: [],
+      kept: [],
+    };
+    if (!check.hasUpdate && !this.options.force) {
+      return result;
+    }
+
+    const installDir = resolveInside(this.cwd, previous.installPath);
+    if (options.backup) {
+      result.backupPath = await this.backup(previous);
+    }
+
+    const edited = new Set(check.localChanges.map((path) => normalize(path)));
+    const recorded = new Map(
+      previous.files.map((file) => [normalize(file.path), file.hash])
+    );
+    const original =
+      edited.size > 0 ? await this.fetchOriginal(previous) : new Map();
+    const label = `${name}@${component.metadata.version}`;
+
+    for (const file of component.files) {
+      const key = normalize(file.path);
+      const path = resolveInside(installDir, file.path);
+      if (!edited.has(key)) {
+        await fs.ensureDir(dirname(path));
+        await fs.writeFile(path, file.content);
+        continue;
+      }
+      // Local edits win when the new version leaves the file as it was
+      if (recorded.get(key) === hashContent(file.content)) {
+        continue;
+      }
+      const local = await fs.readFile(path, 'utf-8');
+      const merged = mergeFile(local, original.get(key) ?? '', file.content, label);
+      await fs.writeFile(path, merged.content);
+      result.merged.push(file.path);
+      if (merged.conflict) {
+        result.conflicts.push(file.path);
+      }
+    }
+
+    const current = new Set(component.files.map((file) => normalize(file.path)));
+    for (const file of previous.files) {
+      const key = normalize(file.path);
+      if (current.has(key)) {
+        continue;
+      }
+      if (edited.has(key)) {
+        result.kept.push(file.path);
+        continue;
+      }
+      const path = resolveInside(installDir, file.path);
+      await fs.remove(path);
+      await removeEmptyDirs(dirname(path), installDir);
+    }
+
+    result.installed = this.toInstalled(
+      component,
+      previous.installPath,
+      this.clientFor(name, previous).baseUrl
+    );
+    manifest.set(result.installed);
+    await manifest.save();
+    return result;
+  }
+
+  /**
+   * Fetch a version of an installed component (by default the installed
+   * one) as it would be written over the install: in the installed style
+   * and with imports transformed
+   */
+  async fetchInstalledVersion(
+    name: string,
+    version?: string
+  ): Promise<Component> {
+    const manifest = await Manifest.load(this.cwd);
+    const installed = this.getInstalled(manifest, name);
+    return this.fetchForInstall(installed, version ?? installed.version);
+  }
+
+  /**
+   * The current content of an installed component's files. Files the user
+   * deleted are left out.
+   */
+  async readInstalledFiles(
+    name: string
+  ): Promise<{ path: string; content: string }[]> {
+    const manifest = await Manifest.load(this.cwd);
+    const installed = this.getInstalled(manifest, name);
+    const installDir = resolveInside(this.cwd, installed.installPath);
+
+    const files = [];
+    for (const file of installed.files) {
+      const path = resolveInside(installDir, file.path);
+      if (await fs.pathExists(path)) {
+        files.push({
+          path: file.path,
+          content: await fs.readFile(path, 'utf-8'),
+        });
+      }
+    }
+    return files;
+  }
+
+  private async fetchForInstall(
+    installed: InstalledComponent,
+    version?: string
+  ): Promise<Component> {
+    const component = await this.fetchComponent(
+      installed.name,
+      version,
+      installed.style ?? this.options.style,
+      installed
+    );
+    return this.transform(component, installed.installPath);
+  }
+
+  private async prepareUpdate(
+    previous: InstalledComponent,
+    version?: string
+  ): Promise<{ component: Component; check: UpdateCheck }> {
+    const component = await this.fetchForInstall(previous, version);
+
+    const recorded = new Map(
+      previous.files.map((file) => [normalize(file.path), file.hash])
+    );
+    const changes: FileChange[] = [];
+    for (const file of component.files) {
+      const hash = recorded.get(normalize(file.path));
+      if (hash === undefined) {
+        changes.push({ type: 'added', path: file.path });
+      } else if (hash !== hashContent(file.content)) {
+        changes.push({ type: 'modified', path: file.path });
+      }
+    }
+    const current = new Set(component.files.map((file) => normalize(file.path)));
+    for (const file of previous.files) {
+      if (!current.has(normalize(file.path))) {
+        changes.push({ type: 'removed', path: file.path });
+      }
+    }
+
+    // Deleted files count as unchanged and are written again
+    const localChanges = await this.findLocalChanges(previous);
+
+    return {
+      component,
+      check: {
+        component: previous.name,
+        currentVersion: previous.version,
+        latestVersion: component.metadata.version,
+        hasUpdate: component.metadata.version !== previous.version,
+        changes,
+        localChanges,
+      },
+    };
+  }
+
+  /**
+   * Installed files whose content no longer matches the manifest hash
+   */
+  private async findLocalChanges(
+    installed: InstalledComponent
+  ): Promise<string[]> {
+    const installDir = resolveInside(this.cwd, installed.installPath);
+    const changed: string[] = [];
+    for (const file of installed.files) {
+      const path = resolveInside(installDir, file.path);
+      if (
+        (await fs.pathExists(path)) &&
+        hashContent(await fs.readFile(path)) !== file.hash
+      ) {
+        changed.push(file.path);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * The files as they were installed, by normalized path, to merge against.
+   * Files that no longer match their recorded hash (e.g. because the
+   * transform config changed since) are left out.
+   */
+  private async fetchOriginal(
+    previous: InstalledComponent
+  ): Promise<Map<string, string>> {
+    let component: Component;
+    try {
+      component = this.transform(
+        await this.clientFor(previous.name, previous).getComponent(
+          previous.name,
+          previous.version,
+          previous.style
+        ),
+        previous.installPath
+      );
+    } catch (error) {
+      logger.warn(
+        `Could not fetch ${previous.name}@${previous.version} to merge against: ${(error as Error).message}`
+      );
+      return new Map();
+    }
+
+    const recorded = new Map(
+      previous.files.map((file) => [normalize(file.path), file.hash])
+    );
+    return new Map(
+      component.files
+        .filter(
+          (file) =>
+            recorded.get(normalize(file.path)) === hashContent(file.content)
+        )
+        .map((file) => [normalize(file.path), file.content])
+    );
+  }
+
+  /**
+   * Client for a component. Installed components are fetched from the
+   * registry they were installed from, unless --registry says otherwise.
+   */
+  private clientFor(
+    component: string,
+    installed?: InstalledComponent
+  ): IRegistry {
+    const client =
+      this.options.clientFor?.(component, installed?.registry) ??
+      this.options.client;
+    if (!client) {
+      throw new Error(`No registry client to fetch ${component} from`);
+    }
+    return client;
+  }
+
+  private async backup(installed: InstalledComponent): Promise<string> {
+    const timestamp = new Date().toISOString();
+    const backup: Backup = {
+      timestamp,
+      component: installed.name,
+      version: installed.version,
+      files: await this.readInstalledFiles(installed.name),
+    };
+
+    const path = join(
+      this.cwd,
+      BACKUP_DIR,
+      installed.name,
+      `${installed.version}-${timestamp.replace(/[:.]/g, '-')}.json`
+    );
+    await fs.outputJson(path, backup, { spaces: 2 });
+    return path;
+  }
+
+  private async fetchComponent(
+    name: string,
+    version?: string,
+    style = this.options.style,
+    installed?: InstalledComponent
+  ): Promise<ComponentVersionResponse> {
+    const { requireStyle } = this.options;
+    const client = this.clientFor(name, installed);
+    let component = await client.getComponent(
+      name,
+      version,
+      requireStyle ? style : undefined
+    );
+    // Only ask for the preferred style when the component ships it
+    if (
+      style &&
+      !requireStyle &&
+      (component.metadata.style ?? DEFAULT_STYLE) !== style &&
+      component.availableStyles?.includes(style)
+    ) {
+      component = await client.getComponent(
+        name,
+        component.metadata.version,
+        style
+      );
+    }
+    if (component.deprecated) {
+      const label = `${component.metadata.name}@${component.metadata.version}`;
+      logger.warn(
+        component.deprecationMessage
+          ? `${label} is deprecated: ${component.deprecationMessage}`
+          : `${label} is deprecated`
+      );
+    }
+    return component;
+  }
+
+  private getInstalled(manifest: Manifest, name: string): InstalledComponent {
+    const installed = manifest.get(name);
+    if (!installed) {
+      throw new CLIError(
+        'COMPONENT_NOT_FOUND',
+        `${name} is not installed`,
+        'Run `fetch-ui list` to see installed components'
+      );
+    }
+    return installed;
+  }
+
+  private async writeInstall(
+    component: Component,
+    previous: InstalledComponent | undefined,
+    force = false
+  ): Promise<InstalledComponent> {
+    const { name } = component.metadata;
+    const installPath =
+      previous?.installPath ??
+      toPosixRelative(
+        this.cwd,
+        resolve(
+          this.cwd,
+          this.options.componentsPath ?? DEFAULT_COMPONENTS_PATH,
+          name
+        )
+      );
+    const installDir = resolveInside(this.cwd, installPath);
+
+    const transformed = this.transform(component, installPath);
+    await writeComponentFiles(transformed, installDir, force);
+
+    // Drop files the previous version had but this one no longer ships
+    const current = new Set(component.files.map((file) => normalize(file.path)));
+    for (const file of previous?.files ?? []) {
+      if (!current.has(normalize(file.path))) {
+        const path = resolveInside(installDir, file.path);
+        await fs.remove(path);
+        await removeEmptyDirs(dirname(path), installDir);
+      }
+    }
+
+    return this.toInstalled(transformed, installPath);
+  }
+
+  private transform(component: Component, installPath: string): Component {
+    return this.options.pipeline?.transform(component, installPath) ?? component;
+  }
+
+  /**
+   * Manifest entry of a transformed component. Hashes are taken from the
+   * files as written to disk.
+   */
+  private toInstalled(
+    component: Component,
+    installPath: string,
+    registry = this.clientFor(component.metadata.name).baseUrl
+  ): InstalledComponent {
+    return {
+      name: component.metadata.name,
+      version: component.metadata.version,
+      installPath,
+      registry,
+      files: component.files.map((file) => ({
+        path: file.path,
+        hash: hashContent(file.content),
+      })),
+      dependencies: component.metadata.dependencies,
+      componentDependencies: component.metadata.componentDependencies,
+      style: component.metadata.style,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  detectPackageManager,
+  installCommand,
+  planDependencies,
+  uninstallCommand,
+  unusedDependencies,
+} from "./dependencies.js";
+import { Component } from "../types/component.js";
+import { InstalledComponent } from "../types/manager.js";
+
+function makeComponent(
+  metadata: Partial<Component["metadata"]>
+): Component {
+  return { metadata: { name: "button", version: "1.0.0", ...metadata }, files: [] };
+}
+
+describe("dependencies", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-deps-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  describe("detectPackageManager", () => {
+    test.each([
+      ["pnpm-lock.yaml", "pnpm"],
+      ["yarn.lock", "yarn"],
+      ["bun.lockb", "bun"],
+      ["package-lock.json", "npm"],
+    ])("detects %s as %s", async (lockfile, manager) => {
+      await fs.writeFile(join(cwd, lockfile), "");
+      expect(await detectPackageManager(cwd)).toBe(manager);
+    });
+
+    test("prefers the packageManager field", async () => {
+      await fs.writeJson(join(cwd, "package.json"), {
+        packageManager: "yarn@4.1.0",
+      });
+      await fs.writeFile(join(cwd, "package-lock.json"), "");
+      expect(await detectPackageManager(cwd)).toBe("yarn");
+    });
+
+    test("uses the lockfile of a parent workspace", async () => {
+      const pkg = join(cwd, "packages", "app");
+      await fs.ensureDir(pkg);
+      await fs.writeFile(join(cwd, "pnpm-lock.yaml"), "");
+      expect(await detectPackageManager(pkg)).toBe("pnpm");
+    });
+  });
+
+  describe("installCommand", () => {
+    test("uses install for npm and add for the others", () => {
+      expect(installCommand("npm", ["clsx@^2.0.0"])).toEqual([
+        "npm",
+        ["install", "clsx@^2.0.0"],
+      ]);
+      expect(installCommand("yarn", ["clsx@^2.0.0"])).toEqual([
+        "yarn",
+        ["add", "clsx@^2.0.0"],
+      ]);
+    });
+  });
+
+  describe("uninstallCommand", () => {
+    test("uses uninstall for npm and remove for the others", () => {
+      expect(uninstallCommand("npm", ["clsx"])).toEqual(["npm", ["uninstall", "clsx"]]);
+      expect(uninstallCommand("pnpm", ["clsx"])).toEqual(["pnpm", ["remove", "clsx"]]);
+    });
+  });
+
+  describe("unusedDependencies", () => {
+    const installed = (
+      name: string,
+      dependencies: Record<string, string>
+    ): InstalledComponent => ({
+      name,
+      version: "1.0.0",
+      installPath: `components/${name}`,
+      registry: "http://registry.test",
+      files: [],
+      dependencies,
+    });
+
+    test("lists packages only the removed components needed", () => {
+      expect(
+        unusedDependencies(
+          [
+            installed("dialog", { clsx: "^2.0.0", "@radix-ui/react-dialog": "^1.0.0" }),
+            installed("tooltip", { clsx: "^2.0.0", "@floating-ui/react": "^0.26.0" }),
+          ],
+          [installed("button", { clsx: "^2.0.0" })]
+        )
+      ).toEqual(["@floating-ui/react", "@radix-ui/react-dialog"]);
+    });
+  });
+
+  describe("planDependencies", () => {
+    test("lists dependencies the project does not declare", async () => {
+      await fs.writeJson(join(cwd, "package.json"), {
+        dependencies: { react: "^18.2.0" },
+        devDependencies: { typescript: "^5.0.0" },
+      });
+
+      const plan = await planDependencies(cwd, [
+        makeComponent({ dependencies: { react: "^18.0.0", clsx: "^2.0.0" } }),
+        makeComponent({
+          name: "card",
+          dependencies: { clsx: "^2.1.0", typescript: "^5.0.0" },
+        }),
+      ]);
+      expect(plan).toEqual({ missing: ["clsx@^2.0.0"], warnings: [] });
+    });
+
+    test("warns about installed peers outside the required range", async () => {
+      await fs.outputJson(join(cwd, "node_modules", "react", "package.json"), {
+        version: "17.0.2",
+      });
+
+      const plan = await planDependencies(cwd, [
+        makeComponent({ peerDependencies: { react: "^18.0.0" } }),
+      ]);
+      expect(plan).toEqual({
+        missing: [],
+        warnings: ["button expects react@^18.0.0 but 17.0.2 is installed"],
+      });
+    });
+
+    test("installs peers that are neither declared nor installed", async () => {
+      const plan = await planDependencies(cwd, [
+        makeComponent({ peerDependencies: { react: "^18.0.0" } }),
+      ]);
+      expect(plan.missing).toEqual(["react@^18.0.0"]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import { dirname, join, resolve } from 'path';
+import semver from 'semver';
+import { Component } from '../types/component.js';
+import { InstalledComponent } from '../types/manager.js';
+import { CLIError } from '../utils/error.js';
+
+export type PackageManager = 'pnpm' | 'yarn' | 'npm' | 'bun';
+
+/**
+ * Runs an external command, resolving once it exits successfully
+ */
+export type CommandRunner = (
+  command: string,
+  args: string[],
+  cwd: string
+) => Promise<void>;
+
+interface PackageJson {
+  packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+export interface DependencyPlan {
+  /** Packages to install, as `name@range` */
+  missing: string[];
+  /** Peer dependency ranges the installed versions do not satisfy */
+  warnings: string[];
+}
+
+const LOCKFILES: [string, PackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+export const runCommand: CommandRunner = (command, args, cwd) =>
+  new Promise((resolvePromise, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      stdio: 'inherit',
+      // Package managers are .cmd shims on Windows
+      shell: process.platform === 'win32',
+    });
+    child.on('error', (error) =>
+      reject(
+        new CLIError('DEPENDENCY_ERROR', `Could not run ${command}: ${error.message}`)
+      )
+    );
+    child.on('close', (code) =>
+      code === 0
+        ? resolvePromise()
+        : reject(
+            new CLIError(
+              'DEPENDENCY_ERROR',
+              `${command} ${args.join(' ')} exited with code ${code}`
+            )
+          )
+    );
+  });
+
+async function readPackageJson(dir: string): Promise<PackageJson | undefined> {
+  const path = join(dir, 'package.json');
+  return (await fs.pathExists(path)) ? fs.readJson(path) : undefined;
+}
+
+/**
+ * Detect the project's package manager from the `packageManager` field or
+ * a lockfile, looking upwards so workspace packages use the root's. Falls
+ * back to npm.
+ */
+export async function detectPackageManager(cwd: string): Promise<PackageManager> {
+  let dir = resolve(cwd);
+  for (;;) {
+    const declared = (await readPackageJson(dir))?.packageManager?.split('@')[0];
+    if (declared && LOCKFILES.some(([, manager]) => manager === declared)) {
+      return declared as PackageManager;
+    }
+    for (const [lockfile, manager] of LOCKFILES) {
+      if (await fs.pathExists(join(dir, lockfile))) {
+        return manager;
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return 'npm';
+    }
+    dir = parent;
+  }
+}
+
+export function installCommand(
+  manager: PackageManager,
+  packages: string[]
+): [string, string[]] {
+  return [manager, [manager === 'npm' ? 'install' : 'add', ...packages]];
+}
+
+export function uninstallCommand(
+  manager: PackageManager,
+  packages: string[]
+): [string, string[]] {
+  return [manager, [manager === 'npm' ? 'uninstall' : 'remove', ...packages]];
+}
+
+/**
+ * npm packages the removed components needed that none of the remaining
+ * components need
+ */
+export function unusedDependencies(
+  removed: InstalledComponent[],
+  remaining: InstalledComponent[]
+): string[] {
+  const used = new Set(
+    remaining.flatMap((component) => Object.keys(component.dependencies ?? {}))
+  );
+  const unused = removed
+    .flatMap((component) => Object.keys(component.dependencies ?? {}))
+    .filter((name) => !used.has(name));
+  return [...new Set(unused)].sort();
+}
+
+/**
+ * Version of a package installed in the project's node_modules, if any
+ */
+async function installedVersion(
+  cwd: string,
+  name: string
+): Promise<string | undefined> {
+  const pkg = await readPackageJson(join(cwd, 'node_modules', name)).catch(
+    () => undefined
+  );
+  return (pkg as { version?: string } | undefined)?.version;
+}
+
+/**
+ * Work out which npm packages the components need that the project does
+ * not declare yet. Peer dependencies that are already installed are
+ * checked against their ranges instead.
+ */
+export async function planDependencies(
+  cwd: string,
+  components: Component[]
+): Promise<DependencyPlan> {
+  const pkg = (await readPackageJson(cwd)) ?? {};
+  const declared = {
+    ...pkg.peerDependencies,
+    ...pkg.devDependencies,
+    ...pkg.dependencies,
+  };
+  const missing = new Map<string, string>();
+  const warnings: string[] = [];
+
+  for (const { metadata } of components) {
+    for (const [name, range] of Object.entries(metadata.dependencies ?? {})) {
+      if (!declared[name] && !missing.has(name)) {
+        missing.set(name, range);
+      }
+    }
+
+    for (const [name, range] of Object.entries(metadata.peerDependencies ?? {})) {
+      const version = await installedVersion(cwd, name);
+      if (version) {
+        if (semver.validRange(range) && !semver.satisfies(version, range)) {
+          warnings.push(
+            `${metadata.name} expects ${name}@${range} but ${version} is installed`
+          );
+        }
+      } else if (!declared[name] && !missing.has(name)) {
+        missing.set(name, range);
+      }
+    }
+  }
+
+  return {
+    missing: [...missing].map(([name, range]) => `${name}@${range}`),
+    warnings,
+  };
+}
@@ -0,0 +1,78 @@
+import fs from 'fs-extra';
+import { join } from 'path';
+import {
+  InstalledComponent,
+  ManifestData,
+  ManifestSchema,
+} from '../types/manager.js';
+import { CLIError } from '../utils/error.js';
+import { formatZodIssues } from '../utils/validation.js';
+
+export const MANIFEST_FILE = 'fetch-ui.lock.json';
+
+/**
+ * Project-level record of installed components, stored in fetch-ui.lock.json
+ */
+export class Manifest {
+  private constructor(
+    private readonly path: string,
+    private data: ManifestData
+  ) {}
+
+  static async load(cwd: string): Promise<Manifest> {
+    const path = join(cwd, MANIFEST_FILE);
+    if (!(await fs.pathExists(path))) {
+      return new Manifest(path, { lockfileVersion: 1, components: {} });
+    }
+
+    let raw: unknown;
+    try {
+      raw = await fs.readJson(path);
+    } catch (error) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `${MANIFEST_FILE} is not valid JSON: ${(error as Error).message}`
+      );
+    }
+
+    const result = ManifestSchema.safeParse(raw);
+    if (!result.success) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `${MANIFEST_FILE} is invalid: ${formatZodIssues(result.error)}`,
+        `Fix or delete ${MANIFEST_FILE} and reinstall your components`
+      );
+    }
+    return new Manifest(path, result.data);
+  }
+
+  get(name: string): InstalledComponent | undefined {
+    return this.data.components[name];
+  }
+
+  list(): InstalledComponent[] {
+    return Object.values(this.data.components).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  set(component: InstalledComponent): void {
+    this.data.components[component.name] = component;
+  }
+
+  remove(name: string): void {
+    delete this.data.components[name];
+  }
+
+  async save(): Promise<void> {
+    // Sort entries so the lockfile diffs cleanly
+    const components = Object.fromEntries(
+      this.list().map((component) => [component.name, component])
+    );
+    await fs.writeJson(
+      this.path,
+      { ...this.data, components },
+      { spaces: 2 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { mergeFile } from "./merge.js";
+
+const base = [
+  "import a from 'a';",
+  "",
+  "export const size = 1;",
+  "export const color = 'red';",
+  "",
+].join("\n");
+
+describe("mergeFile", () => {
+  test("combines local and upstream changes to different lines", () => {
+    const local = base.replace("size = 1", "size = 2");
+    const upstream = `// v2\n${base}`;
+
+    expect(mergeFile(local, base, upstream, "button@2.0.0")).toEqual({
+      content: `// v2\n${local}`,
+      conflict: false,
+    });
+  });
+
+  test("marks overlapping changes as conflicts", () => {
+    const local = base.replace("'red'", "'blue'");
+    const upstream = base.replace("'red'", "'green'");
+
+    const { content, conflict } = mergeFile(local, base, upstream, "button@2.0.0");
+    expect(conflict).toBe(true);
+    expect(content).toBe(
+      [
+        "import a from 'a';",
+        "",
+        "export const size = 1;",
+        "<<<<<<< local",
+        "export const color = 'blue';",
+        "=======",
+        "export const color = 'green';",
+        ">>>>>>> button@2.0.0",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("does not conflict when both sides made the same change", () => {
+    const changed = base.replace("'red'", "'blue'");
+    expect(mergeFile(changed, base, changed, "button@2.0.0")).toEqual({
+      content: changed,
+      conflict: false,
+    });
+  });
+});
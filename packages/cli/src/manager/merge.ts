@@ -0,0 +1,29 @@
+import { merge } from 'node-diff3';
+
+export interface MergeResult {
+  content: string;
+  /** The result contains conflict markers */
+  conflict: boolean;
+}
+
+/**
+ * Line-based three-way merge of a locally modified file with a new
+ * upstream version. Overlapping changes are kept side by side between
+ * git-style conflict markers.
+ * @param base The file as originally installed
+ * @param label Names the upstream side of conflicts, e.g. `button@2.0.0`
+ */
+export function mergeFile(
+  local: string,
+  base: string,
+  upstream: string,
+  label: string
+): MergeResult {
+  const { conflict, result } = merge(
+    local.split('\n'),
+    base.split('\n'),
+    upstream.split('\n'),
+    { label: { a: 'local', b: label } }
+  );
+  return { content: result.join('\n'), conflict };
+}
@@ -0,0 +1,171 @@
+import { DependencyResolver, formatPlan } from "./resolver.js";
+import { ComponentVersionResponse } from "../types/component.js";
+import { InstalledComponent } from "../types/manager.js";
+
+type Registry = Record<string, Record<string, Record<string, string>>>;
+
+// name -> version -> component dependencies
+function createResolver(
+  registry: Registry,
+  installed: Record<string, Partial<InstalledComponent>> = {},
+  force = false
+) {
+  const fetch = jest.fn(
+    async (name: string, range?: string): Promise<ComponentVersionResponse> => {
+      const versions = Object.keys(registry[name] ?? {});
+      if (versions.length === 0) {
+        throw new Error(`${name} not found`);
+      }
+      // Good enough for these tests: exact versions or the highest one
+      const version = range && versions.includes(range) ? range : versions[versions.length - 1];
+      return {
+        metadata: {
+          name,
+          version,
+          componentDependencies: registry[name][version],
+        },
+        files: [],
+      };
+    }
+  );
+  const resolver = new DependencyResolver({
+    fetch,
+    getInstalled: (name) => installed[name] as InstalledComponent | undefined,
+    force,
+  });
+  return { resolver, fetch };
+}
+
+describe("DependencyResolver", () => {
+  test("orders dependencies before the components that need them", async () => {
+    const { resolver } = createResolver({
+      dialog: { "1.0.0": { button: "^2.0.0", overlay: "^1.0.0" } },
+      button: { "2.1.0": { icon: "^1.0.0" } },
+      overlay: { "1.0.0": {} },
+      icon: { "1.0.0": {} },
+    });
+
+    await resolver.add("dialog");
+
+    expect(resolver.plan().order.map((c) => `${c.name}@${c.version}`)).toEqual([
+      "icon@1.0.0",
+      "button@2.1.0",
+      "overlay@1.0.0",
+      "dialog@1.0.0",
+    ]);
+  });
+
+  test("resolves shared dependencies once", async () => {
+    const { resolver, fetch } = createResolver({
+      dialog: { "1.0.0": { button: "^2.0.0" } },
+      card: { "1.0.0": { button: "^2.1.0" } },
+      button: { "2.1.0": {} },
+    });
+
+    await resolver.add("dialog");
+    await resolver.add("card");
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(resolver.plan().components.get("button")?.requestedBy).toEqual([
+      { by: "dialog", range: "^2.0.0" },
+      { by: "card", range: "^2.1.0" },
+    ]);
+  });
+
+  test("detects cycles", async () => {
+    const { resolver } = createResolver({
+      a: { "1.0.0": { b: "^1.0.0" } },
+      b: { "1.0.0": { c: "^1.0.0" } },
+      c: { "1.0.0": { a: "^1.0.0" } },
+    });
+
+    await expect(resolver.add("a")).rejects.toMatchObject({
+      code: "DEPENDENCY_ERROR",
+      message: "Circular dependency: a -> b -> c -> a",
+    });
+  });
+
+  test("detects version conflicts between dependents", async () => {
+    const { resolver } = createResolver({
+      dialog: { "1.0.0": { button: "^2.0.0" } },
+      legacy: { "1.0.0": { button: "^1.0.0" } },
+      button: { "2.0.0": {} },
+    });
+
+    await resolver.add("dialog");
+    await expect(resolver.add("legacy")).rejects.toMatchObject({
+      code: "DEPENDENCY_ERROR",
+      message:
+        "Version conflict for button: legacy requires ^1.0.0 but 2.0.0 is required by dialog (^2.0.0)",
+    });
+  });
+
+  test("leaves the plan untouched when a request fails", async () => {
+    const { resolver } = createResolver({
+      dialog: { "1.0.0": { button: "^1.0.0", missing: "^1.0.0" } },
+      button: { "1.0.0": {} },
+    });
+
+    await expect(resolver.add("dialog")).rejects.toThrow("missing not found");
+    expect(resolver.plan()).toEqual({ roots: [], components: new Map(), order: [] });
+  });
+
+  test("keeps installed dependencies that satisfy the range", async () => {
+    const { resolver, fetch } = createResolver(
+      { dialog: { "1.0.0": { button: "^2.0.0" } }, button: { "2.5.0": {} } },
+      { button: { name: "button", version: "2.1.0" } }
+    );
+
+    await resolver.add("dialog");
+
+    expect(fetch).not.toHaveBeenCalledWith("button", expect.anything());
+    expect(resolver.plan().components.get("button")).toMatchObject({
+      version: "2.1.0",
+      installed: true,
+    });
+  });
+
+  test("reports installed dependencies that are too old", async () => {
+    const { resolver } = createResolver(
+      { dialog: { "1.0.0": { button: "^2.0.0" } } },
+      { button: { name: "button", version: "1.0.0" } }
+    );
+
+    await expect(resolver.add("dialog")).rejects.toMatchObject({
+      message: "Version conflict for button: dialog requires ^2.0.0 but 1.0.0 is installed",
+      suggestion: "Run `fetch-ui update button` first",
+    });
+  });
+
+  test("refuses installed components unless forced", async () => {
+    const installed = { button: { name: "button", version: "1.0.0" } };
+    const registry = { button: { "1.0.0": {} } };
+
+    await expect(createResolver(registry, installed).resolver.add("button")).rejects.toThrow(
+      "button@1.0.0 is already installed"
+    );
+    await expect(
+      createResolver(registry, installed, true).resolver.add("button")
+    ).resolves.toBeUndefined();
+  });
+
+  test("formats the plan as a tree", async () => {
+    const { resolver } = createResolver(
+      {
+        dialog: { "1.0.0": { button: "^2.0.0", overlay: "^1.0.0" } },
+        button: { "2.1.0": { icon: "^1.0.0" } },
+        overlay: { "1.0.0": {} },
+      },
+      { icon: { name: "icon", version: "1.0.0" } }
+    );
+
+    await resolver.add("dialog");
+
+    expect(formatPlan(resolver.plan())).toEqual([
+      "dialog@1.0.0",
+      "├── button@2.1.0",
+      "│   └── icon@1.0.0 (installed)",
+      "└── overlay@1.0.0",
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import semver from 'semver';
+import { ComponentVersionResponse } from '../types/component.js';
+import { InstalledComponent } from '../types/manager.js';
+import { CLIError } from '../utils/error.js';
+
+export interface ResolvedComponent {
+  name: string;
+  version: string;
+  /** Already installed at a satisfying version, nothing to write */
+  installed: boolean;
+  /** The fetched component, for components that will be installed */
+  component?: ComponentVersionResponse;
+  /** Component dependencies by name, with the range each one requires */
+  dependencies: Record<string, string>;
+  /** Who asked for this component and with which range */
+  requestedBy: { by?: string; range?: string }[];
+}
+
+export interface ResolutionPlan {
+  /** Requested components, in request order */
+  roots: string[];
+  components: Map<string, ResolvedComponent>;
+  /** Install order: every component comes after its dependencies */
+  order: ResolvedComponent[];
+}
+
+export interface ResolverOptions {
+  fetch(name: string, range?: string): Promise<ComponentVersionResponse>;
+  getInstalled(name: string): InstalledComponent | undefined;
+  /** Reinstall requested components that are already installed */
+  force?: boolean;
+}
+
+/**
+ * Check a resolved version against a requested range. Dist-tags cannot be
+ * checked without the registry and are accepted.
+ */
+function satisfies(version: string, range: string | undefined): boolean {
+  if (!range || semver.validRange(range) === null) {
+    return true;
+  }
+  return semver.satisfies(version, range);
+}
+
+function describeRequests(component: ResolvedComponent): string {
+  return component.requestedBy
+    .map(({ by, range }) => `${by ?? 'you'} (${range ?? 'latest'})`)
+    .join(', ');
+}
+
+/**
+ * Resolves requested components and their component dependencies into an
+ * install plan. Each request is resolved as a unit: if it fails (not
+ * found, cycle, version conflict) the plan is left as it was before.
+ */
+export class DependencyResolver {
+  private components = new Map<string, ResolvedComponent>();
+  private order: string[] = [];
+  private roots: string[] = [];
+
+  constructor(private readonly options: ResolverOptions) {}
+
+  async add(name: string, range?: string): Promise<void> {
+    const components = new Map(this.components);
+    const order = [...this.order];
+    try {
+      await this.visit(name, range, []);
+      this.roots.push(name);
+    } catch (error) {
+      this.components = components;
+      this.order = order;
+      throw error;
+    }
+  }
+
+  plan(): ResolutionPlan {
+    return {
+      roots: [...this.roots],
+      components: new Map(this.components),
+      order: this.order.map((name) => this.components.get(name)!),
+    };
+  }
+
+  private async visit(
+    name: string,
+    range: string | undefined,
+    path: string[]
+  ): Promise<void> {
+    const parent = path[path.length - 1];
+    if (path.includes(name)) {
+      throw new CLIError(
+        'DEPENDENCY_ERROR',
+        `Circular dependency: ${[...path, name].join(' -> ')}`
+      );
+    }
+
+    const resolved = this.components.get(name);
+    if (resolved) {
+      if (!satisfies(resolved.version, range)) {
+        throw new CLIError(
+          'DEPENDENCY_ERROR',
+          `Version conflict for ${name}: ${parent ?? 'you'} requires ${range} but ${resolved.version} is required by ${describeRequests(resolved)}`
+        );
+      }
+      this.components.set(name, {
+        ...resolved,
+        requestedBy: [...resolved.requestedBy, { by: parent, range }],
+      });
+      return;
+    }
+
+    const installed = this.options.getInstalled(name);
+    if (installed && path.length === 0 && !this.options.force) {
+      throw new CLIError(
+        'FILE_SYSTEM_ERROR',
+        `${name}@${installed.version} is already installed`,
+        'Use --force to reinstall it or run `fetch-ui update`'
+      );
+    }
+    if (installed && path.length > 0) {
+      if (!satisfies(installed.version, range)) {
+        throw new CLIError(
+          'DEPENDENCY_ERROR',
+          `Version conflict for ${name}: ${parent} requires ${range} but ${installed.version} is installed`,
+          `Run \`fetch-ui update ${name}\` first`
+        );
+      }
+      this.record({
+        name,
+        version: installed.version,
+        installed: true,
+        dependencies: installed.componentDependencies ?? {},
+        requestedBy: [{ by: parent, range }],
+      });
+      return;
+    }
+
+    const component = await this.options.fetch(name, range);
+    const dependencies = component.metadata.componentDependencies ?? {};
+    // Register before visiting dependencies so shared ones see this range
+    this.components.set(name, {
+      name,
+      version: component.metadata.version,
+      installed: false,
+      component,
+      dependencies,
+      requestedBy: [{ by: parent, range }],
+    });
+
+    for (const [dependency, dependencyRange] of Object.entries(dependencies)) {
+      await this.visit(dependency, dependencyRange, [...path, name]);
+    }
+    this.order.push(name);
+  }
+
+  private record(component: ResolvedComponent): void {
+    this.components.set(component.name, component);
+    this.order.push(component.name);
+  }
+}
+
+/**
+ * Render the plan as a tree, one line per component
+ */
+export function formatPlan(plan: ResolutionPlan): string[] {
+  const lines: string[] = [];
+
+  const render = (name: string, prefix: string, connector: string) => {
+    const component = plan.components.get(name)!;
+    if (component.installed) {
+      lines.push(`${prefix}${connector}${name}@${component.version} (installed)`);
+      return;
+    }
+    lines.push(`${prefix}${connector}${name}@${component.version}`);
+
+    const childPrefix = prefix + (connector === '└── ' ? '    ' : connector && '│   ');
+    const dependencies = Object.keys(component.dependencies);
+    dependencies.forEach((dependency, index) => {
+      const last = index === dependencies.length - 1;
+      render(dependency, childPrefix, last ? '└── ' : '├── ');
+    });
+  };
+
+  for (const root of plan.roots) {
+    render(root, '', '');
+  }
+  return lines;
+}
@@ -0,0 +1,63 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RegistryCache } from "./cache.js";
+
+describe("RegistryCache", () => {
+  let dir: string;
+  let cache: RegistryCache;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-cache-"));
+    cache = new RegistryCache(dir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  test("stores identical bodies once", async () => {
+    await cache.put("http://registry.test/components/button/versions/1.0.0", "{}", '"abc"');
+    await cache.put("http://registry.test/components/button/versions/latest", "{}");
+
+    expect(await fs.readdir(join(dir, "content"))).toHaveLength(1);
+    await expect(
+      cache.get("http://registry.test/components/button/versions/1.0.0")
+    ).resolves.toMatchObject({ body: "{}", entry: { etag: '"abc"', size: 2 } });
+  });
+
+  test("treats entries with corrupt content as misses", async () => {
+    await cache.put("key", '{"a":1}');
+    const [content] = await fs.readdir(join(dir, "content"));
+    await fs.writeFile(join(dir, "content", content), '{"a":2}');
+
+    await expect(cache.get("key")).resolves.toBeUndefined();
+  });
+
+  test("expires entries after the ttl until they are revalidated", async () => {
+    await cache.put("key", "{}");
+    const { entry } = (await cache.get("key"))!;
+    expect(cache.isFresh(entry, 60_000)).toBe(true);
+    expect(cache.isFresh(entry, 0)).toBe(false);
+  });
+
+  test("verify drops broken entries and unreferenced content", async () => {
+    await cache.put("good", "1");
+    await cache.put("bad", "2");
+    await fs.remove(join(dir, "content", (await cache.get("bad"))!.entry.integrity.slice(7)));
+    await fs.outputFile(join(dir, "content", "stray"), "3");
+
+    await expect(cache.verify()).resolves.toEqual({
+      checked: 2,
+      removed: ["bad"],
+      orphans: 1,
+    });
+    expect((await cache.entries()).map((entry) => entry.key)).toEqual(["good"]);
+  });
+
+  test("clean removes everything", async () => {
+    await cache.put("key", "{}");
+    await expect(cache.clean()).resolves.toBe(1);
+    expect(await fs.pathExists(dir)).toBe(false);
+  });
+});
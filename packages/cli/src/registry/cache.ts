@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { hashContent } from '../utils/hash.js';
+
+// Responses younger than this are used without asking the registry
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Cache location, FETCH_UI_CACHE_DIR or ~/.fetch-ui/cache
+ */
+export function defaultCacheDir(): string {
+  return process.env.FETCH_UI_CACHE_DIR || join(homedir(), '.fetch-ui', 'cache');
+}
+
+const CacheEntrySchema = z.object({
+  key: z.string(),
+  integrity: z.string(),
+  etag: z.string().optional(),
+  size: z.number(),
+  validatedAt: z.string(),
+});
+
+export type CacheEntry = z.infer<typeof CacheEntrySchema>;
+
+export interface CachedResponse {
+  entry: CacheEntry;
+  body: string;
+}
+
+export interface CacheVerifyResult {
+  checked: number;
+  /** Keys of entries dropped because their content was missing or corrupt */
+  removed: string[];
+  /** Content files no entry referenced */
+  orphans: number;
+}
+
+/**
+ * Content-addressed store for registry responses. Bodies live under
+ * content/ named by their hash, so identical responses (a version and the
+ * tag pointing at it) are stored once. index/ maps each request URL to a
+ * body with the ETag it was served with.
+ */
+export class RegistryCache {
+  constructor(readonly dir: string = defaultCacheDir()) {}
+
+  private indexPath(key: string): string {
+    const name = createHash('sha256').update(key).digest('hex');
+    return join(this.dir, 'index', `${name}.json`);
+  }
+
+  private contentPath(integrity: string): string {
+    return join(this.dir, 'content', integrity.replace(/^sha256-/, ''));
+  }
+
+  private async readEntry(path: string): Promise<CacheEntry | undefined> {
+    const data = await fs.readJson(path).catch(() => undefined);
+    const result = CacheEntrySchema.safeParse(data);
+    return result.success ? result.data : undefined;
+  }
+
+  /**
+   * The cached body for a key. Entries whose content is missing or does not
+   * match its hash count as misses.
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.readEntry(this.indexPath(key));
+    if (!entry) {
+      return undefined;
+    }
+    const body = await fs
+      .readFile(this.contentPath(entry.integrity), 'utf-8')
+      .catch(() => undefined);
+    if (body === undefined || hashContent(body) !== entry.integrity) {
+      return undefined;
+    }
+    return { entry, body };
+  }
+
+  async put(key: string, body: string, etag?: string): Promise<void> {
+    const integrity = hashContent(body);
+    const contentPath = this.contentPath(integrity);
+    if (!(await fs.pathExists(contentPath))) {
+      await fs.outputFile(contentPath, body);
+    }
+    const entry: CacheEntry = {
+      key,
+      integrity,
+      ...(etag && { etag }),
+      size: Buffer.byteLength(body),
+      validatedAt: new Date().toISOString(),
+    };
+    await fs.outputJson(this.indexPath(key), entry);
+  }
+
+  /**
+   * Record that the registry confirmed the cached body is still current
+   */
+  async revalidated(key: string): Promise<void> {
+    const path = this.indexPath(key);
+    const entry = await this.readEntry(path);
+    if (entry) {
+      await fs.outputJson(path, { ...entry, validatedAt: new Date().toISOString() });
+    }
+  }
+
+  isFresh(entry: CacheEntry, ttl: number = DEFAULT_CACHE_TTL): boolean {
+    return Date.now() - Date.parse(entry.validatedAt) < ttl;
+  }
+
+  async entries(): Promise<CacheEntry[]> {
+    const indexDir = join(this.dir, 'index');
+    const names = await fs.readdir(indexDir).catch(() => [] as string[]);
+    const entries: CacheEntry[] = [];
+    for (const name of names) {
+      const entry = await this.readEntry(join(indexDir, name));
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Remove everything, returning the number of entries that were cached
+   */
+  async clean(): Promise<number> {
+    const count = (await this.entries()).length;
+    await fs.remove(this.dir);
+    return count;
+  }
+
+  /**
+   * Check every entry against its content hash, dropping broken entries
+   * and content nothing refers to
+   */
+  async verify(): Promise<CacheVerifyResult> {
+    const indexDir = join(this.dir, 'index');
+    const contentDir = join(this.dir, 'content');
+    const names = await fs.readdir(indexDir).catch(() => [] as string[]);
+    const referenced = new Set<string>();
+    const removed: string[] = [];
+
+    for (const name of names) {
+      const path = join(indexDir, name);
+      const entry = await this.readEntry(path);
+      const cached = entry && (await this.get(entry.key));
+      if (cached) {
+        referenced.add(this.contentPath(cached.entry.integrity));
+        continue;
+      }
+      removed.push(entry?.key ?? name);
+      await fs.remove(path);
+    }
+
+    let orphans = 0;
+    for (const name of await fs.readdir(contentDir).catch(() => [] as string[])) {
+      const path = join(contentDir, name);
+      if (!referenced.has(path)) {
+        orphans++;
+        await fs.remove(path);
+      }
+    }
+
+    return { checked: names.length, removed, orphans };
+  }
+}
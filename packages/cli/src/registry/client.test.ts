@@ -0,0 +1,332 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RegistryCache } from "./cache.js";
+import { RegistryClient } from "./client.js";
+import { CLIError } from "../utils/error.js";
+
+const component = {
+  metadata: { name: "button", version: "1.0.0" },
+  files: [{ path: "index.ts", content: "export {}", type: "typescript" }],
+};
+
+function mockResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  } as Response;
+}
+
+describe("RegistryClient", () => {
+  let fetchSpy: jest.SpyInstance;
+  let client: RegistryClient;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, "fetch");
+    client = new RegistryClient("http://registry.test/");
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  test("fetches the latest version from the details endpoint", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(200, { component, versions: [] })
+    );
+
+    await expect(client.getComponent("button")).resolves.toEqual({
+      ...component,
+      availableStyles: ["default"],
+    });
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "http://registry.test/components/button",
+      expect.any(Object)
+    );
+  });
+
+  test("lists the style variants of the latest version", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(200, {
+        component: {
+          ...component,
+          metadata: { ...component.metadata, style: "minimal" },
+          styles: { "new-york": { files: [] } },
+        },
+        versions: [],
+      })
+    );
+
+    const result = await client.getComponent("button");
+    expect(result.availableStyles).toEqual(["minimal", "new-york"]);
+    expect(result).not.toHaveProperty("styles");
+  });
+
+  test("requests a style variant of the latest version", async () => {
+    fetchSpy.mockResolvedValue(mockResponse(200, component));
+
+    await client.getComponent("button", undefined, "new-york");
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "http://registry.test/components/button/versions/latest?style=new-york",
+      expect.any(Object)
+    );
+  });
+
+  test("reports deprecation of the latest version", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(200, {
+        component,
+        versions: [
+          {
+            version: "1.0.0",
+            createdAt: "2024-01-01T00:00:00.000Z",
+            updatedAt: "2024-01-01T00:00:00.000Z",
+            deprecated: true,
+            deprecationMessage: "Use card instead",
+          },
+        ],
+      })
+    );
+
+    await expect(client.getComponent("button")).resolves.toMatchObject({
+      deprecated: true,
+      deprecationMessage: "Use card instead",
+    });
+  });
+
+  test("fetches a specific version", async () => {
+    fetchSpy.mockResolvedValue(mockResponse(200, component));
+
+    await expect(client.getComponent("button", "1.0.0")).resolves.toEqual(
+      component
+    );
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "http://registry.test/components/button/versions/1.0.0",
+      expect.any(Object)
+    );
+  });
+
+  test("passes search filters as query parameters", async () => {
+    const body = {
+      results: [],
+      total: 0,
+      page: 1,
+      pageSize: 10,
+      facets: { tags: {}, styles: {} },
+    };
+    fetchSpy.mockResolvedValue(mockResponse(200, body));
+
+    await expect(
+      client.search({ q: "button", tags: ["form", "action"], typescript: false })
+    ).resolves.toEqual(body);
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "http://registry.test/components/search?q=button&tags=form%2Caction&typescript=false",
+      expect.any(Object)
+    );
+  });
+
+  test("rejects responses that do not match the component schema", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(200, { metadata: { version: "1.0.0" }, files: [] })
+    );
+
+    await expect(client.getVersion("button", "1.0.0")).rejects.toMatchObject({
+      code: "INVALID_COMPONENT",
+    });
+  });
+
+  test("maps registry errors to CLI errors", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(404, {
+        code: "VERSION_NOT_FOUND",
+        message: "Version not found",
+      })
+    );
+
+    await expect(client.getVersion("button", "9.9.9")).rejects.toMatchObject({
+      code: "COMPONENT_NOT_FOUND",
+      message: "Version not found",
+    });
+  });
+
+  test("reports an unreachable registry", async () => {
+    fetchSpy.mockRejectedValue(new TypeError("fetch failed"));
+
+    const error = await client.getDetails("button").catch((e) => e);
+    expect(error).toBeInstanceOf(CLIError);
+    expect(error.code).toBe("REGISTRY_UNREACHABLE");
+  });
+
+  test("retries server errors before giving up", async () => {
+    fetchSpy
+      .mockResolvedValueOnce(mockResponse(503, undefined))
+      .mockResolvedValueOnce(mockResponse(200, component));
+
+    await expect(client.getVersion("button", "1.0.0")).resolves.toEqual(component);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test("sends the configured token", async () => {
+    fetchSpy.mockResolvedValue(mockResponse(200, component));
+
+    await new RegistryClient("http://registry.test", {
+      type: "bearer",
+      token: "secret",
+    }).getVersion("button", "1.0.0");
+    await new RegistryClient("http://registry.test", {
+      type: "apiKey",
+      token: "secret",
+    }).getVersion("button", "1.0.0");
+
+    expect(fetchSpy.mock.calls[0][1].headers).toMatchObject({
+      authorization: "Bearer secret",
+    });
+    expect(fetchSpy.mock.calls[1][1].headers).toMatchObject({
+      "x-api-key": "secret",
+    });
+  });
+
+  test("falls back to FETCH_UI_REGISTRY_TOKEN", async () => {
+    fetchSpy.mockResolvedValue(mockResponse(200, component));
+    process.env.FETCH_UI_REGISTRY_TOKEN = "from-env";
+
+    try {
+      await new RegistryClient("http://registry.test", {
+        type: "bearer",
+      }).getVersion("button", "1.0.0");
+    } finally {
+      delete process.env.FETCH_UI_REGISTRY_TOKEN;
+    }
+
+    expect(fetchSpy.mock.calls[0][1].headers).toMatchObject({
+      authorization: "Bearer from-env",
+    });
+  });
+
+  test("suggests configuring auth when the registry rejects the request", async () => {
+    fetchSpy.mockResolvedValue(
+      mockResponse(401, { code: "UNAUTHORIZED", message: "A token is required" })
+    );
+
+    await expect(client.getDetails("button")).rejects.toMatchObject({
+      message: "A token is required",
+      suggestion: expect.stringContaining("registry.auth"),
+    });
+  });
+
+  describe("publish", () => {
+    test("posts the component with the tag", async () => {
+      fetchSpy.mockResolvedValue(mockResponse(201, component));
+
+      await expect(client.publish(component as never, "next")).resolves.toEqual(
+        component
+      );
+      expect(fetchSpy).toHaveBeenCalledWith(
+        "http://registry.test/components?tag=next",
+        expect.objectContaining({ method: "POST", body: JSON.stringify(component) })
+      );
+    });
+
+    test("explains version conflicts", async () => {
+      fetchSpy.mockResolvedValue(
+        mockResponse(409, { code: "VERSION_CONFLICT", message: "Version already exists" })
+      );
+
+      await expect(client.publish(component as never)).rejects.toMatchObject({
+        code: "INVALID_COMPONENT",
+        message: "button@1.0.0 has already been published",
+      });
+    });
+
+    test("lists the fields the registry rejected", async () => {
+      fetchSpy.mockResolvedValue(
+        mockResponse(400, {
+          code: "VALIDATION_ERROR",
+          message: "Invalid request data",
+          details: [
+            { code: "custom", path: ["files", 0, "path"], message: "Invalid path" },
+          ],
+        })
+      );
+
+      await expect(client.publish(component as never)).rejects.toThrow(
+        "The registry rejected button@1.0.0: files.0.path: Invalid path"
+      );
+    });
+  });
+
+  describe("with a cache", () => {
+    const url = "http://registry.test/components/button/versions/1.0.0";
+    let dir: string;
+    let cache: RegistryCache;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-client-cache-"));
+      cache = new RegistryCache(dir);
+    });
+
+    afterEach(async () => {
+      await fs.remove(dir);
+    });
+
+    test("serves fresh responses without asking the registry", async () => {
+      fetchSpy.mockResolvedValue(mockResponse(200, component, { etag: '"v1"' }));
+      client = new RegistryClient("http://registry.test", undefined, { cache });
+
+      await client.getVersion("button", "1.0.0");
+      await expect(client.getVersion("button", "1.0.0")).resolves.toEqual(component);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test("revalidates stale responses with their ETag", async () => {
+      await cache.put(url, JSON.stringify(component), '"v1"');
+      fetchSpy.mockResolvedValue(mockResponse(304, undefined));
+      client = new RegistryClient("http://registry.test", undefined, { cache, ttl: 0 });
+
+      await expect(client.getVersion("button", "1.0.0")).resolves.toEqual(component);
+      expect(fetchSpy.mock.calls[0][1].headers).toMatchObject({
+        "if-none-match": '"v1"',
+      });
+    });
+
+    test("falls back to stale responses when the registry is unreachable", async () => {
+      await cache.put(url, JSON.stringify(component));
+      fetchSpy.mockRejectedValue(new TypeError("fetch failed"));
+      client = new RegistryClient("http://registry.test", undefined, { cache, ttl: 0 });
+
+      await expect(client.getVersion("button", "1.0.0")).resolves.toEqual(component);
+    });
+
+    test("only uses the cache when offline", async () => {
+      client = new RegistryClient("http://registry.test", undefined, {
+        cache,
+        offline: true,
+        ttl: 0,
+      });
+
+      await expect(client.getVersion("button", "1.0.0")).rejects.toMatchObject({
+        code: "NETWORK_ERROR",
+        message: `${url} is not in the cache`,
+      });
+      await cache.put(url, JSON.stringify(component));
+      await expect(client.getVersion("button", "1.0.0")).resolves.toEqual(component);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test("does not cache error responses", async () => {
+      fetchSpy.mockResolvedValue(
+        mockResponse(404, { code: "VERSION_NOT_FOUND", message: "Version not found" })
+      );
+      client = new RegistryClient("http://registry.test", undefined, { cache });
+
+      await expect(client.getVersion("button", "1.0.0")).rejects.toThrow();
+      expect(await cache.entries()).toEqual([]);
+    });
+  });
+});
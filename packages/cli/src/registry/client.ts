@@ -0,0 +1,247 @@
+import {
+  RegistryClient as CoreRegistryClient,
+  RegistryAPIError,
+  RegistryError,
+  RegistryResponseError,
+  RegistryTimeoutError,
+  ResponseCache,
+} from '@fetch-ui/core';
+import { z, ZodError } from 'zod';
+import {
+  Component,
+  ComponentDetailResponse,
+  ComponentVersionResponse,
+  DEFAULT_STYLE,
+  SearchResponse,
+} from '../types/component.js';
+import type { RegistryAuth } from '../config/schema.js';
+import { IRegistry, SearchQuery } from '../types/registry.js';
+import { DEFAULT_CACHE_TTL, RegistryCache } from './cache.js';
+import { CLIError, ErrorCode } from '../utils/error.js';
+import { formatZodIssues } from '../utils/validation.js';
+
+export const DEFAULT_REGISTRY_URL = 'http://localhost:3000';
+
+// Registry API error codes that have a CLI equivalent
+const API_ERROR_CODES: Record<string, ErrorCode> = {
+  COMPONENT_NOT_FOUND: 'COMPONENT_NOT_FOUND',
+  VERSION_NOT_FOUND: 'COMPONENT_NOT_FOUND',
+  STYLE_NOT_FOUND: 'COMPONENT_NOT_FOUND',
+  VALIDATION_ERROR: 'INVALID_COMPONENT',
+  INVALID_NAME: 'INVALID_COMPONENT',
+  INVALID_VERSION: 'INVALID_COMPONENT',
+  INVALID_STYLE: 'INVALID_COMPONENT',
+  INVALID_PATH: 'INVALID_COMPONENT',
+  INVALID_TAG: 'INVALID_COMPONENT',
+  VERSION_CONFLICT: 'INVALID_COMPONENT',
+};
+
+export interface RegistryClientOptions {
+  cache?: RegistryCache;
+  /** How long cached responses are used without revalidating, in ms */
+  ttl?: number;
+  /** Answer only from the cache, never contacting the registry */
+  offline?: boolean;
+  /** Give up on requests after this many ms */
+  timeout?: number;
+}
+
+/**
+ * Check a registry response against its schema. `source` names the
+ * request in the error.
+ */
+export function validateResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  body: unknown,
+  source: string
+): z.infer<S> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `Registry returned an invalid response for ${source}: ${formatZodIssues(result.error)}`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Serve the client's GET responses from the registry cache. Offline, every
+ * cached response counts as fresh and anything else is an error.
+ */
+function responseCache(
+  cache: RegistryCache,
+  { offline, ttl = DEFAULT_CACHE_TTL }: RegistryClientOptions
+): ResponseCache {
+  return {
+    async get(url) {
+      const cached = await cache.get(url);
+      if (!cached && offline) {
+        throw new CLIError(
+          'NETWORK_ERROR',
+          `${url} is not in the cache`,
+          'Run the command once without --offline to cache it'
+        );
+      }
+      return (
+        cached && {
+          body: JSON.parse(cached.body),
+          etag: cached.entry.etag,
+          fresh: offline || cache.isFresh(cached.entry, ttl),
+        }
+      );
+    },
+    put: (url, body, etag) => cache.put(url, JSON.stringify(body), etag),
+    revalidated: (url) => cache.revalidated(url),
+  };
+}
+
+/**
+ * HTTP client for the registry server API, built on the shared client of
+ * @fetch-ui/core. Adds the response cache and offline mode, and turns its
+ * errors into CLI errors.
+ */
+export class RegistryClient implements IRegistry {
+  readonly baseUrl: string;
+  private readonly client: CoreRegistryClient;
+
+  constructor(
+    baseUrl: string = DEFAULT_REGISTRY_URL,
+    auth?: RegistryAuth,
+    options: RegistryClientOptions = {}
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    const token = auth?.token ?? process.env.FETCH_UI_REGISTRY_TOKEN;
+    this.client = new CoreRegistryClient({
+      baseUrl: this.baseUrl,
+      auth: auth && token ? { type: auth.type, token } : undefined,
+      timeout: options.timeout,
+      cache: options.cache && responseCache(options.cache, options),
+    });
+  }
+
+  /**
+   * Fetch a component, using the latest version when none is given. With a
+   * style, that style variant's files are returned.
+   */
+  async getComponent(
+    name: string,
+    version?: string,
+    style?: string
+  ): Promise<ComponentVersionResponse> {
+    if (version || style) {
+      return this.getVersion(name, version ?? 'latest', style);
+    }
+    const { component, versions } = await this.getDetails(name);
+    const latest = versions.find(
+      (entry) => entry.version === component.metadata.version
+    );
+    const { styles, ...rest } = component;
+    return {
+      ...rest,
+      availableStyles: [
+        component.metadata.style ?? DEFAULT_STYLE,
+        ...Object.keys(styles ?? {}),
+      ],
+      deprecated: latest?.deprecated,
+      deprecationMessage: latest?.deprecationMessage,
+    };
+  }
+
+  async getDetails(name: string): Promise<ComponentDetailResponse> {
+    return this.call(() => this.client.getDetails(name));
+  }
+
+  async getVersion(
+    name: string,
+    version: string,
+    style?: string
+  ): Promise<ComponentVersionResponse> {
+    return this.call(() => this.client.getVersion(name, version, style));
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    return this.call(() => this.client.search(query));
+  }
+
+  async health(): Promise<void> {
+    return this.call(() => this.client.health());
+  }
+
+  /**
+   * Publish a component version, pointing `tag` at it if given
+   */
+  async publish(component: Component, tag?: string): Promise<Component> {
+    const { name, version } = component.metadata;
+    try {
+      return await this.client.publish(component, tag);
+    } catch (error) {
+      if (
+        error instanceof RegistryAPIError &&
+        error.code === 'VERSION_CONFLICT'
+      ) {
+        throw new CLIError(
+          'INVALID_COMPONENT',
+          `${name}@${version} has already been published`,
+          'Bump the version in component.json and publish again'
+        );
+      }
+      if (
+        error instanceof RegistryAPIError &&
+        error.code === 'VALIDATION_ERROR' &&
+        Array.isArray(error.details)
+      ) {
+        throw new CLIError(
+          'INVALID_COMPONENT',
+          `The registry rejected ${name}@${version}: ${formatZodIssues(new ZodError(error.details))}`
+        );
+      }
+      throw this.toCLIError(error);
+    }
+  }
+
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      throw this.toCLIError(error);
+    }
+  }
+
+  private toCLIError(error: unknown): unknown {
+    if (!(error instanceof RegistryError)) {
+      return error;
+    }
+    if (error instanceof RegistryAPIError) {
+      if (error.status === 401 || error.status === 403) {
+        return new CLIError(
+          'NETWORK_ERROR',
+          error.message,
+          'Set registry.auth in fetch-ui.json and provide a token through FETCH_UI_REGISTRY_TOKEN'
+        );
+      }
+      return new CLIError(
+        API_ERROR_CODES[error.code] ?? 'NETWORK_ERROR',
+        error.message
+      );
+    }
+    if (error instanceof RegistryResponseError) {
+      return new CLIError(
+        'INVALID_COMPONENT',
+        `Registry returned an invalid response for ${error.url}: ${formatZodIssues(new ZodError(error.issues))}`
+      );
+    }
+    if (error instanceof RegistryTimeoutError) {
+      return new CLIError(
+        'REGISTRY_UNREACHABLE',
+        `Registry at ${this.baseUrl} did not respond within ${error.timeout}ms`,
+        'Check the registry or raise its timeout in the user config'
+      );
+    }
+    return new CLIError(
+      'REGISTRY_UNREACHABLE',
+      `Could not reach registry at ${this.baseUrl}`,
+      'Check the registry URL and your network connection'
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { parseComponentSpec } from "./component-spec.js";
+
+describe("parseComponentSpec", () => {
+  test.each([
+    ["button", { name: "button" }],
+    ["button@1.2.0", { name: "button", version: "1.2.0" }],
+    ["button@next", { name: "button", version: "next" }],
+    ["button@^2.1", { name: "button", version: "^2.1" }],
+    ["button@", { name: "button" }],
+    ["@team/button", { name: "@team/button" }],
+    ["@team/button@beta", { name: "@team/button", version: "beta" }],
+  ])("parses %s", (spec, expected) => {
+    expect(parseComponentSpec(spec)).toEqual(expected);
+  });
+});
@@ -0,0 +1,17 @@
+export interface ComponentSpec {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Split `name@version` (version, range or dist-tag) into its parts. A
+ * leading `@` belongs to a scoped name, as in `@team/button@next`.
+ */
+export function parseComponentSpec(spec: string): ComponentSpec {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: spec };
+  }
+  const version = spec.slice(at + 1);
+  return { name: spec.slice(0, at), version: version || undefined };
+}
@@ -0,0 +1,245 @@
+import { execFileSync } from "child_process";
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { logger } from "../cli/logger.js";
+import { GitRegistry, parseGitSpec } from "./git.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync(
+    "git",
+    [
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.com",
+      "-c",
+      "commit.gpgsign=false",
+      ...args,
+    ],
+    { cwd, stdio: "ignore" }
+  );
+}
+
+function component(name: string, version: string, content = `// ${name} ${version}`) {
+  return {
+    metadata: { name, version, description: `The ${name}` },
+    files: [{ path: `${name}.tsx`, content, type: "typescript" }],
+  };
+}
+
+describe("parseGitSpec", () => {
+  test("splits off the ref", () => {
+    expect(parseGitSpec("git+file:///repos/ui.git#v2")).toEqual({
+      url: "file:///repos/ui.git",
+      ref: "v2",
+    });
+    expect(parseGitSpec("git+https://example.com/ui.git")).toEqual({
+      url: "https://example.com/ui.git",
+    });
+  });
+
+  test("rejects other locations", () => {
+    expect(() => parseGitSpec("https://example.com/ui.git")).toThrow(
+      '"https://example.com/ui.git" is not a git registry'
+    );
+  });
+
+  test("rejects URLs and refs git would read as options", () => {
+    expect(() => parseGitSpec("git+--upload-pack=touch /tmp/pwned")).toThrow(
+      "is not a valid git registry"
+    );
+    expect(() => parseGitSpec("git+https://example.com/ui.git#--output=x")).toThrow(
+      "is not a valid git registry"
+    );
+  });
+});
+
+describe("GitRegistry", () => {
+  let dir: string;
+  let work: string;
+  let bare: string;
+  let cacheDir: string;
+
+  function registry(ref?: string, offline?: boolean): GitRegistry {
+    const spec = `git+file://${bare}${ref ? `#${ref}` : ""}`;
+    return new GitRegistry(spec, { dir: cacheDir, offline });
+  }
+
+  async function commit(files: Record<string, unknown>, tag?: string): Promise<void> {
+    for (const [path, content] of Object.entries(files)) {
+      await fs.outputJson(join(work, path), content);
+    }
+    git(work, "add", "-A");
+    git(work, "commit", "--quiet", "-m", "update");
+    if (tag) {
+      git(work, "tag", tag);
+    }
+    git(work, "push", "--quiet", "--tags", bare, "HEAD:main");
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-git-"));
+    work = join(dir, "work");
+    bare = join(dir, "ui.git");
+    cacheDir = join(dir, "cache");
+    await fs.ensureDir(work);
+    git(dir, "init", "--quiet", "--bare", "--initial-branch=main", bare);
+    git(work, "init", "--quiet", "--initial-branch=main");
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  describe("with a components directory", () => {
+    beforeEach(async () => {
+      await commit(
+        {
+          "components/button/1.0.0/component.json": component("button", "1.0.0"),
+          "components/@acme/card/1.0.0/component.json": component("@acme/card", "1.0.0"),
+        },
+        "v1"
+      );
+      await commit({
+        "components/button/2.0.0/component.json": component("button", "2.0.0"),
+        "components/button/2.1.0-beta.1/component.json": component("button", "2.1.0-beta.1"),
+        "components/button/dist-tags.json": { next: "2.1.0-beta.1" },
+      });
+    });
+
+    test("resolves versions like the registry server", async () => {
+      const repo = registry();
+
+      await expect(repo.getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "2.0.0" },
+        files: [{ content: "// button 2.0.0" }],
+        availableStyles: ["default"],
+      });
+      await expect(repo.getVersion("button", "next")).resolves.toMatchObject({
+        metadata: { version: "2.1.0-beta.1" },
+      });
+      await expect(repo.getVersion("button", "^1.0.0")).resolves.toMatchObject({
+        metadata: { version: "1.0.0" },
+      });
+      await expect(repo.getComponent("@acme/card")).resolves.toMatchObject({
+        metadata: { name: "@acme/card" },
+      });
+      await expect(repo.getDetails("button")).resolves.toMatchObject({
+        versions: [{ version: "1.0.0" }, { version: "2.0.0" }, { version: "2.1.0-beta.1" }],
+        distTags: { latest: "2.0.0", next: "2.1.0-beta.1" },
+      });
+    });
+
+    test("reads the repository at a ref", async () => {
+      await expect(registry("v1").getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "1.0.0" },
+      });
+      await expect(registry("nope").getComponent("button")).rejects.toMatchObject({
+        code: "CONFIG_ERROR",
+      });
+    });
+
+    test("searches the components", async () => {
+      const { results, total } = await registry().search({ q: "card" });
+      expect(total).toBe(1);
+      expect(results[0]).toMatchObject({ name: "@acme/card", latestVersion: "1.0.0" });
+    });
+
+    test("reports missing components and versions", async () => {
+      await expect(registry().getComponent("dialog")).rejects.toMatchObject({
+        code: "COMPONENT_NOT_FOUND",
+      });
+      await expect(registry().getVersion("button", "3.0.0")).rejects.toMatchObject({
+        code: "COMPONENT_NOT_FOUND",
+      });
+    });
+
+    test("fetches into the mirror, and uses it as is when offline", async () => {
+      await registry().health();
+      await commit({
+        "components/button/3.0.0/component.json": component("button", "3.0.0"),
+      });
+
+      await expect(registry(undefined, true).getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "2.0.0" },
+      });
+      await expect(registry().getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "3.0.0" },
+      });
+    });
+
+    test("warns when the mirror cannot be updated", async () => {
+      await registry().health();
+      await fs.move(bare, join(dir, "moved.git"));
+
+      await expect(registry().getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "2.0.0" },
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(`Could not fetch file://${bare}, using the cached mirror`)
+      );
+    });
+
+    test("cannot be published to", async () => {
+      await expect(
+        registry().publish(component("button", "4.0.0") as never)
+      ).rejects.toMatchObject({ code: "CONFIG_ERROR" });
+    });
+  });
+
+  describe("with a single component versioned by tags", () => {
+    beforeEach(async () => {
+      await fs.outputFile(join(work, "button.tsx"), "// 1.0.0");
+      await commit(
+        { "component.json": { name: "button", version: "1.0.0", description: "A button" } },
+        "v1.0.0"
+      );
+      await fs.outputFile(join(work, "button.tsx"), "// 1.1.0");
+      await commit(
+        { "component.json": { name: "button", version: "1.1.0", description: "A button" } },
+        "v1.1.0"
+      );
+    });
+
+    test("serves a version per tag", async () => {
+      const repo = registry();
+
+      await expect(repo.getComponent("button")).resolves.toMatchObject({
+        metadata: { version: "1.1.0" },
+        files: [{ path: "button.tsx", content: "// 1.1.0" }],
+      });
+      await expect(repo.getVersion("button", "1.0.0")).resolves.toMatchObject({
+        files: [{ content: "// 1.0.0" }],
+      });
+      await expect(repo.getDetails("button")).resolves.toMatchObject({
+        versions: [{ version: "1.0.0" }, { version: "1.1.0" }],
+      });
+      await expect(repo.getComponent("card")).rejects.toMatchObject({
+        code: "COMPONENT_NOT_FOUND",
+      });
+    });
+  });
+
+  test("needs a mirror when offline", async () => {
+    await expect(registry(undefined, true).getComponent("button")).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+  });
+
+  test("reports repositories that cannot be cloned", async () => {
+    bare = join(dir, "missing.git");
+    await expect(registry().getComponent("button")).rejects.toMatchObject({
+      code: "REGISTRY_UNREACHABLE",
+    });
+  });
+});
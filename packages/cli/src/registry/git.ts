@@ -0,0 +1,280 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { join } from 'path';
+import semver from 'semver';
+import { promisify } from 'util';
+import { logger } from '../cli/logger.js';
+import { Component } from '../types/component.js';
+import { CLIError } from '../utils/error.js';
+import { packComponent } from './pack.js';
+import { ComponentSource, SourceRegistry } from './source.js';
+import { StorageLayoutSource } from './storage-layout.js';
+
+const execFileAsync = promisify(execFile);
+
+// Registries given as git+<repository url>[#<ref>]
+export const GIT_REGISTRY_PREFIX = 'git+';
+
+export interface GitRegistryOptions {
+  /** Where repositories are mirrored, one directory per repository */
+  dir: string;
+  /** Use the mirrored copy without fetching */
+  offline?: boolean;
+}
+
+export interface GitSpec {
+  url: string;
+  ref?: string;
+}
+
+export function parseGitSpec(spec: string): GitSpec {
+  const [url, ref] = spec.slice(GIT_REGISTRY_PREFIX.length).split('#');
+  if (!spec.startsWith(GIT_REGISTRY_PREFIX) || !url) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `"${spec}" is not a git registry`,
+      'Use git+<repository url>, optionally followed by #<branch, tag or commit>'
+    );
+  }
+  // Anything starting with a dash would be read as an option by git
+  if (url.startsWith('-') || ref?.startsWith('-')) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `"${spec}" is not a valid git registry`,
+      'Repository URLs and refs cannot start with "-"'
+    );
+  }
+  return { url, ...(ref && { ref }) };
+}
+
+async function git(args: string[], env?: Record<string, string>): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      maxBuffer: 64 * 1024 * 1024,
+      env: { ...process.env, ...env },
+    });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error as Error).message);
+  }
+}
+
+/**
+ * Write the files of a commit to `dir`. Uses a throwaway index so the
+ * mirror itself is never touched.
+ */
+async function exportTree(mirror: string, commit: string, dir: string): Promise<void> {
+  if (await fs.pathExists(dir)) {
+    return;
+  }
+  const tmp = `${dir}.tmp-${process.pid}`;
+  await fs.remove(tmp);
+  await fs.ensureDir(join(tmp, 'tree'));
+  await git(
+    [
+      `--git-dir=${mirror}`,
+      `--work-tree=${join(tmp, 'tree')}`,
+      'checkout',
+      commit,
+      '--',
+      '.',
+    ],
+    { GIT_INDEX_FILE: join(tmp, 'index') }
+  );
+  await fs.move(join(tmp, 'tree'), dir);
+  await fs.remove(tmp);
+}
+
+/**
+ * Components of a repository that holds a single component: component.json
+ * and its files at the root, one version per `v1.2.0` or `1.2.0` tag
+ */
+class GitTagSource implements ComponentSource {
+  constructor(
+    private readonly mirror: string,
+    private readonly treesDir: string,
+    private readonly tags: Map<string, string>
+  ) {}
+
+  private async tree(version: string): Promise<string> {
+    const tag = this.tags.get(version)!;
+    const commit = await git([
+      `--git-dir=${this.mirror}`,
+      'rev-parse',
+      `${tag}^{commit}`,
+    ]);
+    const dir = join(this.treesDir, commit);
+    await exportTree(this.mirror, commit, dir);
+    return dir;
+  }
+
+  private name?: Promise<string | undefined>;
+
+  /**
+   * The component's name, as of the latest stable tag
+   */
+  private latestName(): Promise<string | undefined> {
+    const latest = semver.maxSatisfying([...this.tags.keys()], '*');
+    this.name ??= latest
+      ? this.readTag(latest).then((component) => component.metadata.name)
+      : Promise.resolve(undefined);
+    return this.name;
+  }
+
+  private async readTag(version: string): Promise<Component> {
+    return (await packComponent(await this.tree(version))).component;
+  }
+
+  async listComponents(): Promise<string[]> {
+    const name = await this.latestName();
+    return name ? [name] : [];
+  }
+
+  async listVersions(name: string): Promise<string[]> {
+    return (await this.latestName()) === name ? [...this.tags.keys()] : [];
+  }
+
+  async readComponent(name: string, version: string): Promise<unknown> {
+    const component = await this.readTag(version);
+    if (component.metadata.name !== name) {
+      throw new CLIError(
+        'COMPONENT_NOT_FOUND',
+        `Tag ${this.tags.get(version)} holds ${component.metadata.name}, not ${name}`
+      );
+    }
+    return component;
+  }
+
+  async readDistTags(): Promise<unknown> {
+    return undefined;
+  }
+
+  async readVersionInfo(_name: string, version: string): Promise<unknown> {
+    const date = await git([
+      `--git-dir=${this.mirror}`,
+      'log',
+      '-1',
+      '--format=%cI',
+      this.tags.get(version)!,
+    ]);
+    return { version, createdAt: date, updatedAt: date };
+  }
+}
+
+/**
+ * Registry backed by a git repository, mirrored under the cache directory.
+ * A repository with a components/ directory is read like the registry's
+ * storage, at `#ref` or the default branch. Otherwise the repository is
+ * one component versioned by its tags.
+ */
+export class GitRegistry extends SourceRegistry {
+  private readonly spec: GitSpec;
+
+  constructor(
+    spec: string,
+    private readonly options: GitRegistryOptions
+  ) {
+    super(spec);
+    this.spec = parseGitSpec(spec);
+  }
+
+  private get repoDir(): string {
+    const hash = createHash('sha256').update(this.spec.url).digest('hex');
+    return join(this.options.dir, hash.slice(0, 16));
+  }
+
+  protected async loadSource(): Promise<ComponentSource> {
+    const mirror = await this.sync();
+    const treesDir = join(this.repoDir, 'trees');
+    const { ref } = this.spec;
+
+    let commit: string;
+    try {
+      commit = await git([
+        `--git-dir=${mirror}`,
+        'rev-parse',
+        '--verify',
+        `${ref ?? 'HEAD'}^{commit}`,
+      ]);
+    } catch {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `${ref ?? 'HEAD'} is not a branch, tag or commit of ${this.spec.url}`
+      );
+    }
+    const tree = join(treesDir, commit);
+    await exportTree(mirror, commit, tree);
+    if (await fs.pathExists(join(tree, 'components'))) {
+      return new StorageLayoutSource(tree);
+    }
+    if (ref) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `${this.spec.url}#${ref} has no components directory`,
+        'Leave out the #ref to use the tags of a single-component repository'
+      );
+    }
+
+    const tags = new Map<string, string>();
+    const list = await git([`--git-dir=${mirror}`, 'tag', '--list']);
+    for (const tag of list.split('\n').filter(Boolean)) {
+      const version = semver.valid(tag.replace(/^v/, ''));
+      if (version && !tags.has(version)) {
+        tags.set(version, tag);
+      }
+    }
+    return new GitTagSource(mirror, treesDir, tags);
+  }
+
+  /**
+   * Clone the repository, or fetch into the existing mirror. A mirror that
+   * cannot be updated is used as it is, with a warning.
+   */
+  private async sync(): Promise<string> {
+    const mirror = join(this.repoDir, 'repo.git');
+    const { url } = this.spec;
+
+    if (await fs.pathExists(mirror)) {
+      if (!this.options.offline) {
+        await git([
+          `--git-dir=${mirror}`,
+          'fetch',
+          '--quiet',
+          '--prune',
+          '--force',
+          '--',
+          url,
+          '+refs/heads/*:refs/heads/*',
+          '+refs/tags/*:refs/tags/*',
+        ]).catch((error: Error) => {
+          logger.warn(
+            `Could not fetch ${url}, using the cached mirror: ${error.message}`
+          );
+        });
+      }
+      return mirror;
+    }
+
+    if (this.options.offline) {
+      throw new CLIError(
+        'NETWORK_ERROR',
+        `${url} is not in the cache`,
+        'Run the command once without --offline to cache it'
+      );
+    }
+    try {
+      await fs.ensureDir(this.repoDir);
+      await git(['clone', '--bare', '--quiet', '--', url, mirror]);
+    } catch (error) {
+      await fs.remove(mirror);
+      throw new CLIError(
+        'REGISTRY_UNREACHABLE',
+        `Could not clone ${url}: ${(error as Error).message}`,
+        'Check the repository URL and your access to it'
+      );
+    }
+    return mirror;
+  }
+}
@@ -0,0 +1,207 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { add } from "../commands/add.js";
+import { diff } from "../commands/diff.js";
+import { update } from "../commands/update.js";
+import { MANIFEST_FILE } from "../manager/manifest.js";
+import { LocalRegistry } from "./local.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function component(name: string, version: string) {
+  return {
+    metadata: { name, version, tags: ["form"] },
+    files: [
+      {
+        path: `${name}.tsx`,
+        content: `// ${name} ${version}\n\nexport {};\n`,
+        type: "typescript",
+      },
+    ],
+    styles: {
+      minimal: {
+        files: [{ path: `${name}.tsx`, content: "// minimal", type: "typescript" }],
+      },
+    },
+  };
+}
+
+describe("LocalRegistry", () => {
+  let dir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-local-"));
+    root = join(dir, "design-system", "registry");
+    const button = join(root, "components", "button");
+    for (const version of ["1.0.0", "1.1.0"]) {
+      await fs.outputJson(join(button, version, "component.json"), component("button", version));
+    }
+    await fs.outputJson(join(button, "1.1.0", "version.json"), {
+      version: "1.1.0",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+      deprecated: true,
+      deprecationMessage: "Use 1.2.0",
+    });
+    await fs.outputJson(join(button, "dist-tags.json"), { stable: "1.0.0" });
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  test("resolves relative paths from the working directory", () => {
+    const registry = new LocalRegistry("local:../design-system/registry", join(dir, "app"));
+    expect(registry.root).toBe(root);
+    expect(registry.baseUrl).toBe("local:../design-system/registry");
+  });
+
+  test("serves versions, dist-tags and styles like the registry server", async () => {
+    const registry = new LocalRegistry(`local:${root}`);
+
+    await expect(registry.getComponent("button")).resolves.toMatchObject({
+      metadata: { version: "1.1.0" },
+      availableStyles: ["default", "minimal"],
+      deprecated: true,
+      deprecationMessage: "Use 1.2.0",
+    });
+    await expect(registry.getVersion("button", "stable", "minimal")).resolves.toMatchObject({
+      metadata: { version: "1.0.0", style: "minimal" },
+      files: [{ content: "// minimal" }],
+    });
+    await expect(registry.getVersion("button", "1.0.0", "retro")).rejects.toThrow(
+      'button@1.0.0 has no "retro" style'
+    );
+    await expect(registry.search({ tags: ["form"] })).resolves.toMatchObject({
+      total: 1,
+      results: [{ name: "button", latestVersion: "1.1.0" }],
+    });
+  });
+
+  test("resolves versions with the same rules as the registry server", async () => {
+    const card = join(root, "components", "card");
+    for (const version of ["v1.0.0", "2.0.0-beta.1", "2.0.0-beta.2"]) {
+      await fs.outputJson(join(card, version, "component.json"), component("card", version));
+    }
+
+    const registry = new LocalRegistry(`local:${root}`);
+    await expect(registry.getDetails("card")).resolves.toMatchObject({
+      component: { metadata: { version: "2.0.0-beta.2" } },
+      versions: [
+        { version: "2.0.0-beta.1", createdAt: "1970-01-01T00:00:00.000Z" },
+        { version: "2.0.0-beta.2", createdAt: "1970-01-01T00:00:00.000Z" },
+      ],
+    });
+    await expect(registry.getVersion("card", "v1.0.0")).rejects.toMatchObject({
+      code: "COMPONENT_NOT_FOUND",
+    });
+    await expect(registry.getVersion("card", "!beta")).rejects.toMatchObject({
+      code: "INVALID_COMPONENT",
+      message: '"!beta" is not a valid version or range',
+    });
+    await expect(registry.getVersion("button", "next")).rejects.toMatchObject({
+      code: "COMPONENT_NOT_FOUND",
+      message: expect.stringContaining('button has no dist-tag "next"'),
+    });
+  });
+
+  test("counts tags in the case they are filtered by", async () => {
+    await fs.outputJson(join(root, "components", "card", "1.0.0", "component.json"), {
+      ...component("card", "1.0.0"),
+      metadata: { name: "card", version: "1.0.0", tags: ["Form", "form"] },
+    });
+
+    const registry = new LocalRegistry(`local:${root}`);
+    await expect(registry.search({ tags: ["FORM"] })).resolves.toMatchObject({
+      total: 2,
+      facets: { tags: { form: 2 } },
+    });
+  });
+
+  test("validates what it reads", async () => {
+    await fs.outputJson(join(root, "components", "card", "1.0.0", "component.json"), {
+      metadata: { name: "card" },
+    });
+
+    const registry = new LocalRegistry(`local:${root}`);
+    await expect(registry.getComponent("card")).rejects.toMatchObject({
+      code: "INVALID_COMPONENT",
+      message: expect.stringContaining("Registry returned an invalid response"),
+    });
+  });
+
+  test("rejects directories without components", async () => {
+    await expect(new LocalRegistry(`local:${dir}`).health()).rejects.toMatchObject({
+      code: "REGISTRY_UNREACHABLE",
+    });
+  });
+
+  test("installs components with add --registry local:<path>", async () => {
+    const cwd = join(dir, "app");
+    await fs.ensureDir(cwd);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    process.env.FETCH_UI_USER_CONFIG = join(dir, "config.json");
+    process.env.FETCH_UI_CACHE_DIR = join(dir, "cache");
+    try {
+      await add(["button"], {
+        cwd,
+        registry: "local:../design-system/registry",
+        version: "1.0.0",
+      });
+    } finally {
+      delete process.env.FETCH_UI_USER_CONFIG;
+      delete process.env.FETCH_UI_CACHE_DIR;
+      jest.restoreAllMocks();
+    }
+
+    expect(await fs.readFile(join(cwd, "components", "button", "button.tsx"), "utf-8")).toBe(
+      "// button 1.0.0\n\nexport {};\n"
+    );
+  });
+
+  test("updates and diffs components against the registry they came from", async () => {
+    const cwd = join(dir, "app");
+    const file = join(cwd, "components", "button", "button.tsx");
+    await fs.ensureDir(cwd);
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    process.env.FETCH_UI_USER_CONFIG = join(dir, "config.json");
+    process.env.FETCH_UI_CACHE_DIR = join(dir, "cache");
+    try {
+      await add(["button"], {
+        cwd,
+        registry: "local:../design-system/registry",
+        version: "1.0.0",
+      });
+      await fs.appendFile(file, "// local edit\n");
+
+      // Without --registry, the default registry would not have button
+      await update("button", undefined, { cwd, registry: "local" });
+      await diff("button", undefined, undefined, { cwd, registry: "local", json: true });
+    } finally {
+      delete process.env.FETCH_UI_USER_CONFIG;
+      delete process.env.FETCH_UI_CACHE_DIR;
+      jest.restoreAllMocks();
+    }
+
+    expect(await fs.readFile(file, "utf-8")).toBe(
+      "// button 1.1.0\n\nexport {};\n// local edit\n"
+    );
+    const manifest = await fs.readJson(join(cwd, MANIFEST_FILE));
+    expect(manifest.components.button).toMatchObject({
+      version: "1.1.0",
+      registry: "local:../design-system/registry",
+    });
+    const result = JSON.parse(log.mock.calls[log.mock.calls.length - 1][0]);
+    expect(result).toMatchObject({ from: "button@1.1.0", to: "local" });
+    expect(result.files).toHaveLength(1);
+  });
+});
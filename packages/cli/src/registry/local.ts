@@ -0,0 +1,41 @@
+import fs from 'fs-extra';
+import { join, resolve } from 'path';
+import { CLIError } from '../utils/error.js';
+import { ComponentSource, SourceRegistry } from './source.js';
+import { StorageLayoutSource } from './storage-layout.js';
+
+// Registries given as local:<path to a registry's storage directory>
+export const LOCAL_REGISTRY_PREFIX = 'local:';
+
+/**
+ * Registry read straight from disk, e.g. the storage directory of a
+ * registry server or a package in the same monorepo. Relative paths are
+ * resolved from `cwd`.
+ */
+export class LocalRegistry extends SourceRegistry {
+  readonly root: string;
+
+  constructor(spec: string, cwd: string = process.cwd()) {
+    super(spec);
+    const path = spec.slice(LOCAL_REGISTRY_PREFIX.length);
+    if (!spec.startsWith(LOCAL_REGISTRY_PREFIX) || !path) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `"${spec}" is not a local registry`,
+        'Use local:<path to the directory holding components/>'
+      );
+    }
+    this.root = resolve(cwd, path);
+  }
+
+  protected async loadSource(): Promise<ComponentSource> {
+    if (!(await fs.pathExists(join(this.root, 'components')))) {
+      throw new CLIError(
+        'REGISTRY_UNREACHABLE',
+        `${this.root} has no components directory`,
+        'Point local: at the directory holding components/<name>/<version>/component.json'
+      );
+    }
+    return new StorageLayoutSource(this.root);
+  }
+}
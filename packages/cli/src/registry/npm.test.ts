@@ -0,0 +1,248 @@
+import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { logger } from "../cli/logger.js";
+import { add } from "../commands/add.js";
+import { MANIFEST_FILE } from "../manager/manifest.js";
+import { RegistryCache } from "./cache.js";
+import { NpmRegistry } from "./npm.js";
+
+jest.mock("../cli/logger.js", () => ({
+  logger: {
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function mockResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    arrayBuffer: async () => {
+      const buffer = body as Buffer;
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length);
+    },
+  } as Response;
+}
+
+describe("NpmRegistry", () => {
+  let dir: string;
+  let pkg: string;
+
+  async function writePackage(version: string, field?: Record<string, unknown>): Promise<void> {
+    await fs.outputJson(join(pkg, "package.json"), {
+      name: "@vendor/button",
+      version,
+      description: "A vendor button",
+      main: "index.js",
+      ...(field && { "fetch-ui": field }),
+    });
+  }
+
+  function pack(name: string): Buffer {
+    const tarball = join(dir, name);
+    execFileSync("tar", ["-czf", tarball, "-C", dir, "package"]);
+    return fs.readFileSync(tarball);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-npm-"));
+    pkg = join(dir, "package");
+    await writePackage("1.0.0", { files: ["src/button.tsx"], tags: ["vendor"] });
+    await fs.outputFile(join(pkg, "src", "button.tsx"), "export const Button = () => null;");
+    await fs.outputFile(join(pkg, "index.js"), "module.exports = {};");
+    await fs.outputFile(join(pkg, "README.md"), "# Button");
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  test("reads a package directory", async () => {
+    const registry = new NpmRegistry("npm:./package", { dir: join(dir, "unpacked"), cwd: dir });
+
+    await expect(registry.getComponent("@vendor/button")).resolves.toMatchObject({
+      metadata: {
+        name: "@vendor/button",
+        version: "1.0.0",
+        description: "A vendor button",
+        tags: ["vendor"],
+      },
+      files: [{ path: "src/button.tsx", type: "typescript" }],
+      readme: "# Button",
+    });
+    await expect(registry.search({})).resolves.toMatchObject({ total: 1 });
+  });
+
+  test("unpacks a local tarball", async () => {
+    pack("button-1.0.0.tgz");
+    const registry = new NpmRegistry(`npm:${join(dir, "button-1.0.0.tgz")}`, {
+      dir: join(dir, "unpacked"),
+    });
+
+    await expect(registry.getComponent("@vendor/button")).resolves.toMatchObject({
+      files: [{ path: "src/button.tsx", content: "export const Button = () => null;" }],
+    });
+  });
+
+  test("rejects packages without a fetch-ui field", async () => {
+    await writePackage("1.0.0");
+    const registry = new NpmRegistry(`npm:${pkg}`, { dir: join(dir, "unpacked") });
+
+    await expect(registry.getComponent("@vendor/button")).rejects.toMatchObject({
+      code: "INVALID_COMPONENT",
+      message: expect.stringContaining('has no "fetch-ui" field'),
+    });
+  });
+
+  test("installs components with add --registry npm:<path>", async () => {
+    const cwd = join(dir, "app");
+    await fs.ensureDir(cwd);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    process.env.FETCH_UI_USER_CONFIG = join(dir, "config.json");
+    process.env.FETCH_UI_CACHE_DIR = join(dir, "cache");
+    try {
+      await add(["@vendor/button"], { cwd, registry: "npm:../package" });
+    } finally {
+      delete process.env.FETCH_UI_USER_CONFIG;
+      delete process.env.FETCH_UI_CACHE_DIR;
+      jest.restoreAllMocks();
+    }
+
+    const manifest = await fs.readJson(join(cwd, MANIFEST_FILE));
+    expect(Object.values(manifest.components)).toEqual([
+      expect.objectContaining({ version: "1.0.0", registry: "npm:../package" }),
+    ]);
+  });
+
+  describe("from an npm registry", () => {
+    let fetchSpy: jest.SpyInstance;
+    let tarballs: Record<string, Buffer>;
+    let packument: Record<string, unknown>;
+
+    function version(number: string, isComponent = true, deprecated?: string) {
+      const tarball = tarballs[number];
+      return {
+        name: "@vendor/button",
+        version: number,
+        ...(isComponent && { "fetch-ui": { files: ["src/button.tsx"] } }),
+        ...(deprecated && { deprecated }),
+        dist: {
+          tarball: `http://npm.test/@vendor/button/-/button-${number}.tgz`,
+          integrity: `sha512-${createHash("sha512").update(tarball).digest("base64")}`,
+        },
+      };
+    }
+
+    beforeEach(async () => {
+      tarballs = { "1.0.0": pack("1.0.0.tgz") };
+      await writePackage("1.1.0", { files: ["src/button.tsx"] });
+      tarballs["1.1.0"] = pack("1.1.0.tgz");
+      await writePackage("2.0.0");
+      tarballs["2.0.0"] = pack("2.0.0.tgz");
+
+      packument = {
+        name: "@vendor/button",
+        "dist-tags": { latest: "2.0.0" },
+        versions: {
+          "1.0.0": version("1.0.0"),
+          "1.1.0": version("1.1.0", true, "Use 1.2.0"),
+          "2.0.0": version("2.0.0", false),
+        },
+        time: { "1.0.0": "2024-01-01T00:00:00.000Z", "1.1.0": "2024-02-01T00:00:00.000Z" },
+      };
+      fetchSpy = jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+        const url = String(input);
+        if (url === "http://npm.test/@vendor%2fbutton") {
+          return mockResponse(200, packument);
+        }
+        const match = /button-(.+)\.tgz$/.exec(url);
+        return match ? mockResponse(200, tarballs[match[1]]) : mockResponse(404, {});
+      });
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    test("resolves component versions and ignores the others", async () => {
+      const registry = new NpmRegistry("npm:http://npm.test/", { dir: join(dir, "unpacked") });
+
+      await expect(registry.getComponent("@vendor/button")).resolves.toMatchObject({
+        metadata: { version: "1.1.0" },
+        deprecated: true,
+        deprecationMessage: "Use 1.2.0",
+      });
+      await expect(registry.getVersion("@vendor/button", "2.0.0")).rejects.toMatchObject({
+        code: "COMPONENT_NOT_FOUND",
+      });
+      await expect(registry.getComponent("@vendor/card")).rejects.toMatchObject({
+        code: "COMPONENT_NOT_FOUND",
+      });
+    });
+
+    test("downloads each tarball once", async () => {
+      const options = { dir: join(dir, "unpacked") };
+      await new NpmRegistry("npm:http://npm.test", options).getVersion("@vendor/button", "1.0.0");
+      await new NpmRegistry("npm:http://npm.test", options).getVersion("@vendor/button", "1.0.0");
+
+      const downloads = fetchSpy.mock.calls.filter(([url]) => String(url).endsWith(".tgz"));
+      expect(downloads).toHaveLength(1);
+    });
+
+    test("rejects tarballs that do not match their integrity", async () => {
+      tarballs["1.0.0"] = tarballs["1.1.0"];
+      const registry = new NpmRegistry("npm:http://npm.test", { dir: join(dir, "unpacked") });
+
+      await expect(registry.getVersion("@vendor/button", "1.0.0")).rejects.toMatchObject({
+        code: "INVALID_COMPONENT",
+        message: "The tarball of @vendor/button@1.0.0 does not match its checksum",
+      });
+    });
+
+    test("rejects integrity hashes of unsupported algorithms", async () => {
+      const manifest = version("1.0.0");
+      packument.versions = {
+        "1.0.0": { ...manifest, dist: { ...manifest.dist, integrity: "md5-AAAA" } },
+      };
+      const registry = new NpmRegistry("npm:http://npm.test", { dir: join(dir, "unpacked") });
+
+      await expect(registry.getVersion("@vendor/button", "1.0.0")).rejects.toMatchObject({
+        code: "INVALID_COMPONENT",
+        message: "The integrity of @vendor/button@1.0.0 uses an unsupported algorithm: md5-AAAA",
+      });
+    });
+
+    test("warns about tarballs without a checksum", async () => {
+      const manifest = version("1.0.0");
+      packument.versions = { "1.0.0": { ...manifest, dist: { tarball: manifest.dist.tarball } } };
+      const registry = new NpmRegistry("npm:http://npm.test", { dir: join(dir, "unpacked") });
+
+      await expect(registry.getVersion("@vendor/button", "1.0.0")).resolves.toBeDefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        "@vendor/button@1.0.0 has no checksum, its tarball cannot be verified"
+      );
+    });
+
+    test("refetches cached package documents after the ttl", async () => {
+      const cache = new RegistryCache(join(dir, "cache"));
+      const fetchPackument = async (ttl?: number) => {
+        const options = { dir: join(dir, "unpacked"), cache, ttl };
+        await new NpmRegistry("npm:http://npm.test", options).getDetails("@vendor/button");
+      };
+      const packumentFetches = () =>
+        fetchSpy.mock.calls.filter(([url]) => !String(url).endsWith(".tgz")).length;
+
+      await fetchPackument();
+      await fetchPackument();
+      expect(packumentFetches()).toBe(1);
+      await fetchPackument(0);
+      expect(packumentFetches()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import { join, resolve } from 'path';
+import { z } from 'zod';
+import { logger } from '../cli/logger.js';
+import { Component } from '../types/component.js';
+import { CLIError } from '../utils/error.js';
+import { extractTarball } from '../utils/tar.js';
+import { DEFAULT_CACHE_TTL, RegistryCache } from './cache.js';
+import { validateResponse } from './client.js';
+import { packManifest } from './pack.js';
+import { ComponentSource, SourceRegistry } from './source.js';
+
+// Registries given as npm:<npm registry URL, tarball or package directory>
+export const NPM_REGISTRY_PREFIX = 'npm:';
+
+export const DEFAULT_NPM_REGISTRY = 'https://registry.npmjs.org';
+
+// package.json field that turns a package into a component: the files to
+// install plus component metadata such as dependencies
+export const NPM_COMPONENT_FIELD = 'fetch-ui';
+
+export interface NpmRegistryOptions {
+  /** Where tarballs are unpacked */
+  dir: string;
+  /** Caches package documents of npm registries */
+  cache?: RegistryCache;
+  /** How long cached package documents are used without refetching, in ms */
+  ttl?: number;
+  offline?: boolean;
+  /** Give up on requests after this many ms */
+  timeout?: number;
+  /** Directory that relative tarball and package paths are resolved from */
+  cwd?: string;
+}
+
+const PackageJsonSchema = z
+  .object({
+    name: z.string(),
+    version: z.string(),
+    description: z.string().optional(),
+    license: z.string().optional(),
+    [NPM_COMPONENT_FIELD]: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+// The parts of an npm registry's package document used here
+const PackumentSchema = z.object({
+  'dist-tags': z.record(z.string()).default({}),
+  versions: z.record(
+    z
+      .object({
+        deprecated: z.string().optional(),
+        dist: z.object({
+          tarball: z.string().url(),
+          integrity: z.string().optional(),
+          shasum: z.string().optional(),
+        }),
+        [NPM_COMPONENT_FIELD]: z.record(z.unknown()).optional(),
+      })
+      .passthrough()
+  ),
+  time: z.record(z.string()).default({}),
+});
+
+type Packument = z.infer<typeof PackumentSchema>;
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+function isTarball(path: string): boolean {
+  return /\.(tgz|tar\.gz|tar)$/i.test(path);
+}
+
+/**
+ * Unpack an npm tarball, whose files are all under package/, to `dir`
+ * unless it already has been
+ */
+async function unpackTarball(archive: Buffer, dir: string): Promise<void> {
+  if (await fs.pathExists(dir)) {
+    return;
+  }
+  const tmp = `${dir}.tmp-${process.pid}`;
+  await fs.remove(tmp);
+  await extractTarball(archive, tmp, 1);
+  await fs.move(tmp, dir, { overwrite: true });
+}
+
+// Hash algorithms npm writes into `integrity`
+const INTEGRITY_ALGORITHMS = ['sha512', 'sha384', 'sha256', 'sha1'];
+
+/**
+ * Check a downloaded tarball against the `integrity` (e.g. sha512-<base64>)
+ * or the older sha1 `shasum` of its package document
+ */
+function verifyTarball(
+  archive: Buffer,
+  id: string,
+  dist: { integrity?: string; shasum?: string }
+): void {
+  let actual: string | undefined;
+  let expected: string | undefined;
+  if (dist.integrity) {
+    const separator = dist.integrity.indexOf('-');
+    const algorithm = dist.integrity.slice(0, separator);
+    if (!INTEGRITY_ALGORITHMS.includes(algorithm)) {
+      throw new CLIError(
+        'INVALID_COMPONENT',
+        `The integrity of ${id} uses an unsupported algorithm: ${dist.integrity}`,
+        `Supported algorithms are ${INTEGRITY_ALGORITHMS.join(', ')}`
+      );
+    }
+    expected = dist.integrity.slice(separator + 1);
+    actual = createHash(algorithm).update(archive).digest('base64');
+  } else if (dist.shasum) {
+    expected = dist.shasum;
+    actual = createHash('sha1').update(archive).digest('hex');
+  } else {
+    logger.warn(`${id} has no checksum, its tarball cannot be verified`);
+  }
+  if (actual !== expected) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `The tarball of ${id} does not match its checksum`,
+      'The download may be corrupt, try again'
+    );
+  }
+}
+
+/**
+ * Convert an unpacked package to a component. The `fetch-ui` field of its
+ * package.json lists the files and extends the package's own name,
+ * version, description and license.
+ */
+export async function packNpmPackage(dir: string): Promise<Component> {
+  const path = join(dir, 'package.json');
+  const pkg = validateResponse(
+    PackageJsonSchema,
+    await fs.readJson(path).catch(() => undefined),
+    path
+  );
+  const field = pkg[NPM_COMPONENT_FIELD];
+  if (!field) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `${pkg.name}@${pkg.version} is not a component, its package.json has no "${NPM_COMPONENT_FIELD}" field`
+    );
+  }
+  const { component } = await packManifest(
+    dir,
+    {
+      description: pkg.description,
+      license: pkg.license,
+      ...field,
+      name: pkg.name,
+      version: pkg.version,
+    },
+    path
+  );
+  return component;
+}
+
+/**
+ * A single package, from a tarball or a directory
+ */
+class PackageSource implements ComponentSource {
+  constructor(private readonly component: Component) {}
+
+  async listComponents(): Promise<string[]> {
+    return [this.component.metadata.name];
+  }
+
+  async listVersions(name: string): Promise<string[]> {
+    return name === this.component.metadata.name
+      ? [this.component.metadata.version]
+      : [];
+  }
+
+  async readComponent(): Promise<unknown> {
+    return this.component;
+  }
+
+  async readDistTags(): Promise<unknown> {
+    return undefined;
+  }
+
+  async readVersionInfo(): Promise<unknown> {
+    return undefined;
+  }
+}
+
+/**
+ * Packages of an npm registry. Only versions with a `fetch-ui` field are
+ * components. npm has no listing of them, so nothing is found by search.
+ */
+class NpmPackageSource implements ComponentSource {
+  private packuments = new Map<string, Promise<Packument | undefined>>();
+
+  constructor(
+    private readonly url: string,
+    private readonly options: NpmRegistryOptions
+  ) {}
+
+  async listComponents(): Promise<string[]> {
+    return [];
+  }
+
+  async listVersions(name: string): Promise<string[]> {
+    const packument = await this.packument(name);
+    return Object.entries(packument?.versions ?? {})
+      .filter(([, manifest]) => manifest[NPM_COMPONENT_FIELD])
+      .map(([version]) => version);
+  }
+
+  async readComponent(name: string, version: string): Promise<unknown> {
+    const manifest = (await this.packument(name))!.versions[version];
+    const { tarball, integrity, shasum } = manifest.dist;
+    const dir = join(this.options.dir, sha256(integrity ?? shasum ?? tarball));
+
+    if (!(await fs.pathExists(dir))) {
+      const archive = await this.download(tarball);
+      verifyTarball(archive, `${name}@${version}`, manifest.dist);
+      await unpackTarball(archive, dir);
+    }
+    return packNpmPackage(dir);
+  }
+
+  async readDistTags(name: string): Promise<unknown> {
+    const packument = await this.packument(name);
+    const versions = await this.listVersions(name);
+    // Tags pointing at versions that are not components are left out
+    return Object.fromEntries(
+      Object.entries(packument?.['dist-tags'] ?? {}).filter(([, version]) =>
+        versions.includes(version)
+      )
+    );
+  }
+
+  async readVersionInfo(name: string, version: string): Promise<unknown> {
+    const packument = (await this.packument(name))!;
+    const published = packument.time[version];
+    if (!published) {
+      return undefined;
+    }
+    const { deprecated } = packument.versions[version];
+    return {
+      version,
+      createdAt: published,
+      updatedAt: published,
+      ...(deprecated && { deprecated: true, deprecationMessage: deprecated }),
+    };
+  }
+
+  private packument(name: string): Promise<Packument | undefined> {
+    let packument = this.packuments.get(name);
+    if (!packument) {
+      packument = this.fetchPackument(name);
+      this.packuments.set(name, packument);
+    }
+    return packument;
+  }
+
+  /**
+   * The package document of `name`, undefined if there is no such package.
+   * Cached like registry responses, and used from the cache when the npm
+   * registry cannot be reached.
+   */
+  private async fetchPackument(name: string): Promise<Packument | undefined> {
+    const url = `${this.url}/${name.replace('/', '%2f')}`;
+    const { cache, offline, ttl = DEFAULT_CACHE_TTL } = this.options;
+    const cached = await cache?.get(url);
+
+    if (cached && (offline || cache!.isFresh(cached.entry, ttl))) {
+      return validateResponse(PackumentSchema, JSON.parse(cached.body), url);
+    }
+    if (offline) {
+      throw new CLIError(
+        'NETWORK_ERROR',
+        `${url} is not in the cache`,
+        'Run the command once without --offline to cache it'
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await this.send(url);
+    } catch (error) {
+      if (cached) {
+        return validateResponse(PackumentSchema, JSON.parse(cached.body), url);
+      }
+      throw error;
+    }
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new CLIError(
+        'NETWORK_ERROR',
+        `npm registry responded with status ${response.status} for ${name}`
+      );
+    }
+
+    const body: unknown = await response.json().catch(() => undefined);
+    const packument = validateResponse(PackumentSchema, body, url);
+    await cache?.put(url, JSON.stringify(body)).catch(() => undefined);
+    return packument;
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    if (this.options.offline) {
+      throw new CLIError(
+        'NETWORK_ERROR',
+        `${url} is not in the cache`,
+        'Run the command once without --offline to cache it'
+      );
+    }
+    const response = await this.send(url);
+    if (!response.ok) {
+      throw new CLIError(
+        'NETWORK_ERROR',
+        `npm registry responded with status ${response.status} for ${url}`
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async send(url: string): Promise<Response> {
+    const { timeout } = this.options;
+    try {
+      return await fetch(url, {
+        headers: { accept: 'application/json' },
+        ...(timeout && { signal: AbortSignal.timeout(timeout) }),
+      });
+    } catch {
+      throw new CLIError(
+        'REGISTRY_UNREACHABLE',
+        `Could not reach ${url}`,
+        'Check the npm registry URL and your network connection'
+      );
+    }
+  }
+}
+
+/**
+ * Registry of components shipped as npm packages: those of an npm registry,
+ * or the single package of a tarball or directory on disk
+ */
+export class NpmRegistry extends SourceRegistry {
+  private readonly location: string;
+
+  constructor(
+    spec: string,
+    private readonly options: NpmRegistryOptions
+  ) {
+    super(spec);
+    if (!spec.startsWith(NPM_REGISTRY_PREFIX)) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `"${spec}" is not an npm registry`,
+        'Use npm:<registry URL>, npm:<path to a tarball> or npm:<path to a package>'
+      );
+    }
+    this.location = spec.slice(NPM_REGISTRY_PREFIX.length) || DEFAULT_NPM_REGISTRY;
+  }
+
+  protected async loadSource(): Promise<ComponentSource> {
+    if (/^https?:\/\//.test(this.location)) {
+      return new NpmPackageSource(this.location.replace(/\/+$/, ''), this.options);
+    }
+
+    const path = resolve(this.options.cwd ?? process.cwd(), this.location);
+    if (!(await fs.pathExists(path))) {
+      throw new CLIError('REGISTRY_UNREACHABLE', `${path} does not exist`);
+    }
+    if (!isTarball(path)) {
+      return new PackageSource(await packNpmPackage(path));
+    }
+
+    const archive = await fs.readFile(path);
+    const dir = join(this.options.dir, sha256(archive));
+    await unpackTarball(archive, dir);
+    return new PackageSource(await packNpmPackage(dir));
+  }
+}
@@ -0,0 +1,89 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { packComponent } from "./pack.js";
+
+describe("packComponent", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "fetch-ui-pack-"));
+    await fs.writeJson(join(dir, "component.json"), {
+      name: "button",
+      version: "1.0.0",
+      description: "A button",
+    });
+    await fs.outputFile(join(dir, "button.tsx"), "export const Button = () => null;");
+    await fs.outputFile(join(dir, "styles", "button.css"), ".button {}");
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  test("packs files with types from their extension, README and CHANGELOG", async () => {
+    await fs.outputFile(join(dir, "README.md"), "# Button");
+    await fs.outputFile(join(dir, "CHANGELOG.md"), "## 1.0.0");
+    await fs.outputFile(join(dir, "button.test.tsx"), "test");
+    await fs.outputFile(join(dir, "logo.svg"), "<svg />");
+
+    const { component, skipped } = await packComponent(dir);
+    expect(component).toEqual({
+      metadata: { name: "button", version: "1.0.0", description: "A button" },
+      files: [
+        {
+          path: "button.tsx",
+          content: "export const Button = () => null;",
+          type: "typescript",
+        },
+        { path: "styles/button.css", content: ".button {}", type: "css" },
+      ],
+      readme: "# Button",
+      changelog: "## 1.0.0",
+    });
+    expect(skipped).toEqual(["logo.svg"]);
+  });
+
+  test("only packs the files listed in the manifest", async () => {
+    await fs.writeJson(join(dir, "component.json"), {
+      name: "button",
+      version: "1.0.0",
+      files: ["button.tsx"],
+    });
+
+    const { component } = await packComponent(dir);
+    expect(component.files.map((file) => file.path)).toEqual(["button.tsx"]);
+  });
+
+  test("rejects listed files that are missing or outside the directory", async () => {
+    await fs.writeJson(join(dir, "component.json"), {
+      name: "button",
+      version: "1.0.0",
+      files: ["../secret.ts"],
+    });
+    await expect(packComponent(dir)).rejects.toThrow("resolves outside of");
+  });
+
+  test("validates the package against the component schema", async () => {
+    await fs.writeJson(join(dir, "component.json"), { name: "Not A Name", version: "1.0.0" });
+    await expect(packComponent(dir)).rejects.toThrow("Invalid component: metadata.name");
+
+    await fs.writeJson(join(dir, "component.json"), { name: "button", version: "one" });
+    await expect(packComponent(dir)).rejects.toThrow('"one" is not a valid semver version');
+  });
+
+  test("requires a canonical version", async () => {
+    await fs.writeJson(join(dir, "component.json"), { name: "button", version: "v1.0.0" });
+    await expect(packComponent(dir)).rejects.toThrow(
+      '"v1.0.0" is not a canonical semver version, use "1.0.0"'
+    );
+  });
+
+  test("requires a component.json", async () => {
+    await fs.remove(join(dir, "component.json"));
+    await expect(packComponent(dir)).rejects.toMatchObject({
+      code: "INVALID_COMPONENT",
+      suggestion: expect.stringContaining("component.json"),
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import fs from 'fs-extra';
+import { basename, extname, join } from 'path';
+import semver from 'semver';
+import { z } from 'zod';
+import { isValidVersion } from '@fetch-ui/core';
+import {
+  Component,
+  ComponentFile,
+  ComponentSchema,
+} from '../types/component.js';
+import { CLIError } from '../utils/error.js';
+import { resolveInside, toPosixRelative } from '../utils/fs.js';
+import { formatZodIssues } from '../utils/validation.js';
+
+// Metadata of a component directory, with an optional list of the files
+// to publish
+export const COMPONENT_MANIFEST = 'component.json';
+
+const FILE_TYPES: Record<string, ComponentFile['type']> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.less': 'less',
+  '.json': 'json',
+};
+
+const ManifestSchema = z
+  .object({ files: z.array(z.string()).optional() })
+  .passthrough();
+
+export interface PackedComponent {
+  component: Component;
+  /** Files left out because their type cannot be published */
+  skipped: string[];
+}
+
+export function fileType(path: string): ComponentFile['type'] | undefined {
+  return FILE_TYPES[extname(path).toLowerCase()];
+}
+
+function isDocument(path: string, name: string): boolean {
+  return path.toLowerCase() === `${name}.md`;
+}
+
+/**
+ * Every file under `root` that could be part of the component: no dotfiles,
+ * node_modules, tests, manifest, README or CHANGELOG
+ */
+async function collectFiles(
+  root: string,
+  manifestFile: string,
+  dir: string = root
+): Promise<string[]> {
+  const paths: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name);
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      paths.push(...(await collectFiles(root, manifestFile, fullPath)));
+      continue;
+    }
+    const path = toPosixRelative(root, fullPath);
+    const excluded =
+      path === manifestFile ||
+      isDocument(path, 'readme') ||
+      isDocument(path, 'changelog') ||
+      /\.(test|spec)\.[^/]+$/.test(path);
+    if (!excluded) {
+      paths.push(path);
+    }
+  }
+  return paths.sort();
+}
+
+async function readDocument(dir: string, name: string): Promise<string | undefined> {
+  const file = (await fs.readdir(dir)).find((entry) => isDocument(entry, name));
+  return file ? fs.readFile(join(dir, file), 'utf-8') : undefined;
+}
+
+/**
+ * Build the registry payload for a local component directory from its
+ * component.json. Files listed in the manifest must exist and have a
+ * publishable type; without a list, all files of a known type are used.
+ */
+export async function packComponent(dir: string): Promise<PackedComponent> {
+  const manifestPath = join(dir, COMPONENT_MANIFEST);
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(manifestPath);
+  } catch (error) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `Could not read ${manifestPath}: ${(error as Error).message}`,
+      `Create a ${COMPONENT_MANIFEST} with at least a name and version`
+    );
+  }
+  return packManifest(dir, raw, manifestPath);
+}
+
+/**
+ * Build a component from `dir` and a manifest read from `manifestPath`,
+ * which is never packed itself
+ */
+export async function packManifest(
+  dir: string,
+  raw: unknown,
+  manifestPath: string
+): Promise<PackedComponent> {
+  const manifestFile = basename(manifestPath);
+  const manifest = ManifestSchema.safeParse(raw);
+  if (!manifest.success) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `${manifestPath} is invalid: ${formatZodIssues(manifest.error)}`
+    );
+  }
+  const { files: listed, ...metadata } = manifest.data;
+
+  const files: ComponentFile[] = [];
+  const skipped: string[] = [];
+  for (const path of listed ?? (await collectFiles(dir, manifestFile))) {
+    const type = fileType(path);
+    if (!type) {
+      if (listed) {
+        throw new CLIError(
+          'INVALID_COMPONENT',
+          `${path} cannot be published, supported extensions are ${Object.keys(FILE_TYPES).join(', ')}`
+        );
+      }
+      skipped.push(path);
+      continue;
+    }
+    const fullPath = resolveInside(dir, path);
+    if (!(await fs.pathExists(fullPath))) {
+      throw new CLIError(
+        'INVALID_COMPONENT',
+        `${path} is listed in ${manifestFile} but does not exist`
+      );
+    }
+    files.push({ path, content: await fs.readFile(fullPath, 'utf-8'), type });
+  }
+
+  const readme = await readDocument(dir, 'readme');
+  const changelog = await readDocument(dir, 'changelog');
+  const result = ComponentSchema.safeParse({
+    metadata,
+    files,
+    ...(readme !== undefined && { readme }),
+    ...(changelog !== undefined && { changelog }),
+  });
+  if (!result.success) {
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      `Invalid component: ${formatZodIssues(result.error)}`
+    );
+  }
+
+  const component = result.data;
+  const { version } = component.metadata;
+  if (!isValidVersion(version)) {
+    // The registry only accepts canonical versions, so name the one to use
+    // for versions that semver would otherwise clean up (e.g. `v1.0.0`)
+    const canonical = semver.clean(version);
+    throw new CLIError(
+      'INVALID_COMPONENT',
+      canonical
+        ? `"${version}" is not a canonical semver version, use "${canonical}"`
+        : `"${version}" is not a valid semver version`
+    );
+  }
+  if (component.files.length === 0) {
+    throw new CLIError('INVALID_COMPONENT', `${dir} has no files to publish`);
+  }
+  return { component, skipped };
+}
@@ -0,0 +1,197 @@
+import { ProjectConfigSchema, ProjectConfigInput } from "../config/schema.js";
+import { UserConfig, UserConfigSchema } from "../config/user.js";
+import { GitRegistry } from "./git.js";
+import { LocalRegistry } from "./local.js";
+import { NpmRegistry } from "./npm.js";
+import { matchesRoute, RegistryRouter } from "./router.js";
+
+function router(
+  project: ProjectConfigInput = {},
+  user: Partial<UserConfig> = {},
+  registry?: string
+): RegistryRouter {
+  return new RegistryRouter(
+    ProjectConfigSchema.parse(project),
+    UserConfigSchema.parse(user),
+    { registry }
+  );
+}
+
+const registries = {
+  internal: {
+    url: "https://internal.example.com",
+    auth: { type: "bearer" as const, token: "secret" },
+    timeout: 5000,
+  },
+  public: { url: "https://public.example.com" },
+};
+
+describe("matchesRoute", () => {
+  test("treats * as a wildcard and everything else literally", () => {
+    expect(matchesRoute("@internal/*", "@internal/button")).toBe(true);
+    expect(matchesRoute("@internal/*", "@other/button")).toBe(false);
+    expect(matchesRoute("chart-*", "chart-bar")).toBe(true);
+    expect(matchesRoute("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("RegistryRouter", () => {
+  afterEach(() => {
+    delete process.env.FETCH_UI_REGISTRY_URL;
+  });
+
+  test("uses URL registries directly", () => {
+    expect(router({}, {}, "https://registry.example.com").resolve("button")).toEqual({
+      url: "https://registry.example.com",
+    });
+  });
+
+  test("uses a named registry from --registry", () => {
+    expect(router({}, { registries }, "internal").resolve("button")).toEqual({
+      name: "internal",
+      ...registries.internal,
+    });
+  });
+
+  test("routes components by pattern to named registries or URLs", () => {
+    const routed = router(
+      {
+        registry: {
+          url: "https://project.example.com",
+          routes: { "@internal/*": "internal", "chart-*": "https://charts.example.com" },
+        },
+      },
+      { registries }
+    );
+
+    expect(routed.resolve("@internal/button").name).toBe("internal");
+    expect(routed.resolve("chart-bar").url).toBe("https://charts.example.com");
+    expect(routed.resolve("button").url).toBe("https://project.example.com");
+    expect(routed.resolve().url).toBe("https://project.example.com");
+  });
+
+  test("uses the registry an installed component came from", () => {
+    const routed = router(
+      { registry: { routes: { "@internal/*": "internal" } } },
+      { registries }
+    );
+
+    expect(routed.resolve("@internal/button", "local:../registry")).toEqual({
+      url: "local:../registry",
+    });
+    expect(routed.resolve("button", "https://internal.example.com/")).toEqual({
+      name: "internal",
+      ...registries.internal,
+    });
+    expect(
+      router({}, { registries }, "public").resolve("button", "local:../registry").name
+    ).toBe("public");
+  });
+
+  test("sends credentials to registries routed by URL", () => {
+    const routes = {
+      "@internal/*": "https://internal.example.com",
+      "chart-*": "https://charts.example.com",
+    };
+
+    expect(router({ registry: { routes } }, { registries }).resolve("@internal/button")).toEqual({
+      name: "internal",
+      ...registries.internal,
+    });
+    expect(router({ registry: { routes } }).resolve("chart-bar")).toEqual({
+      url: "https://charts.example.com",
+    });
+
+  });
+
+  test("keeps credentials away from URLs that are not configured", () => {
+    const auth = { type: "bearer" as const };
+    const project = {
+      registry: {
+        url: "https://project.example.com",
+        auth,
+        routes: {
+          "chart-*": "https://charts.example.com",
+          "@project/*": "https://project.example.com/",
+        },
+      },
+    };
+
+    expect(router(project).resolve("chart-bar")).toEqual({
+      url: "https://charts.example.com",
+    });
+    expect(router(project).resolve("button", "https://evil.example.com")).toEqual({
+      url: "https://evil.example.com",
+    });
+    expect(router(project).resolve("@project/button").auth).toEqual(auth);
+    expect(router(project).resolve("button", "https://project.example.com").auth).toEqual(auth);
+  });
+
+  test("uses the configured registry for a --registry URL", () => {
+    expect(
+      router({}, { registries }, "https://internal.example.com/").resolve("button")
+    ).toEqual({ name: "internal", ...registries.internal });
+  });
+
+  test("prefers the project registry over the user's default", () => {
+    const user = { registries, defaultRegistry: "public" };
+
+    expect(router({}, user).resolve("button").url).toBe("https://public.example.com");
+    expect(
+      router({ registry: { url: "https://project.example.com" } }, user).resolve("button")
+        .url
+    ).toBe("https://project.example.com");
+
+    process.env.FETCH_UI_REGISTRY_URL = "https://env.example.com";
+    expect(router({}, user).resolve("button").url).toBe("https://env.example.com");
+  });
+
+  test("falls back to the built-in registry", () => {
+    expect(router().resolve("button").url).toBe("http://localhost:3000");
+    expect(router({}, {}, "local").resolve("button").url).toBe("http://localhost:3000");
+  });
+
+  test("rejects unknown registry names", () => {
+    expect(() => router({}, {}, "internal").resolve("button")).toThrow(
+      'Unknown registry "internal" (from --registry)'
+    );
+    expect(() =>
+      router({ registry: { routes: { "@internal/*": "internal" } } }).resolve(
+        "@internal/button"
+      )
+    ).toThrow('Unknown registry "internal" (from route @internal/*)');
+  });
+
+  test("shares clients between components on the same registry", () => {
+    const routed = router(
+      { registry: { routes: { "@internal/*": "internal" } } },
+      { registries }
+    );
+
+    const client = routed.clientFor("@internal/button");
+    expect(client.baseUrl).toBe("https://internal.example.com");
+    expect(routed.clientFor("@internal/card")).toBe(client);
+    expect(routed.clientFor("button")).not.toBe(client);
+  });
+
+  test("uses the git adapter for git+ registries", () => {
+    const client = router({}, {}, "git+https://example.com/ui.git#v2").clientFor("button");
+    expect(client).toBeInstanceOf(GitRegistry);
+    expect(client.baseUrl).toBe("git+https://example.com/ui.git#v2");
+  });
+
+  test("resolves local registries from the project directory", () => {
+    const client = new RegistryRouter(ProjectConfigSchema.parse({}), UserConfigSchema.parse({}), {
+      registry: "local:../design-system/registry",
+      cwd: "/work/app",
+    }).clientFor("button");
+    expect(client).toBeInstanceOf(LocalRegistry);
+    expect((client as LocalRegistry).root).toBe("/work/design-system/registry");
+  });
+
+  test("uses the public npm registry for the npm type", () => {
+    const client = router({}, {}, "npm").clientFor("@vendor/button");
+    expect(client).toBeInstanceOf(NpmRegistry);
+    expect(client.baseUrl).toBe("npm:https://registry.npmjs.org");
+  });
+});
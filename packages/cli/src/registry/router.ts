@@ -0,0 +1,211 @@
+import { join } from 'path';
+import type { ProjectConfig, RegistryAuth } from '../config/schema.js';
+import type { UserConfig } from '../config/user.js';
+import { IRegistry } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { defaultCacheDir } from './cache.js';
+import {
+  DEFAULT_REGISTRY_URL,
+  RegistryClient,
+  RegistryClientOptions,
+} from './client.js';
+import { GIT_REGISTRY_PREFIX, GitRegistry } from './git.js';
+import { LOCAL_REGISTRY_PREFIX, LocalRegistry } from './local.js';
+import { DEFAULT_NPM_REGISTRY, NPM_REGISTRY_PREFIX, NpmRegistry } from './npm.js';
+
+// --registry values that name a registry type rather than a configured
+// registry, and fall through to the configured one. `npm` on its own is
+// the public npm registry.
+const REGISTRY_TYPES = ['git', 'local', 'custom'];
+
+export interface RegistryTarget {
+  /** Name in the user config, for registries configured there */
+  name?: string;
+  url: string;
+  auth?: RegistryAuth;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+export interface RegistryRouterOptions {
+  /** The --registry option: a URL, a configured name or a registry type */
+  registry?: string;
+  /** Passed on to every client, e.g. the cache */
+  client?: RegistryClientOptions;
+  /** Directory that relative local: registries are resolved from */
+  cwd?: string;
+}
+
+// Registry servers are given by URL, adapters by a prefixed location
+function isUrl(value: string): boolean {
+  return (
+    /^https?:\/\//.test(value) ||
+    value.startsWith(GIT_REGISTRY_PREFIX) ||
+    value.startsWith(LOCAL_REGISTRY_PREFIX) ||
+    value.startsWith(NPM_REGISTRY_PREFIX)
+  );
+}
+
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+/**
+ * The registry implementation for a target: the HTTP client for registry
+ * servers, an adapter for other locations
+ */
+export function createRegistry(
+  target: RegistryTarget,
+  options: RegistryClientOptions = {},
+  cwd?: string
+): IRegistry {
+  if (target.url.startsWith(LOCAL_REGISTRY_PREFIX)) {
+    return new LocalRegistry(target.url, cwd);
+  }
+  if (target.url.startsWith(NPM_REGISTRY_PREFIX)) {
+    return new NpmRegistry(target.url, {
+      dir: join(options.cache?.dir ?? defaultCacheDir(), 'npm'),
+      cache: options.cache,
+      ttl: options.ttl,
+      offline: options.offline,
+      timeout: target.timeout,
+      cwd,
+    });
+  }
+  if (target.url.startsWith(GIT_REGISTRY_PREFIX)) {
+    return new GitRegistry(target.url, {
+      dir: join(options.cache?.dir ?? defaultCacheDir(), 'git'),
+      offline: options.offline,
+    });
+  }
+  return new RegistryClient(target.url, target.auth, {
+    ...options,
+    timeout: target.timeout,
+  });
+}
+
+/**
+ * Match a component name against a route pattern, where `*` stands for
+ * any run of characters (`@internal/*`, `chart-*`)
+ */
+export function matchesRoute(pattern: string, component: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(component);
+}
+
+/**
+ * Picks the registry each component comes from, combining the project's
+ * routes with the registries in the user config
+ */
+export class RegistryRouter {
+  private clients = new Map<string, IRegistry>();
+
+  constructor(
+    private readonly project: ProjectConfig,
+    private readonly user: UserConfig,
+    private readonly options: RegistryRouterOptions = {}
+  ) {}
+
+  /**
+   * The registry to use for a component, or for registry-wide requests
+   * without one. In order: --registry, the registry an installed component
+   * came from (`installedFrom`, as recorded in the lockfile), the first
+   * project route matching the component, FETCH_UI_REGISTRY_URL, the
+   * project's registry.url, the user's default registry and finally the
+   * built-in default.
+   */
+  resolve(component?: string, installedFrom?: string): RegistryTarget {
+    const { registry } = this.options;
+    const projectAuth = this.project.registry.auth;
+
+    if (registry && isUrl(registry)) {
+      return this.byUrl(registry, projectAuth);
+    }
+    if (registry === 'npm') {
+      return { url: `${NPM_REGISTRY_PREFIX}${DEFAULT_NPM_REGISTRY}` };
+    }
+    if (registry && !REGISTRY_TYPES.includes(registry)) {
+      return this.named(registry, '--registry');
+    }
+
+    if (installedFrom) {
+      return this.byUrl(installedFrom, this.projectAuthFor(installedFrom));
+    }
+    if (component) {
+      const route = Object.entries(this.project.registry.routes).find(
+        ([pattern]) => matchesRoute(pattern, component)
+      );
+      if (route) {
+        const [pattern, target] = route;
+        return isUrl(target)
+          ? this.byUrl(target, this.projectAuthFor(target))
+          : this.named(target, `route ${pattern}`);
+      }
+    }
+
+    const url = process.env.FETCH_UI_REGISTRY_URL || this.project.registry.url;
+    if (url) {
+      return { url, auth: projectAuth };
+    }
+    if (this.user.defaultRegistry) {
+      return this.named(this.user.defaultRegistry, 'defaultRegistry');
+    }
+    return { url: DEFAULT_REGISTRY_URL, auth: projectAuth };
+  }
+
+  /**
+   * Client for the registry a component comes from. Clients are shared
+   * between components routed to the same registry.
+   */
+  clientFor(component?: string, installedFrom?: string): IRegistry {
+    const target = this.resolve(component, installedFrom);
+    const key = target.name ?? target.url;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = createRegistry(target, this.options.client, this.options.cwd);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Target for a registry given by URL. A configured registry with the
+   * same URL lends its name, auth and timeout; any other URL only gets
+   * `auth`.
+   */
+  private byUrl(url: string, auth?: RegistryAuth): RegistryTarget {
+    const configured = Object.entries(this.user.registries).find(([, entry]) =>
+      sameUrl(entry.url, url)
+    );
+    if (configured) {
+      const [name, entry] = configured;
+      return { name, ...entry };
+    }
+    return auth ? { url, auth } : { url };
+  }
+
+  /**
+   * The project's auth, for its own registry only. URLs from routes and
+   * the lockfile can be changed by anyone editing the project, so they
+   * never get credentials meant for another registry.
+   */
+  private projectAuthFor(url: string): RegistryAuth | undefined {
+    const { url: projectUrl, auth } = this.project.registry;
+    return projectUrl && sameUrl(projectUrl, url) ? auth : undefined;
+  }
+
+  private named(name: string, source: string): RegistryTarget {
+    const entry = this.user.registries[name];
+    if (!entry) {
+      throw new CLIError(
+        'CONFIG_ERROR',
+        `Unknown registry "${name}" (from ${source})`,
+        'Add it with `fetch-ui registry add <name> <url>`'
+      );
+    }
+    return { name, ...entry };
+  }
+}
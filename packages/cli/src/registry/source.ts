@@ -0,0 +1,336 @@
+import {
+  isValidRange,
+  isValidTag,
+  resolveLatest,
+  resolveVersion,
+  sortVersions,
+  UNKNOWN_PUBLISH_TIME,
+} from '@fetch-ui/core';
+import {
+  Component,
+  ComponentDetailResponse,
+  ComponentDetailResponseSchema,
+  ComponentSchema,
+  ComponentVersion,
+  ComponentVersionResponse,
+  ComponentVersionResponseSchema,
+  ComponentVersionSchema,
+  DEFAULT_STYLE,
+  DistTags,
+  DistTagsSchema,
+  SearchResponse,
+  SearchResponseSchema,
+  SearchResult,
+} from '../types/component.js';
+import { IRegistry, SearchQuery } from '../types/registry.js';
+import { CLIError } from '../utils/error.js';
+import { validateResponse } from './client.js';
+
+/**
+ * Raw component data of a registry that is not a server. Everything read
+ * is validated by SourceRegistry, as responses of the server would be.
+ */
+export interface ComponentSource {
+  listComponents(): Promise<string[]>;
+  /** Versions of a component, none if it does not exist */
+  listVersions(name: string): Promise<string[]>;
+  readComponent(name: string, version: string): Promise<unknown>;
+  readDistTags(name: string): Promise<unknown>;
+  /** Publish record of a version, if the source keeps one */
+  readVersionInfo(name: string, version: string): Promise<unknown>;
+}
+
+function availableStyles(component: Component): string[] {
+  return [
+    component.metadata.style ?? DEFAULT_STYLE,
+    ...Object.keys(component.styles ?? {}),
+  ];
+}
+
+/**
+ * Score a result against the search terms, 0 unless all of them occur in
+ * its name, description or tags. Name matches count double.
+ */
+function scoreResult(result: SearchResult, terms: string[]): number {
+  let score = 0;
+  for (const term of terms) {
+    if (result.name.toLowerCase().includes(term)) {
+      score += 2;
+    } else if (
+      [result.description ?? '', ...(result.tags ?? [])].some((text) =>
+        text.toLowerCase().includes(term)
+      )
+    ) {
+      score += 1;
+    } else {
+      return 0;
+    }
+  }
+  return score;
+}
+
+/**
+ * Serves a ComponentSource the way the registry server serves its storage:
+ * dist-tags and ranges are resolved, style variants selected and search
+ * filtered the same way. Sources cannot be published to.
+ */
+export abstract class SourceRegistry implements IRegistry {
+  private loaded?: Promise<ComponentSource>;
+
+  constructor(readonly baseUrl: string) {}
+
+  /**
+   * Prepare the source, e.g. by downloading it. Called once.
+   */
+  protected abstract loadSource(): Promise<ComponentSource>;
+
+  private source(): Promise<ComponentSource> {
+    this.loaded ??= this.loadSource();
+    return this.loaded;
+  }
+
+  async getComponent(
+    name: string,
+    version?: string,
+    style?: string
+  ): Promise<ComponentVersionResponse> {
+    return this.getVersion(name, version ?? 'latest', style);
+  }
+
+  async getVersion(
+    name: string,
+    version: string,
+    style?: string
+  ): Promise<ComponentVersionResponse> {
+    const source = await this.source();
+    const resolved = await this.resolveVersion(source, name, version);
+    const component = await this.readComponent(source, name, resolved);
+
+    const { styles, ...rest } = component;
+    const own = component.metadata.style ?? DEFAULT_STYLE;
+    const selected = style ?? own;
+    const files = selected === own ? rest.files : styles?.[selected]?.files;
+    if (!files) {
+      throw new CLIError(
+        'COMPONENT_NOT_FOUND',
+        `${name}@${resolved} has no "${selected}" style`
+      );
+    }
+
+    const info = await this.readVersionInfo(source, name, resolved);
+    return validateResponse(
+      ComponentVersionResponseSchema,
+      {
+        ...rest,
+        metadata: { ...rest.metadata, ...(selected !== own && { style: selected }) },
+        files,
+        availableStyles: availableStyles(component),
+        ...(info.deprecated && {
+          deprecated: true,
+          deprecationMessage: info.deprecationMessage,
+        }),
+      },
+      `${this.baseUrl} ${name}@${resolved}`
+    );
+  }
+
+  async getDetails(name: string): Promise<ComponentDetailResponse> {
+    const source = await this.source();
+    const latest = await this.resolveVersion(source, name, 'latest');
+    const versions = await this.listVersions(source, name);
+
+    const details = [];
+    for (const version of versions) {
+      details.push(await this.readVersionInfo(source, name, version));
+    }
+    return validateResponse(
+      ComponentDetailResponseSchema,
+      {
+        component: await this.readComponent(source, name, latest),
+        versions: details,
+        distTags: { ...(await this.readDistTags(source, name)), latest },
+      },
+      `${this.baseUrl} ${name}`
+    );
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const source = await this.source();
+    const terms = (query.q ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const wanted = (query.tags ?? []).map((tag) => tag.toLowerCase());
+
+    const results: SearchResult[] = [];
+    for (const name of await source.listComponents()) {
+      const latest = await this.resolveVersion(source, name, 'latest').catch(
+        () => undefined
+      );
+      if (!latest) {
+        continue;
+      }
+      const { metadata, ...component } = await this.readComponent(source, name, latest);
+      const result: SearchResult = {
+        name,
+        latestVersion: latest,
+        description: metadata.description,
+        author: metadata.author,
+        tags: metadata.tags,
+        style: metadata.style,
+        styles: availableStyles({ metadata, ...component }),
+        typescript: metadata.typescript,
+        score: 0,
+      };
+      result.score = terms.length > 0 ? scoreResult(result, terms) : 1;
+      const tags = (result.tags ?? []).map((tag) => tag.toLowerCase());
+      const matches =
+        result.score > 0 &&
+        wanted.every((tag) => tags.includes(tag)) &&
+        (!query.author || result.author === query.author) &&
+        (!query.style || result.styles!.includes(query.style)) &&
+        (query.typescript === undefined ||
+          (result.typescript ?? false) === query.typescript);
+      if (matches) {
+        results.push(result);
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    const facets = { tags: {} as Record<string, number>, styles: {} as Record<string, number> };
+    for (const result of results) {
+      // Counted in lower case, as tags are matched case-insensitively
+      const tags = new Set((result.tags ?? []).map((tag) => tag.toLowerCase()));
+      for (const tag of tags) {
+        facets.tags[tag] = (facets.tags[tag] ?? 0) + 1;
+      }
+      for (const style of result.styles ?? []) {
+        facets.styles[style] = (facets.styles[style] ?? 0) + 1;
+      }
+    }
+
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 10;
+    return validateResponse(
+      SearchResponseSchema,
+      {
+        results: results.slice((page - 1) * pageSize, page * pageSize),
+        total: results.length,
+        page,
+        pageSize,
+        facets,
+      },
+      `${this.baseUrl} search`
+    );
+  }
+
+  async publish(component: Component): Promise<Component> {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Cannot publish ${component.metadata.name} to ${this.baseUrl}`,
+      'Publish to a registry server, or add the component to the source directly'
+    );
+  }
+
+  async health(): Promise<void> {
+    await this.source();
+  }
+
+  private async listVersions(
+    source: ComponentSource,
+    name: string
+  ): Promise<string[]> {
+    return sortVersions(await source.listVersions(name));
+  }
+
+  /**
+   * Resolve a dist-tag, exact version or range the way the server does:
+   * tags first, and `latest` defaults to the highest stable version, or the
+   * highest prerelease when there is none
+   */
+  private async resolveVersion(
+    source: ComponentSource,
+    name: string,
+    spec: string
+  ): Promise<string> {
+    const versions = await this.listVersions(source, name);
+    if (versions.length === 0) {
+      throw new CLIError(
+        'COMPONENT_NOT_FOUND',
+        `${name} was not found in ${this.baseUrl}`
+      );
+    }
+
+    if (isValidTag(spec)) {
+      const tags = await this.readDistTags(source, name);
+      const tagged =
+        spec === 'latest' ? resolveLatest(tags, versions) : tags[spec];
+      if (!tagged) {
+        throw new CLIError(
+          'COMPONENT_NOT_FOUND',
+          `${name} has no dist-tag "${spec}" in ${this.baseUrl}`
+        );
+      }
+      return tagged;
+    }
+    if (!isValidRange(spec)) {
+      throw new CLIError(
+        'INVALID_COMPONENT',
+        `"${spec}" is not a valid version or range`
+      );
+    }
+
+    const resolved = resolveVersion(versions, spec);
+    if (!resolved) {
+      throw new CLIError(
+        'COMPONENT_NOT_FOUND',
+        `No version of ${name} matches ${spec} in ${this.baseUrl}`
+      );
+    }
+    return resolved;
+  }
+
+  private async readComponent(
+    source: ComponentSource,
+    name: string,
+    version: string
+  ): Promise<Component> {
+    return validateResponse(
+      ComponentSchema,
+      await source.readComponent(name, version),
+      `${this.baseUrl} ${name}@${version}`
+    );
+  }
+
+  private async readDistTags(
+    source: ComponentSource,
+    name: string
+  ): Promise<DistTags> {
+    return validateResponse(
+      DistTagsSchema,
+      (await source.readDistTags(name)) ?? {},
+      `${this.baseUrl} ${name} dist-tags`
+    );
+  }
+
+  /**
+   * Versions without a publish record are dated UNKNOWN_PUBLISH_TIME, as on
+   * the server
+   */
+  private async readVersionInfo(
+    source: ComponentSource,
+    name: string,
+    version: string
+  ): Promise<ComponentVersion> {
+    const info = await source.readVersionInfo(name, version);
+    if (info === undefined) {
+      return {
+        version,
+        createdAt: UNKNOWN_PUBLISH_TIME,
+        updatedAt: UNKNOWN_PUBLISH_TIME,
+      };
+    }
+    return validateResponse(
+      ComponentVersionSchema,
+      info,
+      `${this.baseUrl} ${name}@${version} version info`
+    );
+  }
+}
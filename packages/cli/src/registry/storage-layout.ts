@@ -0,0 +1,61 @@
+import fs from 'fs-extra';
+import { join } from 'path';
+import { COMPONENT_NAME_PATTERN } from '../types/component.js';
+import { ComponentSource } from './source.js';
+
+async function listDirs(path: string): Promise<string[]> {
+  const entries = await fs.readdir(path, { withFileTypes: true }).catch(() => []);
+  return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+}
+
+async function readJsonIfExists(path: string): Promise<unknown> {
+  return (await fs.pathExists(path)) ? fs.readJson(path) : undefined;
+}
+
+/**
+ * Reads components from a directory laid out like the registry's
+ * FilesystemStorage: components/<name>/<version>/component.json, with
+ * dist-tags.json next to the versions and version.json next to each
+ * component.json. Scoped components live under components/@scope/<name>.
+ */
+export class StorageLayoutSource implements ComponentSource {
+  constructor(private readonly root: string) {}
+
+  private componentDir(name: string): string | undefined {
+    // Names are checked so they cannot point outside of components/
+    return COMPONENT_NAME_PATTERN.test(name)
+      ? join(this.root, 'components', ...name.split('/'))
+      : undefined;
+  }
+
+  async listComponents(): Promise<string[]> {
+    const names: string[] = [];
+    for (const entry of await listDirs(join(this.root, 'components'))) {
+      if (entry.startsWith('@')) {
+        for (const name of await listDirs(join(this.root, 'components', entry))) {
+          names.push(`${entry}/${name}`);
+        }
+      } else {
+        names.push(entry);
+      }
+    }
+    return names.sort();
+  }
+
+  async listVersions(name: string): Promise<string[]> {
+    const dir = this.componentDir(name);
+    return dir ? listDirs(dir) : [];
+  }
+
+  async readComponent(name: string, version: string): Promise<unknown> {
+    return fs.readJson(join(this.componentDir(name)!, version, 'component.json'));
+  }
+
+  async readDistTags(name: string): Promise<unknown> {
+    return readJsonIfExists(join(this.componentDir(name)!, 'dist-tags.json'));
+  }
+
+  async readVersionInfo(name: string, version: string): Promise<unknown> {
+    return readJsonIfExists(join(this.componentDir(name)!, version, 'version.json'));
+  }
+}
@@ -0,0 +1,44 @@
+import { rewriteImports } from "./imports.js";
+
+const upper = (specifier: string) =>
+  specifier.startsWith("@/") ? specifier.toUpperCase() : specifier;
+
+describe("rewriteImports", () => {
+  test("rewrites imports, re-exports and dynamic imports", () => {
+    const source = [
+      'import { cn } from "@/lib/utils";',
+      "import type { Props } from '@/types';",
+      'export { Button } from "@/components/button";',
+      'const Dialog = () => import("@/components/dialog");',
+      "",
+    ].join("\n");
+
+    expect(rewriteImports(source, "index.ts", upper)).toBe(
+      [
+        'import { cn } from "@/LIB/UTILS";',
+        "import type { Props } from '@/TYPES';",
+        'export { Button } from "@/COMPONENTS/BUTTON";',
+        'const Dialog = () => import("@/COMPONENTS/DIALOG");',
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("leaves strings that are not module specifiers alone", () => {
+    const source = [
+      'import * as React from "react";',
+      "// see @/lib/utils",
+      'const path = "@/lib/utils";',
+      "export const Button = () => <button data-path={path} />;",
+    ].join("\n");
+
+    expect(rewriteImports(source, "button.tsx", upper)).toBe(source);
+  });
+
+  test("keeps formatting and comments when rewriting", () => {
+    const source = "import {\n  cn, // classes\n} from '@/lib/utils'\n";
+    expect(rewriteImports(source, "index.js", upper)).toBe(
+      "import {\n  cn, // classes\n} from '@/LIB/UTILS'\n"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  Node,
+  Project,
+  SourceFile,
+  StringLiteral,
+  SyntaxKind,
+  ts,
+} from 'ts-morph';
+
+// Parsed files are thrown away after each rewrite, one project is enough
+const project = new Project({
+  useInMemoryFileSystem: true,
+  compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+});
+
+function moduleSpecifiers(file: SourceFile): StringLiteral[] {
+  const literals: StringLiteral[] = [];
+  for (const declaration of file.getImportDeclarations()) {
+    literals.push(declaration.getModuleSpecifier());
+  }
+  for (const declaration of file.getExportDeclarations()) {
+    const specifier = declaration.getModuleSpecifier();
+    if (specifier) {
+      literals.push(specifier);
+    }
+  }
+  // import('...') calls
+  for (const call of file.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const [argument] = call.getArguments();
+    if (
+      call.getExpression().getKind() === SyntaxKind.ImportKeyword &&
+      Node.isStringLiteral(argument)
+    ) {
+      literals.push(argument);
+    }
+  }
+  return literals;
+}
+
+/**
+ * Rewrite the module specifiers of a JavaScript or TypeScript file's
+ * imports, re-exports and dynamic imports. Everything else in the file,
+ * including formatting and comments, is left untouched.
+ * @param fileName Used to pick the parser (`.tsx`, `.js`, ...)
+ */
+export function rewriteImports(
+  source: string,
+  fileName: string,
+  rewrite: (specifier: string) => string
+): string {
+  const file = project.createSourceFile(fileName, source, { overwrite: true });
+  try {
+    let changed = false;
+    for (const literal of moduleSpecifiers(file)) {
+      const specifier = literal.getLiteralValue();
+      const rewritten = rewrite(specifier);
+      if (rewritten !== specifier) {
+        literal.setLiteralValue(rewritten);
+        changed = true;
+      }
+    }
+    return changed ? file.getFullText() : source;
+  } finally {
+    project.removeSourceFile(file);
+  }
+}
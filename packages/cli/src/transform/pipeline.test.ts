@@ -0,0 +1,180 @@
+import fs from "fs-extra";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TransformPipeline } from "./pipeline.js";
+import { matchesAlias, readImportAliases } from "./tsconfig.js";
+import { ProjectConfigInput, ProjectConfigSchema } from "../config/schema.js";
+import { Component } from "../types/component.js";
+import { CLIError } from "../utils/error.js";
+
+function makeConfig(input: ProjectConfigInput = {}) {
+  return ProjectConfigSchema.parse(input);
+}
+
+const component: Component = {
+  metadata: { name: "dialog", version: "1.0.0" },
+  files: [
+    {
+      path: "index.tsx",
+      content: [
+        'import { cn } from "@/lib/utils";',
+        'import { Button } from "@/components/button";',
+        'import styles from "./dialog.module.css";',
+        "",
+      ].join("\n"),
+      type: "typescript",
+    },
+    {
+      path: "parts/title.tsx",
+      content: 'export { Label } from "@/components/label/label";\n',
+      type: "typescript",
+    },
+    {
+      path: "dialog.module.css",
+      content: ".root { color: var(--primary); }\n",
+      type: "css",
+    },
+  ],
+};
+
+function contentOf(result: Component, path: string): string {
+  return result.files.find((file) => file.path === path)!.content;
+}
+
+describe("TransformPipeline", () => {
+  test("rewrites component and utils imports to the configured prefixes", () => {
+    const pipeline = new TransformPipeline(
+      makeConfig({
+        components: { path: "src/components/ui", prefix: "@/components/ui" },
+        utils: { prefix: "@/utils/cn" },
+      }),
+      ["@/*"]
+    );
+
+    const result = pipeline.transform(component, "src/components/ui/dialog");
+    expect(contentOf(result, "index.tsx")).toBe(
+      [
+        'import { cn } from "@/utils/cn";',
+        'import { Button } from "@/components/ui/button";',
+        'import styles from "./dialog.module.css";',
+        "",
+      ].join("\n")
+    );
+    expect(contentOf(result, "parts/title.tsx")).toBe(
+      'export { Label } from "@/components/ui/label/label";\n'
+    );
+  });
+
+  test("uses relative component imports when the prefix is not an alias", () => {
+    const pipeline = new TransformPipeline(
+      makeConfig({ components: { path: "src/ui" } }),
+      []
+    );
+
+    const result = pipeline.transform(component, "src/ui/dialog");
+    expect(contentOf(result, "index.tsx")).toContain(
+      'import { Button } from "../button";'
+    );
+    expect(contentOf(result, "parts/title.tsx")).toBe(
+      'export { Label } from "../../label/label";\n'
+    );
+  });
+
+  test("applies the transform rules from the config", () => {
+    const pipeline = new TransformPipeline(
+      makeConfig({
+        transforms: [
+          { type: "import", pattern: "\\.module\\.css$", replace: ".css" },
+          { type: "style", pattern: "--primary", replace: "--brand" },
+          { type: "tsx", pattern: "Button", replace: "Action" },
+        ],
+      }),
+      ["@/*"]
+    );
+
+    const result = pipeline.transform(component, "components/dialog");
+    expect(contentOf(result, "index.tsx")).toBe(
+      [
+        'import { cn } from "@/lib/utils";',
+        'import { Action } from "@/components/button";',
+        'import styles from "./dialog.css";',
+        "",
+      ].join("\n")
+    );
+    expect(contentOf(result, "dialog.module.css")).toBe(
+      ".root { color: var(--brand); }\n"
+    );
+  });
+
+  test("runs registered transformers after the built-in ones", () => {
+    const pipeline = new TransformPipeline(makeConfig(), ["@/*"]).use({
+      name: "banner",
+      transform: (file) => ({ ...file, content: `// added\n${file.content}` }),
+    });
+
+    const result = pipeline.transform(component, "components/dialog");
+    expect(contentOf(result, "dialog.module.css")).toMatch(/^\/\/ added\n/);
+  });
+
+  test("reports failing transformers as transform errors", () => {
+    const pipeline = new TransformPipeline(makeConfig()).use({
+      name: "broken",
+      transform: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(() => pipeline.transform(component, "components/dialog")).toThrow(
+      new CLIError(
+        "TRANSFORM_ERROR",
+        "broken failed on dialog/index.tsx: boom"
+      )
+    );
+  });
+
+  test("rejects invalid transform rules in the config", () => {
+    expect(() =>
+      makeConfig({ transforms: [{ type: "style", pattern: "(", replace: "" }] })
+    ).toThrow("Must be a valid regular expression");
+  });
+});
+
+describe("tsconfig aliases", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(join(tmpdir(), "fetch-ui-transform-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cwd);
+  });
+
+  test("reads paths from tsconfig.json, including extended configs", async () => {
+    await fs.writeFile(
+      join(cwd, "tsconfig.base.json"),
+      '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }'
+    );
+    await fs.writeFile(
+      join(cwd, "tsconfig.json"),
+      '{\n  // shared settings\n  "extends": "./tsconfig.base",\n}\n'
+    );
+
+    expect(await readImportAliases(cwd)).toEqual(["@/*"]);
+  });
+
+  test("falls back to jsconfig.json and to no aliases", async () => {
+    expect(await readImportAliases(cwd)).toEqual([]);
+
+    await fs.writeJson(join(cwd, "jsconfig.json"), {
+      compilerOptions: { paths: { "~/*": ["./*"] } },
+    });
+    expect(await readImportAliases(cwd)).toEqual(["~/*"]);
+  });
+
+  test("matches specifiers against wildcard and exact aliases", () => {
+    expect(matchesAlias("@/components/button", ["@/*"])).toBe(true);
+    expect(matchesAlias("@/lib/utils", ["@/lib/utils"])).toBe(true);
+    expect(matchesAlias("~/components/button", ["@/*"])).toBe(false);
+  });
+});
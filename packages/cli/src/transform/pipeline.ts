@@ -0,0 +1,183 @@
+import { posix } from 'path';
+import { ProjectConfig, TransformRule } from '../config/schema.js';
+import { Component, ComponentFile } from '../types/component.js';
+import { CLIError } from '../utils/error.js';
+import { rewriteImports } from './imports.js';
+import { matchesAlias, readImportAliases } from './tsconfig.js';
+
+// Registry components import each other and the shared utils through these
+export const REGISTRY_COMPONENTS_PREFIX = '@/components';
+export const REGISTRY_UTILS_PREFIX = '@/lib/utils';
+
+export interface TransformContext {
+  config: ProjectConfig;
+  /** Import aliases declared in the project's tsconfig.json */
+  aliases: string[];
+  /** Directory the component is installed to, relative to the project */
+  installPath: string;
+}
+
+export interface Transformer {
+  name: string;
+  transform(file: ComponentFile, context: TransformContext): ComponentFile;
+}
+
+function isScript(file: ComponentFile): boolean {
+  return file.type === 'typescript' || file.type === 'javascript';
+}
+
+/**
+ * Replace a registry import prefix, keeping whatever follows it
+ */
+function replacePrefix(
+  specifier: string,
+  from: string,
+  to: string
+): string | undefined {
+  if (specifier === from) {
+    return to;
+  }
+  if (specifier.startsWith(`${from}/`)) {
+    return to + specifier.slice(from.length);
+  }
+  return undefined;
+}
+
+function toRelativeImport(fromDir: string, target: string): string {
+  const path = posix.relative(fromDir, target);
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+/**
+ * Point imports of other components and of the utils module at the
+ * project's configured prefixes. When the components prefix is not an
+ * alias the project's tsconfig.json knows about, component imports become
+ * relative paths into the components directory instead.
+ */
+export const importPathTransformer: Transformer = {
+  name: 'import-paths',
+  transform(file, { config, aliases, installPath }) {
+    if (!isScript(file)) {
+      return file;
+    }
+    const fileDir = posix.dirname(posix.join(installPath, file.path));
+
+    const rewrite = (specifier: string): string => {
+      const utils = replacePrefix(
+        specifier,
+        REGISTRY_UTILS_PREFIX,
+        config.utils.prefix
+      );
+      if (utils !== undefined) {
+        return utils;
+      }
+
+      const component = replacePrefix(
+        specifier,
+        REGISTRY_COMPONENTS_PREFIX,
+        config.components.prefix
+      );
+      if (component === undefined) {
+        return specifier;
+      }
+      if (matchesAlias(component, aliases)) {
+        return component;
+      }
+      const target = posix.join(
+        config.components.path,
+        specifier.slice(REGISTRY_COMPONENTS_PREFIX.length)
+      );
+      return toRelativeImport(fileDir, target);
+    };
+
+    return { ...file, content: rewriteImports(file.content, file.path, rewrite) };
+  },
+};
+
+function compileRule(rule: TransformRule): (text: string) => string {
+  const pattern = new RegExp(rule.pattern, rule.flags);
+  return (text) => text.replace(pattern, rule.replace);
+}
+
+function ruleApplies(rule: TransformRule, file: ComponentFile): boolean {
+  switch (rule.type) {
+    case 'style':
+      return ['css', 'scss', 'less'].includes(file.type);
+    case 'jsx':
+      return file.type === 'javascript';
+    case 'tsx':
+      return file.type === 'typescript';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply the `transforms` rules from fetch-ui.json
+ */
+export const configRulesTransformer: Transformer = {
+  name: 'config-rules',
+  transform(file, { config }) {
+    let { content } = file;
+    for (const rule of config.transforms) {
+      const apply = compileRule(rule);
+      if (rule.type === 'import' && isScript(file)) {
+        content = rewriteImports(content, file.path, apply);
+      } else if (ruleApplies(rule, file)) {
+        content = apply(content);
+      }
+    }
+    return content === file.content ? file : { ...file, content };
+  },
+};
+
+/**
+ * Adapts component files to the project before they are written. The
+ * built-in transformers run first, then any registered with `use`.
+ */
+export class TransformPipeline {
+  private readonly transformers: Transformer[] = [
+    importPathTransformer,
+    configRulesTransformer,
+  ];
+
+  constructor(
+    private readonly config: ProjectConfig,
+    private readonly aliases: string[] = []
+  ) {}
+
+  /**
+   * Create a pipeline for a project, reading its tsconfig.json aliases
+   */
+  static async load(cwd: string, config: ProjectConfig): Promise<TransformPipeline> {
+    return new TransformPipeline(config, await readImportAliases(cwd));
+  }
+
+  use(transformer: Transformer): this {
+    this.transformers.push(transformer);
+    return this;
+  }
+
+  transform(component: Component, installPath: string): Component {
+    const context: TransformContext = {
+      config: this.config,
+      aliases: this.aliases,
+      installPath,
+    };
+    const files = component.files.map((file) => {
+      let result = file;
+      for (const transformer of this.transformers) {
+        try {
+          result = transformer.transform(result, context);
+        } catch (error) {
+          throw new CLIError(
+            'TRANSFORM_ERROR',
+            `${transformer.name} failed on ${component.metadata.name}/${file.path}: ${(error as Error).message}`
+          );
+        }
+      }
+      return result;
+    });
+    return { ...component, files };
+  }
+}
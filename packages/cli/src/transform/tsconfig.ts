@@ -0,0 +1,72 @@
+import fs from 'fs-extra';
+import { dirname, join, resolve } from 'path';
+import { ts } from 'ts-morph';
+import { CLIError } from '../utils/error.js';
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+async function resolveExtends(from: string, spec: string): Promise<string> {
+  const path = resolve(dirname(from), spec);
+  // The .json extension may be left out
+  return (await fs.pathExists(path)) ? path : `${path}.json`;
+}
+
+async function readCompilerPaths(
+  path: string,
+  seen: string[]
+): Promise<Record<string, string[]>> {
+  if (seen.includes(path)) {
+    return {};
+  }
+  // tsconfig.json allows comments and trailing commas
+  const { config, error } = ts.readConfigFile(path, ts.sys.readFile);
+  if (error) {
+    throw new CLIError(
+      'CONFIG_ERROR',
+      `Could not read ${path}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`
+    );
+  }
+
+  // Only relative extends are followed, package configs rarely set paths
+  const base =
+    typeof config.extends === 'string' && config.extends.startsWith('.')
+      ? await readCompilerPaths(await resolveExtends(path, config.extends), [
+          ...seen,
+          path,
+        ])
+      : {};
+  return config.compilerOptions?.paths ?? base;
+}
+
+/**
+ * Read the import aliases (`compilerOptions.paths` patterns such as `@/*`)
+ * of the project's tsconfig.json, or jsconfig.json for JavaScript projects
+ */
+export async function readImportAliases(cwd: string): Promise<string[]> {
+  for (const file of CONFIG_FILES) {
+    const path = join(cwd, file);
+    if (await fs.pathExists(path)) {
+      return Object.keys(await readCompilerPaths(path, []));
+    }
+  }
+  return [];
+}
+
+/**
+ * Check whether an import specifier is covered by one of the aliases
+ */
+export function matchesAlias(specifier: string, aliases: string[]): boolean {
+  return aliases.some((alias) => {
+    const star = alias.indexOf('*');
+    if (star === -1) {
+      return specifier === alias;
+    }
+    const prefix = alias.slice(0, star);
+    const suffix = alias.slice(star + 1);
+    return (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    );
+  });
+}
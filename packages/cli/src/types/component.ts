@@ -0,0 +1,33 @@
+// The registry API schemas, shared with the registry server through
+// @fetch-ui/core
+export {
+  APIErrorSchema,
+  COMPONENT_NAME_PATTERN,
+  ComponentDetailResponseSchema,
+  ComponentFileSchema,
+  ComponentListResponseSchema,
+  ComponentMetadataSchema,
+  ComponentSchema,
+  ComponentVersionResponseSchema,
+  ComponentVersionSchema,
+  DEFAULT_STYLE,
+  DistTagsSchema,
+  SearchResponseSchema,
+  SearchResultSchema,
+  STYLE_NAME_PATTERN,
+  StyleVariantSchema,
+} from '@fetch-ui/core';
+export type {
+  APIError,
+  Component,
+  ComponentDetailResponse,
+  ComponentFile,
+  ComponentListResponse,
+  ComponentMetadata,
+  ComponentVersion,
+  ComponentVersionResponse,
+  DistTags,
+  SearchResponse,
+  SearchResult,
+  StyleVariant,
+} from '@fetch-ui/core';
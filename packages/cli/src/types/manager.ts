@@ -1,17 +1,82 @@
 import { z } from "zod";
 
+export const InstalledFileSchema = z.object({
+  path: z.string(),
+  hash: z.string(),
+});
+
+export type InstalledFile = z.infer<typeof InstalledFileSchema>;
+
 export const InstalledComponentSchema = z.object({
   name: z.string(),
   version: z.string(),
   installPath: z.string(),
+  registry: z.string(),
+  files: z.array(InstalledFileSchema),
   dependencies: z.record(z.string()).optional(),
+  componentDependencies: z.record(z.string()).optional(),
+  style: z.string().optional(),
 });
 
 export type InstalledComponent = z.infer<typeof InstalledComponentSchema>;
 
+export const ManifestSchema = z.object({
+  lockfileVersion: z.literal(1),
+  components: z.record(InstalledComponentSchema),
+});
+
+export type ManifestData = z.infer<typeof ManifestSchema>;
+
+export interface FileChange {
+  type: "added" | "modified" | "removed";
+  path: string;
+}
+
+export interface UpdateCheck {
+  component: string;
+  currentVersion: string;
+  latestVersion: string;
+  hasUpdate: boolean;
+  /** Differences between the installed and the new version */
+  changes: FileChange[];
+  /** Installed files the user has edited since installing */
+  localChanges: string[];
+}
+
+export interface UpdateComponentOptions {
+  /** Save the current files before changing anything */
+  backup?: boolean;
+}
+
+export interface UpdateResult extends UpdateCheck {
+  installed: InstalledComponent;
+  /** Locally edited files merged with the new version */
+  merged: string[];
+  /** Merged files that were written with conflict markers */
+  conflicts: string[];
+  /** Locally edited files the new version dropped, left in place */
+  kept: string[];
+  backupPath?: string;
+}
+
+export interface Backup {
+  timestamp: string;
+  component: string;
+  version: string;
+  files: {
+    path: string;
+    content: string;
+  }[];
+}
+
 export interface IComponentManager {
-  installComponent(name: string, version?: string): Promise<void>;
+  installComponent(name: string, version?: string): Promise<InstalledComponent>;
   uninstallComponent(name: string): Promise<void>;
   listInstalledComponents(): Promise<InstalledComponent[]>;
-  updateComponent(name: string, version: string): Promise<void>;
+  checkUpdate(name: string, version?: string): Promise<UpdateCheck>;
+  updateComponent(
+    name: string,
+    version?: string,
+    options?: UpdateComponentOptions
+  ): Promise<UpdateResult>;
 }
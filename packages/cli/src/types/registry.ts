@@ -0,0 +1,38 @@
+import type { SearchQuery } from '@fetch-ui/core';
+import {
+  Component,
+  ComponentDetailResponse,
+  ComponentVersionResponse,
+  SearchResponse,
+} from './component.js';
+
+export type { SearchQuery };
+
+/**
+ * A source of components: the registry server over HTTP, or an adapter
+ * reading components from somewhere else
+ */
+export interface IRegistry {
+  /** Where components come from, as recorded in the manifest */
+  readonly baseUrl: string;
+  /**
+   * Fetch a component, using the latest version when none is given. With a
+   * style, that style variant's files are returned.
+   */
+  getComponent(
+    name: string,
+    version?: string,
+    style?: string
+  ): Promise<ComponentVersionResponse>;
+  getDetails(name: string): Promise<ComponentDetailResponse>;
+  /** Fetch a version, range or dist-tag */
+  getVersion(
+    name: string,
+    version: string,
+    style?: string
+  ): Promise<ComponentVersionResponse>;
+  search(query: SearchQuery): Promise<SearchResponse>;
+  publish(component: Component, tag?: string): Promise<Component>;
+  /** Resolve if the registry can be used, throw otherwise */
+  health(): Promise<void>;
+}
@@ -0,0 +1,92 @@
+import chalk from 'chalk';
+import { structuredPatch } from 'diff';
+
+export interface DiffFile {
+  path: string;
+  content: string;
+}
+
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  /** Unified diff of the file */
+  patch: string;
+}
+
+function formatPatch(
+  path: string,
+  from: string,
+  to: string,
+  labels: [string, string]
+): string {
+  const { hunks } = structuredPatch(path, path, from, to, '', '', {
+    context: 3,
+  });
+  const lines = [`--- a/${path}\t${labels[0]}`, `+++ b/${path}\t${labels[1]}`];
+  for (const hunk of hunks) {
+    lines.push(
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Unified diffs of every file that differs between two file sets
+ * @param labels Describe the two sides, e.g. `button@1.0.0` and `local`
+ */
+export function diffFiles(
+  from: DiffFile[],
+  to: DiffFile[],
+  labels: [string, string]
+): FileDiff[] {
+  const before = new Map(from.map((file) => [file.path, file.content]));
+  const after = new Map(to.map((file) => [file.path, file.content]));
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  const diffs: FileDiff[] = [];
+  for (const path of paths) {
+    const old = before.get(path);
+    const current = after.get(path);
+    if (old === current) {
+      continue;
+    }
+    let status: FileDiff['status'] = 'modified';
+    if (old === undefined) {
+      status = 'added';
+    } else if (current === undefined) {
+      status = 'removed';
+    }
+    diffs.push({
+      path,
+      status,
+      patch: formatPatch(path, old ?? '', current ?? '', labels),
+    });
+  }
+  return diffs;
+}
+
+/**
+ * Color a unified diff for the terminal
+ */
+export function colorizePatch(patch: string): string {
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('---') || line.startsWith('+++')) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith('@@')) {
+        return chalk.cyan(line);
+      }
+      if (line.startsWith('+')) {
+        return chalk.green(line);
+      }
+      if (line.startsWith('-')) {
+        return chalk.red(line);
+      }
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,20 @@
+export type ErrorCode =
+  | 'REGISTRY_UNREACHABLE'
+  | 'COMPONENT_NOT_FOUND'
+  | 'INVALID_COMPONENT'
+  | 'DEPENDENCY_ERROR'
+  | 'TRANSFORM_ERROR'
+  | 'FILE_SYSTEM_ERROR'
+  | 'CONFIG_ERROR'
+  | 'NETWORK_ERROR';
+
+export class CLIError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public suggestion?: string
+  ) {
+    super(message);
+    this.name = 'CLIError';
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Human readable size of a byte count
+ */
+export function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
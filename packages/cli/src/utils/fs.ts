@@ -0,0 +1,44 @@
+import fs from 'fs-extra';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { CLIError } from './error.js';
+
+/**
+ * Resolve a relative path against a root directory, rejecting paths that
+ * would escape it
+ */
+export function resolveInside(root: string, path: string): string {
+  const fullPath = resolve(root, path);
+  const rel = relative(root, fullPath);
+  const escapes =
+    rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel);
+  if (isAbsolute(path) || rel === '' || escapes) {
+    throw new CLIError(
+      'FILE_SYSTEM_ERROR',
+      `Path ${path} resolves outside of ${root}`
+    );
+  }
+  return fullPath;
+}
+
+/**
+ * Remove empty directories from `dir` upwards, stopping at `root`
+ */
+export async function removeEmptyDirs(dir: string, root: string): Promise<void> {
+  let current = resolve(dir);
+  const stop = resolve(root);
+  while (current !== stop && current.startsWith(`${stop}${sep}`)) {
+    const entries = await fs.readdir(current).catch(() => null);
+    if (entries === null || entries.length > 0) {
+      return;
+    }
+    await fs.rmdir(current);
+    current = dirname(current);
+  }
+}
+
+/**
+ * Path relative to `root` using forward slashes, as recorded in manifests
+ */
+export function toPosixRelative(root: string, path: string): string {
+  return relative(root, path).split(sep).join('/');
+}
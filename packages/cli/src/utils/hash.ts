@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+/**
+ * Content hash recorded for installed files
+ */
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash('sha256').update(content).digest('hex')}`;
+}
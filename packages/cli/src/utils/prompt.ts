@@ -0,0 +1,29 @@
+import { createInterface } from 'readline/promises';
+
+export interface Prompter {
+  text(question: string, defaultValue: string): Promise<string>;
+  confirm(question: string, defaultValue: boolean): Promise<boolean>;
+  close(): void;
+}
+
+/**
+ * Line-based prompts on stdin/stdout
+ */
+export function createPrompter(): Prompter {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+  return {
+    async text(question, defaultValue) {
+      const answer = await rl.question(`${question} (${defaultValue}) `);
+      return answer.trim() || defaultValue;
+    },
+    async confirm(question, defaultValue) {
+      const hint = defaultValue ? 'Y/n' : 'y/N';
+      const answer = (await rl.question(`${question} (${hint}) `)).trim();
+      return answer === '' ? defaultValue : /^y(es)?$/i.test(answer);
+    },
+    close() {
+      rl.close();
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs-extra';
+import { dirname } from 'path';
+import { gunzipSync } from 'zlib';
+import { CLIError } from './error.js';
+import { resolveInside } from './fs.js';
+
+const BLOCK_SIZE = 512;
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  return parseInt(readString(block, offset, length).trim() || '0', 8);
+}
+
+// Pax extended headers are "<length> <key>=<value>\n" records
+function readPaxPath(data: Buffer): string | undefined {
+  for (const record of data.toString('utf-8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the regular files of a tar archive, gzipped or not, into `dir`.
+ * The first `strip` path segments are dropped, like tar's
+ * --strip-components. Links and other special entries are skipped, and
+ * entries that would land outside of `dir` are rejected.
+ */
+export async function extractTarball(
+  archive: Buffer,
+  dir: string,
+  strip = 0
+): Promise<void> {
+  let data: Buffer;
+  try {
+    data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  } catch (error) {
+    throw new CLIError(
+      'FILE_SYSTEM_ERROR',
+      `Could not decompress archive: ${(error as Error).message}`
+    );
+  }
+
+  let nextPath: string | undefined;
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'x' || type === 'L') {
+      nextPath = type === 'x' ? readPaxPath(body) : readString(body, 0, size);
+      continue;
+    }
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+    nextPath = undefined;
+
+    // '0' and NUL are regular files, everything else is left out
+    const segments = path.split('/').filter(Boolean).slice(strip);
+    if ((type !== '0' && type !== '\0') || segments.length === 0) {
+      continue;
+    }
+    const target = resolveInside(dir, segments.join('/'));
+    await fs.ensureDir(dirname(target));
+    await fs.writeFile(target, body);
+  }
+}
@@ -0,0 +1,14 @@
+import { ZodError } from 'zod';
+
+/**
+ * Render zod issues as a single readable line
+ */
+export function formatZodIssues(error: ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message
+    )
+    .join(', ');
+}
@@ -0,0 +1,70 @@
+import type { ZodIssue } from 'zod';
+
+/**
+ * Base class of every error thrown by RegistryClient
+ */
+export class RegistryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RegistryError';
+  }
+}
+
+/**
+ * The registry answered with an error. `code` is the API error code
+ * (COMPONENT_NOT_FOUND, VERSION_CONFLICT, ...), or HTTP_<status> when the
+ * response was not an API error.
+ */
+export class RegistryAPIError extends RegistryError {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'RegistryAPIError';
+  }
+}
+
+/**
+ * The registry could not be reached
+ */
+export class RegistryNetworkError extends RegistryError {
+  constructor(
+    readonly url: string,
+    cause: unknown
+  ) {
+    super(`Could not reach ${url}`, { cause });
+    this.name = 'RegistryNetworkError';
+  }
+}
+
+/**
+ * The registry did not answer within the timeout
+ */
+export class RegistryTimeoutError extends RegistryError {
+  constructor(
+    readonly url: string,
+    readonly timeout: number
+  ) {
+    super(`${url} did not respond within ${timeout}ms`);
+    this.name = 'RegistryTimeoutError';
+  }
+}
+
+/**
+ * The registry answered with a body that does not match the API schema
+ */
+export class RegistryResponseError extends RegistryError {
+  constructor(
+    readonly url: string,
+    readonly issues: ZodIssue[]
+  ) {
+    const summary = issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid response from ${url}: ${summary}`);
+    this.name = 'RegistryResponseError';
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  RegistryAPIError,
+  RegistryNetworkError,
+  RegistryResponseError,
+  RegistryTimeoutError,
+} from "./errors.js";
+import { RegistryClient } from "./registry-client.js";
+
+const component = {
+  metadata: { name: "button", version: "1.0.0" },
+  files: [{ path: "button.tsx", content: "export {}", type: "typescript" }],
+};
+
+function mockResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  } as Response;
+}
+
+describe("RegistryClient", () => {
+  let fetch: jest.Mock;
+  let client: RegistryClient;
+
+  beforeEach(() => {
+    fetch = jest.fn();
+    client = new RegistryClient({
+      baseUrl: "http://registry.test/",
+      auth: { type: "bearer", token: "secret" },
+      retryDelay: 1,
+      fetch,
+    });
+  });
+
+  test("builds request URLs and sends the token", async () => {
+    fetch.mockResolvedValue(mockResponse(200, { ...component, availableStyles: ["default"] }));
+
+    await client.getVersion("@acme/button", "^1.0.0", "minimal");
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(
+      "http://registry.test/components/%40acme%2Fbutton/versions/%5E1.0.0?style=minimal"
+    );
+    expect(init.headers).toMatchObject({ authorization: "Bearer secret" });
+  });
+
+  test("sends search and list queries", async () => {
+    const facets = { tags: {}, styles: {} };
+    fetch
+      .mockResolvedValueOnce(
+        mockResponse(200, { results: [], total: 0, page: 2, pageSize: 10, facets })
+      )
+      .mockResolvedValueOnce(mockResponse(200, { components: [], total: 0 }));
+
+    await client.search({ q: "button", tags: ["form", "input"], typescript: true, page: 2 });
+    await client.list({ page: 3 });
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "http://registry.test/components/search?q=button&tags=form%2Cinput&typescript=true&page=2",
+      "http://registry.test/components?page=3",
+    ]);
+  });
+
+  test("publishes and deprecates", async () => {
+    const version = { version: "1.0.0", createdAt: "2024-01-01", updatedAt: "2024-01-02" };
+    fetch
+      .mockResolvedValueOnce(mockResponse(201, component))
+      .mockResolvedValueOnce(mockResponse(200, { ...version, deprecated: true }));
+
+    await expect(client.publish(component as never, "next")).resolves.toEqual(component);
+    await expect(client.deprecate("button", "1.0.0", "Use 2.0.0")).resolves.toMatchObject({
+      deprecated: true,
+    });
+
+    const [[publishUrl, publish], [deprecateUrl, deprecate]] = fetch.mock.calls;
+    expect(publishUrl).toBe("http://registry.test/components?tag=next");
+    expect(publish).toMatchObject({ method: "POST", body: JSON.stringify(component) });
+    expect(deprecateUrl).toBe("http://registry.test/components/button/versions/1.0.0");
+    expect(deprecate).toMatchObject({
+      method: "PATCH",
+      body: JSON.stringify({ deprecated: true, deprecationMessage: "Use 2.0.0" }),
+    });
+  });
+
+  test("turns API errors into typed errors", async () => {
+    fetch.mockResolvedValue(
+      mockResponse(404, { code: "COMPONENT_NOT_FOUND", message: "Component not found" })
+    );
+
+    const error = await client.getDetails("missing").catch((error) => error);
+    expect(error).toBeInstanceOf(RegistryAPIError);
+    expect(error).toMatchObject({
+      status: 404,
+      code: "COMPONENT_NOT_FOUND",
+      message: "Component not found",
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects responses that do not match the schema", async () => {
+    fetch.mockResolvedValue(mockResponse(200, { component, versions: "none" }));
+
+    await expect(client.getDetails("button")).rejects.toBeInstanceOf(RegistryResponseError);
+  });
+
+  test("retries network errors and server errors with backoff", async () => {
+    fetch
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(mockResponse(503, undefined))
+      .mockResolvedValueOnce(mockResponse(200, { components: [], total: 0 }));
+
+    await expect(client.list()).resolves.toEqual({ components: [], total: 0 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test("gives up after the configured retries", async () => {
+    fetch.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(client.list()).rejects.toBeInstanceOf(RegistryNetworkError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    fetch.mockClear();
+    fetch.mockResolvedValue(mockResponse(500, undefined));
+    await expect(client.list()).rejects.toMatchObject({ status: 500, code: "HTTP_500" });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test("never retries a publish", async () => {
+    fetch.mockResolvedValue(mockResponse(503, undefined));
+
+    await expect(client.publish(component as never)).rejects.toBeInstanceOf(RegistryAPIError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe("with a cache", () => {
+    const url = "http://registry.test/components";
+    const list = { components: [], total: 0 };
+    let cache: { get: jest.Mock; put: jest.Mock; revalidated: jest.Mock };
+
+    beforeEach(() => {
+      cache = {
+        get: jest.fn(),
+        put: jest.fn().mockResolvedValue(undefined),
+        revalidated: jest.fn().mockResolvedValue(undefined),
+      };
+      client = new RegistryClient({ baseUrl: "http://registry.test", retries: 0, fetch, cache });
+    });
+
+    test("stores responses with their ETag", async () => {
+      fetch.mockResolvedValue(mockResponse(200, list, { etag: '"v1"' }));
+
+      await expect(client.list()).resolves.toEqual(list);
+      expect(cache.put).toHaveBeenCalledWith(url, list, '"v1"');
+    });
+
+    test("answers fresh GETs from the cache", async () => {
+      cache.get.mockResolvedValue({ body: list, fresh: true });
+
+      await expect(client.list()).resolves.toEqual(list);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test("revalidates stale bodies with their ETag", async () => {
+      cache.get.mockResolvedValue({ body: list, etag: '"v1"', fresh: false });
+      fetch.mockResolvedValue(mockResponse(304, undefined));
+
+      await expect(client.list()).resolves.toEqual(list);
+      expect(fetch.mock.calls[0][1].headers).toMatchObject({ "if-none-match": '"v1"' });
+      expect(cache.revalidated).toHaveBeenCalledWith(url);
+    });
+
+    test("uses stale bodies when the registry cannot be reached", async () => {
+      cache.get.mockResolvedValue({ body: list, fresh: false });
+      fetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(client.list()).resolves.toEqual(list);
+    });
+
+    test("never answers health checks from the cache", async () => {
+      fetch.mockResolvedValue(mockResponse(200, { status: "ok" }));
+
+      await client.health();
+      expect(cache.get).not.toHaveBeenCalled();
+      expect(cache.put).not.toHaveBeenCalled();
+    });
+  });
+
+  test("reports timeouts", async () => {
+    const timeoutError = new Error("The operation was aborted due to timeout");
+    timeoutError.name = "TimeoutError";
+    fetch.mockRejectedValue(timeoutError);
+    client = new RegistryClient({
+      baseUrl: "http://registry.test",
+      timeout: 50,
+      retries: 0,
+      fetch,
+    });
+
+    await expect(client.list()).rejects.toEqual(
+      new RegistryTimeoutError("http://registry.test/components", 50)
+    );
+  });
+});
@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import {
+  APIErrorSchema,
+  Component,
+  ComponentDetailResponse,
+  ComponentDetailResponseSchema,
+  ComponentListResponse,
+  ComponentListResponseSchema,
+  ComponentSchema,
+  ComponentVersion,
+  ComponentVersionResponse,
+  ComponentVersionResponseSchema,
+  ComponentVersionSchema,
+  SearchResponse,
+  SearchResponseSchema,
+} from '../schemas/component.js';
+import {
+  RegistryAPIError,
+  RegistryError,
+  RegistryNetworkError,
+  RegistryResponseError,
+  RegistryTimeoutError,
+} from './errors.js';
+
+export interface RegistryAuth {
+  /** `bearer` sends an Authorization header, `apiKey` an x-api-key header */
+  type: 'bearer' | 'apiKey';
+  token: string;
+}
+
+export interface CachedBody {
+  body: unknown;
+  etag?: string;
+  /** Fresh bodies are used without asking the registry */
+  fresh: boolean;
+}
+
+/**
+ * Storage for the bodies of GET responses, keyed by URL
+ */
+export interface ResponseCache {
+  get(url: string): Promise<CachedBody | undefined>;
+  put(url: string, body: unknown, etag?: string): Promise<void>;
+  /** Called when the registry confirmed a stale body is still current */
+  revalidated(url: string): Promise<void>;
+}
+
+export interface RegistryClientOptions {
+  baseUrl: string;
+  auth?: RegistryAuth;
+  /** Give up on a request after this many ms, 30s by default */
+  timeout?: number;
+  /** How often failed requests are retried, 2 by default */
+  retries?: number;
+  /** Wait before the first retry in ms, doubled for each further one */
+  retryDelay?: number;
+  /** fetch implementation, the global one by default */
+  fetch?: typeof fetch;
+  /** Cache for GET responses, see RegistryClient */
+  cache?: ResponseCache;
+}
+
+export interface ListQuery {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SearchQuery {
+  q?: string;
+  tags?: string[];
+  author?: string;
+  style?: string;
+  typescript?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+interface RequestOptions {
+  method: 'GET' | 'POST' | 'PATCH';
+  body?: unknown;
+  /** Leave the response cache out, for GETs that must reach the registry */
+  uncached?: boolean;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 250;
+
+// Responses worth another attempt: the registry is overloaded, restarting
+// or behind a proxy that gave up
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function queryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Typed client for the registry server API. Responses are validated
+ * against the API schemas, and failures are thrown as RegistryError
+ * subclasses. Requests that fail on the network, time out or get a 408,
+ * 429 or 5xx response are retried with exponential backoff, except for
+ * publishing: a retried publish could fail on the version its first
+ * attempt created.
+ *
+ * With a cache, fresh GET responses are answered from it. Stale ones are
+ * revalidated with their ETag, and used as they are when the registry
+ * cannot be reached.
+ */
+export class RegistryClient {
+  readonly baseUrl: string;
+  private readonly options: RegistryClientOptions;
+
+  constructor(options: RegistryClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  /**
+   * Check that the registry is up through its health endpoint. Never
+   * answered from the cache.
+   */
+  async health(): Promise<void> {
+    await this.request('/health', z.unknown(), {
+      method: 'GET',
+      uncached: true,
+    });
+  }
+
+  async list(query: ListQuery = {}): Promise<ComponentListResponse> {
+    return this.request(
+      `/components${queryString(query)}`,
+      ComponentListResponseSchema
+    );
+  }
+
+  async search(query: SearchQuery = {}): Promise<SearchResponse> {
+    return this.request(
+      `/components/search${queryString(query)}`,
+      SearchResponseSchema
+    );
+  }
+
+  async getDetails(name: string): Promise<ComponentDetailResponse> {
+    return this.request(
+      `/components/${encodeURIComponent(name)}`,
+      ComponentDetailResponseSchema
+    );
+  }
+
+  /**
+   * Fetch a version, range or dist-tag, in the given style or the
+   * component's own
+   */
+  async getVersion(
+    name: string,
+    version = 'latest',
+    style?: string
+  ): Promise<ComponentVersionResponse> {
+    return this.request(
+      `${this.versionPath(name, version)}${queryString({ style })}`,
+      ComponentVersionResponseSchema
+    );
+  }
+
+  /**
+   * Publish a component version, pointing `tag` at it if given. Needs a
+   * token with the publish scope.
+   */
+  async publish(component: Component, tag?: string): Promise<Component> {
+    return this.request(`/components${queryString({ tag })}`, ComponentSchema, {
+      method: 'POST',
+      body: component,
+    });
+  }
+
+  /**
+   * Mark a version as deprecated. Installing it still works, but clients
+   * show `message` as a warning.
+   */
+  async deprecate(
+    name: string,
+    version: string,
+    message?: string
+  ): Promise<ComponentVersion> {
+    return this.request(this.versionPath(name, version), ComponentVersionSchema, {
+      method: 'PATCH',
+      body: { deprecated: true, deprecationMessage: message },
+    });
+  }
+
+  async undeprecate(name: string, version: string): Promise<ComponentVersion> {
+    return this.request(this.versionPath(name, version), ComponentVersionSchema, {
+      method: 'PATCH',
+      body: { deprecated: false },
+    });
+  }
+
+  private versionPath(name: string, version: string): string {
+    return `/components/${encodeURIComponent(name)}/versions/${encodeURIComponent(version)}`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const { auth } = this.options;
+    if (!auth) {
+      return {};
+    }
+    return auth.type === 'apiKey'
+      ? { 'x-api-key': auth.token }
+      : { authorization: `Bearer ${auth.token}` };
+  }
+
+  private async request<S extends z.ZodTypeAny>(
+    path: string,
+    schema: S,
+    init: RequestOptions = { method: 'GET' }
+  ): Promise<z.infer<S>> {
+    const url = `${this.baseUrl}${path}`;
+    const cache =
+      init.method === 'GET' && !init.uncached ? this.options.cache : undefined;
+    const cached = await cache?.get(url);
+    if (cached?.fresh) {
+      return this.parse(url, schema, cached.body);
+    }
+
+    let response: Response;
+    try {
+      response = await this.send(url, init, cached?.etag);
+    } catch (error) {
+      // The registry cannot be reached: a stale body beats no answer
+      if (cached && error instanceof RegistryError) {
+        return this.parse(url, schema, cached.body);
+      }
+      throw error;
+    }
+    if (response.status === 304 && cached) {
+      await cache!.revalidated(url).catch(() => undefined);
+      return this.parse(url, schema, cached.body);
+    }
+
+    const body: unknown = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      const apiError = APIErrorSchema.safeParse(body);
+      if (apiError.success) {
+        const { code, message, details } = apiError.data;
+        throw new RegistryAPIError(response.status, code, message, details);
+      }
+      throw new RegistryAPIError(
+        response.status,
+        `HTTP_${response.status}`,
+        `Registry responded with status ${response.status}`
+      );
+    }
+
+    const data = this.parse(url, schema, body);
+    // A cache that cannot be written to should not fail the request
+    await cache
+      ?.put(url, body, response.headers.get('etag') ?? undefined)
+      .catch(() => undefined);
+    return data;
+  }
+
+  private parse<S extends z.ZodTypeAny>(
+    url: string,
+    schema: S,
+    body: unknown
+  ): z.infer<S> {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      throw new RegistryResponseError(url, result.error.issues);
+    }
+    return result.data;
+  }
+
+  /**
+   * Send a request, retrying it as long as that is safe and attempts are
+   * left. The last failure is thrown, or its response returned.
+   */
+  private async send(
+    url: string,
+    init: RequestOptions,
+    etag?: string
+  ): Promise<Response> {
+    const {
+      retries = DEFAULT_RETRIES,
+      retryDelay = DEFAULT_RETRY_DELAY,
+    } = this.options;
+    const attempts = init.method === 'POST' ? 1 : retries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+      try {
+        response = await this.fetchOnce(url, init, etag);
+      } catch (error) {
+        if (attempt >= attempts) {
+          throw error;
+        }
+      }
+      if (response && (attempt >= attempts || !isRetryableStatus(response.status))) {
+        return response;
+      }
+
+      // Retry-After, in seconds, overrides the backoff if it is longer
+      const retryAfter = Number(response?.headers.get('retry-after')) * 1000;
+      const delay = Math.max(retryDelay * 2 ** (attempt - 1), retryAfter || 0);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async fetchOnce(
+    url: string,
+    init: RequestOptions,
+    etag?: string
+  ): Promise<Response> {
+    const { timeout = DEFAULT_TIMEOUT, fetch: fetchImpl = fetch } = this.options;
+    try {
+      return await fetchImpl(url, {
+        method: init.method,
+        headers: {
+          accept: 'application/json',
+          ...(init.body !== undefined && { 'content-type': 'application/json' }),
+          ...(etag && { 'if-none-match': etag }),
+          ...this.authHeaders(),
+        },
+        ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+        signal: AbortSignal.timeout(timeout),
+      });
+    } catch (error) {
+      if ((error as Error).name === 'TimeoutError') {
+        throw new RegistryTimeoutError(url, timeout);
+      }
+      throw new RegistryNetworkError(url, error);
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './schemas/component.js';
+export * from './utils/version.js';
+export * from './client/errors.js';
+export * from './client/registry-client.js';
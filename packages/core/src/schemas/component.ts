@@ -0,0 +1,181 @@
+import { z } from 'zod';
+
+// A single name segment: letters, digits, `.`, `_` and `-`, starting with
+// a letter or digit so it can never be `.` or `..`
+const NAME_SEGMENT = '[a-z0-9][a-z0-9._-]*';
+
+/**
+ * Component names are either plain (`button`) or scoped (`@team/button`)
+ */
+export const COMPONENT_NAME_PATTERN = new RegExp(
+  `^(@${NAME_SEGMENT}/)?${NAME_SEGMENT}$`,
+  'i'
+);
+
+/**
+ * Style names are lowercase words joined by dashes, like `new-york`
+ */
+export const STYLE_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// The style of components that do not declare one
+export const DEFAULT_STYLE = 'default';
+
+// Component metadata schema
+export const ComponentMetadataSchema = z.object({
+  // Plain (`button`) or scoped (`@team/button`)
+  name: z.string().regex(COMPONENT_NAME_PATTERN),
+  version: z.string(),
+  description: z.string().optional(),
+  author: z.string().optional(),
+  license: z.string().optional(),
+  repository: z.string().optional(),
+  // npm packages the component needs, by package name
+  dependencies: z.record(z.string()).optional(),
+  peerDependencies: z.record(z.string()).optional(),
+  // Other registry components the component needs, by name, as version ranges
+  componentDependencies: z.record(z.string()).optional(),
+  // Style of the component's files, `default` when unset
+  style: z.string().regex(STYLE_NAME_PATTERN).optional(),
+  typescript: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export type ComponentMetadata = z.infer<typeof ComponentMetadataSchema>;
+
+// Component file schema
+export const ComponentFileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  type: z.enum(['typescript', 'javascript', 'css', 'scss', 'less', 'json']),
+});
+
+export type ComponentFile = z.infer<typeof ComponentFileSchema>;
+
+// Another style of the same component version, with its own files
+export const StyleVariantSchema = z.object({
+  files: z.array(ComponentFileSchema),
+});
+
+export type StyleVariant = z.infer<typeof StyleVariantSchema>;
+
+// Complete component schema
+export const ComponentSchema = z.object({
+  metadata: ComponentMetadataSchema,
+  files: z.array(ComponentFileSchema),
+  // Additional styles by name, next to the one in metadata.style
+  styles: z
+    .record(z.string().regex(STYLE_NAME_PATTERN), StyleVariantSchema)
+    .optional(),
+  readme: z.string().optional(),
+  changelog: z.string().optional(),
+});
+
+export type Component = z.infer<typeof ComponentSchema>;
+
+// Component version schema
+export const ComponentVersionSchema = z.object({
+  version: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  deprecated: z.boolean().optional(),
+  deprecationMessage: z.string().optional(),
+});
+
+export type ComponentVersion = z.infer<typeof ComponentVersionSchema>;
+
+// Publish time reported for versions stored without a publish record. It
+// is fixed so that responses, and their ETags, stay the same across reads.
+export const UNKNOWN_PUBLISH_TIME = new Date(0).toISOString();
+
+export const ComponentVersionUpdateSchema = z.object({
+  deprecated: z.boolean(),
+  deprecationMessage: z.string().optional(),
+});
+
+export type ComponentVersionUpdate = z.infer<typeof ComponentVersionUpdateSchema>;
+
+// A single version as served by GET /components/:name/versions/:version,
+// in one style. availableStyles lists the styles that can be requested.
+export const ComponentVersionResponseSchema = ComponentSchema.omit({
+  styles: true,
+}).extend({
+  availableStyles: z.array(z.string()).optional(),
+  deprecated: z.boolean().optional(),
+  deprecationMessage: z.string().optional(),
+});
+
+export type ComponentVersionResponse = z.infer<typeof ComponentVersionResponseSchema>;
+
+// Dist-tags map tag names (latest, next, beta, ...) to published versions
+export const DistTagsSchema = z.record(z.string());
+
+export type DistTags = z.infer<typeof DistTagsSchema>;
+
+export const DistTagUpdateSchema = z.object({
+  version: z.string(),
+});
+
+export type DistTagUpdate = z.infer<typeof DistTagUpdateSchema>;
+
+// API response schemas
+export const ComponentListResponseSchema = z.object({
+  components: z.array(
+    z.object({
+      name: z.string(),
+      latestVersion: z.string(),
+      description: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+    })
+  ),
+  total: z.number(),
+  page: z.number().optional(),
+  pageSize: z.number().optional(),
+});
+
+export type ComponentListResponse = z.infer<typeof ComponentListResponseSchema>;
+
+export const ComponentDetailResponseSchema = z.object({
+  component: ComponentSchema,
+  versions: z.array(ComponentVersionSchema),
+  distTags: DistTagsSchema.optional(),
+});
+
+export type ComponentDetailResponse = z.infer<typeof ComponentDetailResponseSchema>;
+
+// A component found by search, with its latest version's metadata
+export const SearchResultSchema = z.object({
+  name: z.string(),
+  latestVersion: z.string(),
+  description: z.string().optional(),
+  author: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  style: ComponentMetadataSchema.shape.style,
+  // Every style the latest version ships
+  styles: z.array(z.string()).optional(),
+  typescript: z.boolean().optional(),
+  score: z.number(),
+});
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+export const SearchResponseSchema = z.object({
+  results: z.array(SearchResultSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  facets: z.object({
+    tags: z.record(z.number()),
+    styles: z.record(z.number()),
+  }),
+});
+
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+
+// API error schema
+export const APIErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.any().optional(),
+});
+
+export type APIError = z.infer<typeof APIErrorSchema>;
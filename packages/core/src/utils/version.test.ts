@@ -0,0 +1,72 @@
+import {
+  isValidRange,
+  isValidTag,
+  isValidVersion,
+  latestVersion,
+  resolveLatest,
+  resolveVersion,
+  sortVersions,
+} from "./version.js";
+
+describe("version utils", () => {
+  test("sorts versions by semver rather than as strings", () => {
+    expect(sortVersions(["1.10.0", "1.9.0", "1.2.0", "2.0.0-beta.1"])).toEqual([
+      "1.2.0",
+      "1.9.0",
+      "1.10.0",
+      "2.0.0-beta.1",
+    ]);
+  });
+
+  test("drops entries that are not versions", () => {
+    expect(sortVersions(["1.0.0", "component.json", "latest"])).toEqual(["1.0.0"]);
+  });
+
+  test("skips prereleases when picking latest", () => {
+    expect(latestVersion(["1.9.0", "1.10.0", "2.0.0-beta.1"])).toBe("1.10.0");
+  });
+
+  test("falls back to the highest prerelease when nothing is stable", () => {
+    expect(latestVersion(["1.0.0-alpha.1", "1.0.0-beta.2"])).toBe("1.0.0-beta.2");
+    expect(latestVersion([])).toBeUndefined();
+  });
+
+  test("resolves latest through the dist-tag first", () => {
+    expect(resolveLatest({ latest: "1.0.0" }, ["1.0.0", "1.1.0"])).toBe("1.0.0");
+    expect(resolveLatest({}, ["1.0.0-beta.1"])).toBe("1.0.0-beta.1");
+  });
+
+  test("resolves ranges to the highest matching version", () => {
+    const versions = ["2.0.0", "2.1.0", "2.1.5", "2.2.0", "3.0.0", "3.1.0-beta.1"];
+
+    expect(resolveVersion(versions, "^2.1")).toBe("2.2.0");
+    expect(resolveVersion(versions, "~2.1")).toBe("2.1.5");
+    expect(resolveVersion(versions, ">=3")).toBe("3.0.0");
+    expect(resolveVersion(versions, "^3.1.0-beta.0")).toBe("3.1.0-beta.1");
+    expect(resolveVersion(versions, "^4")).toBeUndefined();
+  });
+
+  test("resolves exact versions only to themselves", () => {
+    expect(resolveVersion(["1.0.0", "1.0.1"], "1.0.0")).toBe("1.0.0");
+    expect(resolveVersion(["1.0.1"], "1.0.0")).toBeUndefined();
+    expect(resolveVersion(["1.0.0", "1.0.1"], "v1.0.0")).toBe("1.0.0");
+  });
+
+  test("validates versions and ranges", () => {
+    expect(isValidVersion("1.2.3")).toBe(true);
+    expect(isValidVersion("1.2")).toBe(false);
+    expect(isValidVersion("^1.2.0")).toBe(false);
+    expect(isValidVersion("v1.2.3")).toBe(false);
+    expect(isValidVersion("=1.2.3")).toBe(false);
+    expect(isValidRange("^1.2")).toBe(true);
+    expect(isValidRange("not-a-range")).toBe(false);
+  });
+
+  test("only accepts tag names that cannot be read as versions", () => {
+    expect(isValidTag("next")).toBe(true);
+    expect(isValidTag("beta-2")).toBe(true);
+    expect(isValidTag("1.x")).toBe(false);
+    expect(isValidTag("x")).toBe(false);
+    expect(isValidTag("with space")).toBe(false);
+  });
+});
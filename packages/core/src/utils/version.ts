@@ -0,0 +1,69 @@
+import semver from 'semver';
+import type { DistTags } from '../schemas/component.js';
+
+/**
+ * Check that a string is a valid semver version (not a range) in its
+ * canonical form. Loose spellings such as `v1.0.0` or `=1.0.0` are
+ * rejected, as they would be stored next to `1.0.0` as another version.
+ */
+export function isValidVersion(version: string): boolean {
+  return semver.valid(version) === version;
+}
+
+/**
+ * Filter out anything that is not a valid version and sort the rest in
+ * ascending semver order
+ */
+export function sortVersions(versions: string[]): string[] {
+  return versions.filter(isValidVersion).sort(semver.compare);
+}
+
+/**
+ * Pick the version served as `latest`: the highest stable release, or the
+ * highest prerelease when nothing stable has been published yet
+ */
+export function latestVersion(versions: string[]): string | undefined {
+  const sorted = sortVersions(versions);
+  const stable = sorted.filter((version) => semver.prerelease(version) === null);
+  return stable.pop() ?? sorted.pop();
+}
+
+/**
+ * Resolve the version served as `latest`. Components published before
+ * dist-tags existed fall back to the highest stable version.
+ */
+export function resolveLatest(
+  tags: DistTags,
+  versions: string[]
+): string | undefined {
+  return tags.latest ?? latestVersion(versions);
+}
+
+/**
+ * Resolve an exact version or a range (e.g. `^2.1`) against the published
+ * versions. Ranges only match prereleases when they name one explicitly.
+ */
+export function resolveVersion(
+  versions: string[],
+  requested: string
+): string | undefined {
+  const valid = sortVersions(versions);
+  if (isValidVersion(requested)) {
+    return valid.find((version) => version === requested);
+  }
+  return semver.maxSatisfying(valid, requested) ?? undefined;
+}
+
+/**
+ * Check whether a string is a version or range the registry can resolve
+ */
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Check that a dist-tag name cannot be mistaken for a version or range
+ */
+export function isValidTag(tag: string): boolean {
+  return /^[a-z][a-z0-9._-]*$/i.test(tag) && !isValidRange(tag);
+}
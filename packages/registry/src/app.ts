@@ -1,15 +1,28 @@
 import express from 'express';
 import { json } from 'body-parser';
 import { componentsRouter } from './routes/components';
+import { adminRouter } from './routes/admin';
+import { scopesRouter } from './routes/scopes';
+import { Auth } from './middleware/auth';
+import { container } from './container';
 import { errorHandler } from './middleware/error';
 
 const app = express();
 
+// Health check for load balancers and `fetch-ui registry status`, before
+// authentication so it never needs a token
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok' });
+});
+
 // Middleware
 app.use(json());
+app.use(container.resolve(Auth).authenticate);
 
 // Routes
 app.use('/components', componentsRouter);
+app.use('/scopes', scopesRouter);
+app.use('/admin', adminRouter);
 
 // Error handling
 app.use(errorHandler);
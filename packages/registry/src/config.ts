@@ -0,0 +1,81 @@
+import { S3StorageOptions } from './storage/s3';
+
+export type StorageConfig =
+  | { type: 'fs'; path: string }
+  | ({ type: 's3' } & S3StorageOptions);
+
+export interface AuthConfig {
+  /** When false every request is allowed, as before auth existed */
+  enabled: boolean;
+  /** Require a token for read requests as well as for publishing */
+  requireTokenForRead: boolean;
+  /** Token for the admin endpoints, used to create the first tokens */
+  adminToken?: string;
+}
+
+/**
+ * Registry server settings, read from the environment at startup
+ */
+export interface RegistryConfig {
+  /** Hours after publishing during which a version may still be unpublished */
+  unpublishWindowHours: number;
+  storage: StorageConfig;
+  auth: AuthConfig;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed)
+    ? parsed
+    : fallback;
+}
+
+function loadStorageConfig(env: NodeJS.ProcessEnv): StorageConfig {
+  const type = env.REGISTRY_STORAGE ?? 'fs';
+
+  if (type === 'fs') {
+    return { type, path: env.REGISTRY_STORAGE_PATH || 'storage' };
+  }
+
+  if (type === 's3') {
+    if (!env.REGISTRY_S3_BUCKET) {
+      throw new Error('REGISTRY_S3_BUCKET is required when REGISTRY_STORAGE=s3');
+    }
+    const accessKeyId = env.REGISTRY_S3_ACCESS_KEY_ID;
+    const secretAccessKey = env.REGISTRY_S3_SECRET_ACCESS_KEY;
+    return {
+      type,
+      bucket: env.REGISTRY_S3_BUCKET,
+      prefix: env.REGISTRY_S3_PREFIX,
+      endpoint: env.REGISTRY_S3_ENDPOINT,
+      region: env.REGISTRY_S3_REGION,
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+      forcePathStyle: env.REGISTRY_S3_FORCE_PATH_STYLE === 'true',
+    };
+  }
+
+  throw new Error(`Unknown REGISTRY_STORAGE "${type}", expected fs or s3`);
+}
+
+function loadAuthConfig(env: NodeJS.ProcessEnv): AuthConfig {
+  const mode = env.REGISTRY_AUTH ?? 'token';
+  if (mode !== 'token' && mode !== 'none') {
+    throw new Error(`Unknown REGISTRY_AUTH "${mode}", expected token or none`);
+  }
+  return {
+    enabled: mode === 'token',
+    requireTokenForRead: env.REGISTRY_AUTH_READ === 'token',
+    adminToken: env.REGISTRY_ADMIN_TOKEN || undefined,
+  };
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): RegistryConfig {
+  return {
+    unpublishWindowHours: parseNumber(env.REGISTRY_UNPUBLISH_WINDOW_HOURS, 72),
+    storage: loadStorageConfig(env),
+    auth: loadAuthConfig(env),
+  };
+}
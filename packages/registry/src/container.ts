@@ -1,10 +1,17 @@
 import { container } from 'tsyringe';
 import { StorageProvider } from './storage/interface';
-import { FilesystemStorage } from './storage/filesystem';
+import { createStorage } from './storage/factory';
+import { RegistryConfig, loadConfig } from './config';
+
+const config = loadConfig();
 
 // Register dependencies
+container.register<RegistryConfig>('RegistryConfig', {
+  useValue: config,
+});
+
 container.register<StorageProvider>('StorageProvider', {
-  useClass: FilesystemStorage,
+  useValue: createStorage(config.storage),
 });
 
 export { container };
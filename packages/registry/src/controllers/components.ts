@@ -1,37 +1,99 @@
 import { Request, Response, NextFunction } from 'express';
 import { inject, injectable } from 'tsyringe';
+import semver from 'semver';
+import {
+  isValidRange,
+  isValidTag,
+  isValidVersion,
+  latestVersion,
+  resolveLatest,
+  resolveVersion,
+  sortVersions,
+  UNKNOWN_PUBLISH_TIME,
+} from '@fetch-ui/core';
 import { StorageProvider } from '../storage/interface';
 import {
   Component,
   ComponentSchema,
   ComponentListResponseSchema,
   ComponentDetailResponseSchema,
+  ComponentVersionResponseSchema,
+  ComponentVersionUpdateSchema,
 } from '../types/component';
 import { APIError } from '../errors';
+import { RegistryConfig } from '../config';
+import { Principal } from '../middleware/auth';
+import {
+  deleteDistTags,
+  readDistTags,
+  writeDistTags,
+} from '../storage/dist-tags';
+import { listComponentNames } from '../storage/components';
+import { claimOwnership } from '../storage/owners';
+import { updateSearchIndex } from '../storage/search-index';
+import {
+  deleteVersionInfo,
+  readVersionInfo,
+  writeVersionInfo,
+} from '../storage/versions';
+import { sendWithETag } from '../utils/etag';
+import { isValidComponentName } from '../utils/name';
+import {
+  availableStyles,
+  DEFAULT_STYLE,
+  isValidStyle,
+  selectStyle,
+} from '../utils/style';
 
 @injectable()
 export class ComponentsController {
   constructor(
     @inject('StorageProvider')
-    private storage: StorageProvider
+    private storage: StorageProvider,
+    @inject('RegistryConfig')
+    private config: RegistryConfig
   ) {}
 
+  private async readComponent(name: string, version: string): Promise<Component> {
+    try {
+      const componentData = await this.storage.read(
+        `components/${name}/${version}/component.json`
+      );
+      return ComponentSchema.parse(JSON.parse(componentData.toString()));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new APIError('VERSION_NOT_FOUND', 'Version not found');
+      }
+      throw error;
+    }
+  }
+
+  private requireExactVersion(version: string): void {
+    if (!isValidVersion(version)) {
+      throw new APIError(
+        'INVALID_VERSION',
+        `"${version}" is not an exact semver version`
+      );
+    }
+  }
+
   list = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const pageSize = parseInt(req.query.pageSize as string) || 10;
 
-      // List all component directories
-      const componentDirs = await this.storage.list('components');
+      // List all components, including scoped ones
+      const componentDirs = await listComponentNames(this.storage);
       const components = [];
 
       // Get latest version for each component
       for (const dir of componentDirs) {
         const versions = await this.storage.list(`components/${dir}`);
-        if (versions.length > 0) {
-          const latestVersion = versions.sort().pop()!;
+        const tags = await readDistTags(this.storage, dir);
+        const latest = resolveLatest(tags, versions);
+        if (latest) {
           const componentData = await this.storage.read(
-            `components/${dir}/${latestVersion}/component.json`
+            `components/${dir}/${latest}/component.json`
           );
           const component = JSON.parse(componentData.toString()) as Component;
           components.push({
@@ -47,11 +109,13 @@ export class ComponentsController {
       const start = (page - 1) * pageSize;
       const paginatedComponents = components.slice(start, start + pageSize);
 
+      // Only echo pagination back to clients that asked for it
+      const paginated =
+        req.query.page !== undefined || req.query.pageSize !== undefined;
       const response = ComponentListResponseSchema.parse({
         components: paginatedComponents,
         total: components.length,
-        page,
-        pageSize,
+        ...(paginated && { page, pageSize }),
       });
 
       res.json(response);
@@ -65,6 +129,43 @@ export class ComponentsController {
       const component = ComponentSchema.parse(req.body);
       const { name, version } = component.metadata;
 
+      if (!isValidVersion(version)) {
+        throw new APIError(
+          'INVALID_VERSION',
+          `Version "${version}" is not valid semver`
+        );
+      }
+
+      for (const [dependency, range] of Object.entries(
+        component.metadata.componentDependencies ?? {}
+      )) {
+        if (dependency === name || !isValidComponentName(dependency)) {
+          throw new APIError(
+            'INVALID_NAME',
+            `"${dependency}" is not a valid component dependency`
+          );
+        }
+        if (!isValidRange(range)) {
+          throw new APIError(
+            'INVALID_VERSION',
+            `"${range}" is not a valid range for ${dependency}`
+          );
+        }
+      }
+
+      const ownStyle = component.metadata.style ?? DEFAULT_STYLE;
+      if (component.styles?.[ownStyle]) {
+        throw new APIError(
+          'INVALID_STYLE',
+          `"${ownStyle}" is the style of files and cannot also be a variant`
+        );
+      }
+
+      const tag = req.query.tag as string | undefined;
+      if (tag !== undefined && !isValidTag(tag)) {
+        throw new APIError('INVALID_TAG', `"${tag}" is not a valid dist-tag`);
+      }
+
       // Check if version already exists
       try {
         await this.storage.read(
@@ -82,6 +183,35 @@ export class ComponentsController {
         `components/${name}/${version}/component.json`,
         Buffer.from(JSON.stringify(component))
       );
+      const now = new Date().toISOString();
+      await writeVersionInfo(this.storage, name, {
+        version,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      // Point the requested tag at the new version. Without a tag, latest
+      // only moves forward to stable releases.
+      const tags = await readDistTags(this.storage, name);
+      const versions = await this.storage.list(`components/${name}`);
+      const latest = resolveLatest(tags, versions);
+      if (tag) {
+        tags[tag] = version;
+      } else if (
+        semver.prerelease(version) === null &&
+        (!latest || semver.gt(version, latest))
+      ) {
+        tags.latest = version;
+      } else if (latest && !tags.latest) {
+        tags.latest = latest;
+      }
+      await writeDistTags(this.storage, name, tags);
+      await updateSearchIndex(this.storage, name);
+
+      const principal = res.locals.principal as Principal | undefined;
+      if (principal?.type === 'token' && principal.user) {
+        await claimOwnership(this.storage, name, principal.user);
+      }
 
       res.status(201).json(component);
     } catch (error) {
@@ -94,31 +224,39 @@ export class ComponentsController {
       const { name } = req.params;
 
       // Get all versions
-      const versions = await this.storage.list(`components/${name}`);
-      if (versions.length === 0) {
+      const versions = sortVersions(
+        await this.storage.list(`components/${name}`)
+      );
+      const distTags = await readDistTags(this.storage, name);
+      const latest = resolveLatest(distTags, versions);
+      if (!latest) {
         throw new APIError('COMPONENT_NOT_FOUND', 'Component not found');
       }
 
-      // Get latest version
-      const latestVersion = versions.sort().pop()!;
       const componentData = await this.storage.read(
-        `components/${name}/${latestVersion}/component.json`
+        `components/${name}/${latest}/component.json`
       );
       const component = JSON.parse(componentData.toString()) as Component;
 
-      // Get version details
-      const versionDetails = versions.map((version) => ({
-        version,
-        createdAt: new Date().toISOString(), // TODO: Get actual creation time
-        updatedAt: new Date().toISOString(),
-      }));
+      const versionDetails = [];
+      for (const version of versions) {
+        const info = await readVersionInfo(this.storage, name, version);
+        versionDetails.push(
+          info ?? {
+            version,
+            createdAt: UNKNOWN_PUBLISH_TIME,
+            updatedAt: UNKNOWN_PUBLISH_TIME,
+          }
+        );
+      }
 
       const response = ComponentDetailResponseSchema.parse({
         component,
         versions: versionDetails,
+        distTags: { ...distTags, latest },
       });
 
-      res.json(response);
+      sendWithETag(req, res, response);
     } catch (error) {
       next(error);
     }
@@ -126,22 +264,142 @@ export class ComponentsController {
 
   getVersion = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { name, version } = req.params;
+      const { name } = req.params;
+      let { version } = req.params;
+      const style = req.query.style as string | undefined;
+      if (style !== undefined && !isValidStyle(style)) {
+        throw new APIError('INVALID_STYLE', `"${style}" is not a valid style`);
+      }
 
-      try {
-        const componentData = await this.storage.read(
-          `components/${name}/${version}/component.json`
+      // Dist-tags such as `next` take precedence over ranges
+      if (isValidTag(version)) {
+        const tags = await readDistTags(this.storage, name);
+        const tagged =
+          version === 'latest'
+            ? resolveLatest(tags, await this.storage.list(`components/${name}`))
+            : tags[version];
+        if (!tagged) {
+          throw new APIError(
+            'TAG_NOT_FOUND',
+            `${name} has no dist-tag "${version}"`
+          );
+        }
+        version = tagged;
+      } else if (!isValidRange(version)) {
+        throw new APIError(
+          'INVALID_VERSION',
+          `"${version}" is not a valid version or range`
         );
-        const component = ComponentSchema.parse(
-          JSON.parse(componentData.toString())
+      }
+
+      // Resolve ranges such as ^2.1 to the highest matching version
+      if (!isValidVersion(version)) {
+        const versions = await this.storage.list(`components/${name}`);
+        const resolved = resolveVersion(versions, version);
+        if (!resolved) {
+          throw new APIError(
+            'VERSION_NOT_FOUND',
+            `No version of ${name} matches ${version}`
+          );
+        }
+        version = resolved;
+      }
+
+      const component = await this.readComponent(name, version);
+      const selected = selectStyle(
+        component,
+        style ?? component.metadata.style ?? DEFAULT_STYLE
+      );
+      if (!selected) {
+        throw new APIError(
+          'STYLE_NOT_FOUND',
+          `${name}@${version} has no "${style}" style`
         );
-        res.json(component);
-      } catch (error: any) {
-        if (error.code === 'ENOENT') {
-          throw new APIError('VERSION_NOT_FOUND', 'Version not found');
+      }
+      const info = await readVersionInfo(this.storage, name, version);
+      const response = ComponentVersionResponseSchema.parse({
+        ...selected,
+        availableStyles: availableStyles(component),
+        ...(info?.deprecated && {
+          deprecated: true,
+          deprecationMessage: info.deprecationMessage,
+        }),
+      });
+
+      sendWithETag(req, res, response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateVersion = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, version } = req.params;
+      this.requireExactVersion(version);
+      const update = ComponentVersionUpdateSchema.parse(req.body);
+
+      await this.readComponent(name, version);
+      const now = new Date().toISOString();
+      const info = (await readVersionInfo(this.storage, name, version)) ?? {
+        version,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const updated = {
+        version: info.version,
+        createdAt: info.createdAt,
+        updatedAt: now,
+        ...(update.deprecated && {
+          deprecated: true,
+          deprecationMessage: update.deprecationMessage,
+        }),
+      };
+      await writeVersionInfo(this.storage, name, updated);
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteVersion = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, version } = req.params;
+      this.requireExactVersion(version);
+
+      await this.readComponent(name, version);
+      const info = await readVersionInfo(this.storage, name, version);
+      const windowMs = this.config.unpublishWindowHours * 60 * 60 * 1000;
+      if (!info || Date.now() - Date.parse(info.createdAt) > windowMs) {
+        throw new APIError(
+          'UNPUBLISH_WINDOW_EXPIRED',
+          `Versions can only be unpublished within ${this.config.unpublishWindowHours} hours of publishing, deprecate ${name}@${version} instead`
+        );
+      }
+
+      await this.storage.delete(`components/${name}/${version}/component.json`);
+      await deleteVersionInfo(this.storage, name, version);
+
+      // Drop tags that pointed at the removed version and move latest back
+      const remaining = sortVersions(
+        await this.storage.list(`components/${name}`)
+      ).filter((v) => v !== version);
+      if (remaining.length === 0) {
+        await deleteDistTags(this.storage, name);
+      } else {
+        const tags = await readDistTags(this.storage, name);
+        for (const [tag, tagged] of Object.entries(tags)) {
+          if (tagged === version) {
+            delete tags[tag];
+          }
         }
-        throw error;
+        tags.latest = tags.latest ?? latestVersion(remaining)!;
+        await writeDistTags(this.storage, name, tags);
       }
+      await updateSearchIndex(this.storage, name);
+
+      res.status(204).end();
     } catch (error) {
       next(error);
     }
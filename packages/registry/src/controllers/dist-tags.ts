@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { isValidTag, resolveLatest, sortVersions } from '@fetch-ui/core';
+import { StorageProvider } from '../storage/interface';
+import { readDistTags, writeDistTags } from '../storage/dist-tags';
+import { updateSearchIndex } from '../storage/search-index';
+import { DistTagUpdateSchema } from '../types/component';
+import { APIError } from '../errors';
+
+@injectable()
+export class DistTagsController {
+  constructor(
+    @inject('StorageProvider')
+    private storage: StorageProvider
+  ) {}
+
+  private async getVersions(name: string): Promise<string[]> {
+    const versions = sortVersions(
+      await this.storage.list(`components/${name}`)
+    );
+    if (versions.length === 0) {
+      throw new APIError('COMPONENT_NOT_FOUND', 'Component not found');
+    }
+    return versions;
+  }
+
+  list = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name } = req.params;
+      const versions = await this.getVersions(name);
+      const tags = await readDistTags(this.storage, name);
+
+      res.json({ ...tags, latest: resolveLatest(tags, versions) });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  set = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, tag } = req.params;
+      const { version } = DistTagUpdateSchema.parse(req.body);
+
+      if (!isValidTag(tag)) {
+        throw new APIError('INVALID_TAG', `"${tag}" is not a valid dist-tag`);
+      }
+
+      const versions = await this.getVersions(name);
+      if (!versions.includes(version)) {
+        throw new APIError(
+          'VERSION_NOT_FOUND',
+          `${name}@${version} has not been published`
+        );
+      }
+
+      const tags = await readDistTags(this.storage, name);
+      tags[tag] = version;
+      await writeDistTags(this.storage, name, tags);
+      if (tag === 'latest') {
+        await updateSearchIndex(this.storage, name);
+      }
+
+      res.json(tags);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  remove = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, tag } = req.params;
+
+      if (tag === 'latest') {
+        throw new APIError(
+          'INVALID_TAG',
+          'The latest tag cannot be removed, move it instead'
+        );
+      }
+
+      await this.getVersions(name);
+      const tags = await readDistTags(this.storage, name);
+      if (!tags[tag]) {
+        throw new APIError('TAG_NOT_FOUND', `${name} has no dist-tag "${tag}"`);
+      }
+
+      delete tags[tag];
+      await writeDistTags(this.storage, name, tags);
+
+      res.json(tags);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { sortVersions } from '@fetch-ui/core';
+import { StorageProvider } from '../storage/interface';
+import {
+  readComponentOwners,
+  readScopeOwners,
+  writeComponentOwners,
+  writeScopeOwners,
+} from '../storage/owners';
+import { APIError } from '../errors';
+
+interface OwnersStore {
+  read(storage: StorageProvider, key: string): Promise<string[]>;
+  write(storage: StorageProvider, key: string, owners: string[]): Promise<void>;
+}
+
+const componentOwners: OwnersStore = {
+  read: readComponentOwners,
+  write: writeComponentOwners,
+};
+
+const scopeOwners: OwnersStore = {
+  read: readScopeOwners,
+  write: writeScopeOwners,
+};
+
+@injectable()
+export class OwnersController {
+  constructor(
+    @inject('StorageProvider')
+    private storage: StorageProvider
+  ) {}
+
+  private async requireComponent(name: string): Promise<void> {
+    const versions = sortVersions(await this.storage.list(`components/${name}`));
+    if (versions.length === 0) {
+      throw new APIError('COMPONENT_NOT_FOUND', 'Component not found');
+    }
+  }
+
+  /**
+   * Resolve the owners store and key (component name or scope) of a request
+   */
+  private async target(req: Request): Promise<[OwnersStore, string]> {
+    const { name, scope } = req.params;
+    if (scope) {
+      return [scopeOwners, scope];
+    }
+    await this.requireComponent(name);
+    return [componentOwners, name];
+  }
+
+  list = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [store, key] = await this.target(req);
+      res.json(await store.read(this.storage, key));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  add = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [store, key] = await this.target(req);
+      const { user } = req.params;
+
+      const owners = await store.read(this.storage, key);
+      if (!owners.includes(user)) {
+        owners.push(user);
+        await store.write(this.storage, key, owners);
+      }
+
+      res.json(owners);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  remove = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [store, key] = await this.target(req);
+      const { user } = req.params;
+
+      const owners = await store.read(this.storage, key);
+      if (!owners.includes(user)) {
+        throw new APIError('OWNER_NOT_FOUND', `${user} is not an owner of ${key}`);
+      }
+      if (owners.length === 1) {
+        throw new APIError(
+          'LAST_OWNER',
+          `${user} is the last owner of ${key}, add another owner first`
+        );
+      }
+
+      const remaining = owners.filter((owner) => owner !== user);
+      await store.write(this.storage, key, remaining);
+
+      res.json(remaining);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { z } from 'zod';
+import { StorageProvider } from '../storage/interface';
+import { readSearchIndex } from '../storage/search-index';
+import { SearchResponseSchema } from '../types/component';
+import { countFacets, searchEntries } from '../utils/search';
+
+const SearchQuerySchema = z.object({
+  q: z.string().optional(),
+  tags: z
+    .string()
+    .transform((value) =>
+      value.split(',').map((tag) => tag.trim()).filter(Boolean)
+    )
+    .optional(),
+  author: z.string().optional(),
+  style: z.string().optional(),
+  typescript: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+@injectable()
+export class SearchController {
+  constructor(
+    @inject('StorageProvider')
+    private storage: StorageProvider
+  ) {}
+
+  search = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, pageSize, ...query } = SearchQuerySchema.parse(req.query);
+
+      const index = await readSearchIndex(this.storage);
+      const results = searchEntries(Object.values(index.components), query);
+      const start = (page - 1) * pageSize;
+
+      const response = SearchResponseSchema.parse({
+        results: results.slice(start, start + pageSize),
+        total: results.length,
+        page,
+        pageSize,
+        facets: countFacets(results),
+      });
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
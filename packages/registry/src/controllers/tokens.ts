@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { StorageProvider } from '../storage/interface';
+import { createToken, listTokens, revokeToken } from '../storage/tokens';
+import { TokenCreateSchema, TokenResponseSchema } from '../types/auth';
+import { APIError } from '../errors';
+
+@injectable()
+export class TokensController {
+  constructor(
+    @inject('StorageProvider')
+    private storage: StorageProvider
+  ) {}
+
+  list = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tokens = await listTokens(this.storage);
+      res.json(tokens.map((token) => TokenResponseSchema.parse(token)));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  create = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = TokenCreateSchema.parse(req.body);
+      const { token, record } = await createToken(this.storage, input);
+
+      // The token itself is only ever shown in this response
+      res.status(201).json({ ...TokenResponseSchema.parse(record), token });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  revoke = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      if (!(await revokeToken(this.storage, id))) {
+        throw new APIError('TOKEN_NOT_FOUND', `No token with id "${id}"`);
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { inject, injectable } from 'tsyringe';
+import { RegistryConfig } from '../config';
+import { APIError } from '../errors';
+import { StorageProvider } from '../storage/interface';
+import { canManage, canManageScope } from '../storage/owners';
+import { findToken, hashToken } from '../storage/tokens';
+import { TokenScope } from '../types/auth';
+
+/**
+ * The caller of a request, stored in `res.locals.principal`
+ */
+export type Principal =
+  | { type: 'admin' }
+  | {
+      type: 'token';
+      id: string;
+      user?: string;
+      scope: TokenScope;
+      prefix?: string;
+    };
+
+/**
+ * Read the token from `Authorization: Bearer <token>` or `X-API-Key`
+ */
+function readToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header) {
+    const [type, token] = header.split(' ');
+    return type.toLowerCase() === 'bearer' ? token : undefined;
+  }
+  return req.header('x-api-key');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Compare hashes so both buffers have the same length
+  return timingSafeEqual(
+    Buffer.from(hashToken(a), 'hex'),
+    Buffer.from(hashToken(b), 'hex')
+  );
+}
+
+@injectable()
+export class Auth {
+  constructor(
+    @inject('StorageProvider')
+    private storage: StorageProvider,
+    @inject('RegistryConfig')
+    private config: RegistryConfig
+  ) {}
+
+  private async resolvePrincipal(token: string): Promise<Principal | undefined> {
+    const { adminToken } = this.config.auth;
+    if (adminToken && safeEqual(token, adminToken)) {
+      return { type: 'admin' };
+    }
+    const record = await findToken(this.storage, token);
+    return record && {
+      type: 'token',
+      id: record.id,
+      user: record.user,
+      scope: record.scope,
+      prefix: record.prefix,
+    };
+  }
+
+  /**
+   * Identify the caller from its token. Unknown tokens are rejected
+   * outright; requests without one continue anonymously unless reads
+   * require a token.
+   */
+  authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!this.config.auth.enabled) {
+        return next();
+      }
+
+      const token = readToken(req);
+      if (token) {
+        const principal = await this.resolvePrincipal(token);
+        if (!principal) {
+          throw new APIError('UNAUTHORIZED', 'Invalid or revoked token');
+        }
+        res.locals.principal = principal;
+      } else if (this.config.auth.requireTokenForRead) {
+        throw new APIError('UNAUTHORIZED', 'A token is required');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Require a token with the given scope. Publish tokens limited to a
+   * prefix only grant access to component names starting with it, and to
+   * npm-style scopes (`:scope`) whose every name would.
+   */
+  requireScope(scope: TokenScope) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.config.auth.enabled) {
+        return next();
+      }
+
+      const principal = res.locals.principal as Principal | undefined;
+      if (!principal) {
+        return next(new APIError('UNAUTHORIZED', 'A token is required'));
+      }
+      if (principal.type === 'admin') {
+        return next();
+      }
+      if (scope === 'publish' && principal.scope !== 'publish') {
+        return next(
+          new APIError('FORBIDDEN', 'This token cannot publish components')
+        );
+      }
+
+      // Names in a scope all start with `<scope>/`
+      const { scope: scopeParam } = req.params;
+      const name: string | undefined = scopeParam
+        ? `${scopeParam}/`
+        : req.params.name ?? req.body?.metadata?.name;
+      if (principal.prefix && name && !name.startsWith(principal.prefix)) {
+        return next(
+          new APIError(
+            'FORBIDDEN',
+            `This token is limited to components starting with "${principal.prefix}"`
+          )
+        );
+      }
+      next();
+    };
+  }
+
+  /**
+   * Require the caller to own the component (`:name` or the published
+   * name) or the scope (`:scope`) of the request. Use after
+   * `requireScope('publish')`.
+   */
+  requireOwner = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const principal = res.locals.principal as Principal | undefined;
+      if (!this.config.auth.enabled || principal?.type === 'admin') {
+        return next();
+      }
+      if (!principal?.user) {
+        throw new APIError('FORBIDDEN', 'This token is not linked to a user');
+      }
+
+      const { scope } = req.params;
+      const name: string | undefined =
+        req.params.name ?? req.body?.metadata?.name;
+      const allowed = scope
+        ? await canManageScope(this.storage, scope, principal.user)
+        : !name || (await canManage(this.storage, name, principal.user));
+      if (!allowed) {
+        throw new APIError(
+          'FORBIDDEN',
+          `${principal.user} is not an owner of ${scope ?? name}`
+        );
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Only the configured admin token may manage tokens
+   */
+  requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    const principal = res.locals.principal as Principal | undefined;
+    if (!this.config.auth.adminToken) {
+      return next(new APIError('FORBIDDEN', 'Token administration is disabled'));
+    }
+    if (!principal) {
+      return next(new APIError('UNAUTHORIZED', 'A token is required'));
+    }
+    if (principal.type !== 'admin') {
+      return next(new APIError('FORBIDDEN', 'Admin token required'));
+    }
+    next();
+  };
+}
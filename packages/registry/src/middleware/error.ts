@@ -16,9 +16,22 @@ export function errorHandler(
     });
   } else if (error instanceof APIError) {
     const status = {
+      INVALID_VERSION: 400,
+      INVALID_TAG: 400,
+      INVALID_NAME: 400,
+      INVALID_PATH: 400,
+      INVALID_STYLE: 400,
+      UNAUTHORIZED: 401,
+      FORBIDDEN: 403,
       COMPONENT_NOT_FOUND: 404,
       VERSION_NOT_FOUND: 404,
+      TAG_NOT_FOUND: 404,
+      STYLE_NOT_FOUND: 404,
+      TOKEN_NOT_FOUND: 404,
+      OWNER_NOT_FOUND: 404,
+      UNPUBLISH_WINDOW_EXPIRED: 403,
       VERSION_CONFLICT: 409,
+      LAST_OWNER: 409,
     }[error.code] || 500;
 
     res.status(status).json({
@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { ComponentSchema } from '../types/component';
+import { APIError } from '../errors';
+import {
+  isValidComponentName,
+  isValidScope,
+  isValidUserName,
+} from '../utils/name';
 
 export function validateComponent(
   req: Request,
@@ -7,9 +13,53 @@ export function validateComponent(
   next: NextFunction
 ) {
   try {
+    // Report unsafe names as such rather than as a generic schema error
+    const name = req.body?.metadata?.name;
+    if (typeof name === 'string' && !isValidComponentName(name)) {
+      return validateName(req, res, next, name);
+    }
     ComponentSchema.parse(req.body);
     next();
   } catch (error) {
     next(error);
   }
 }
+
+export function validateName(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  name: string
+) {
+  if (!isValidComponentName(name)) {
+    next(new APIError('INVALID_NAME', `"${name}" is not a valid component name`));
+    return;
+  }
+  next();
+}
+
+export function validateScope(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  scope: string
+) {
+  if (!isValidScope(scope)) {
+    next(new APIError('INVALID_NAME', `"${scope}" is not a valid scope`));
+    return;
+  }
+  next();
+}
+
+export function validateUser(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  user: string
+) {
+  if (!isValidUserName(user)) {
+    next(new APIError('INVALID_NAME', `"${user}" is not a valid user name`));
+    return;
+  }
+  next();
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { TokensController } from '../controllers/tokens';
+import { Auth } from '../middleware/auth';
+import { container } from '../container';
+
+const router = Router();
+const auth = container.resolve(Auth);
+const tokens = container.resolve(TokensController);
+
+router.use(auth.requireAdmin);
+
+// Tokens
+router.get('/tokens', tokens.list);
+router.post('/tokens', tokens.create);
+router.delete('/tokens/:id', tokens.revoke);
+
+export { router as adminRouter };
@@ -1,21 +1,66 @@
 import { Router } from 'express';
 import { ComponentsController } from '../controllers/components';
-import { validateComponent } from '../middleware/validation';
+import { DistTagsController } from '../controllers/dist-tags';
+import { OwnersController } from '../controllers/owners';
+import { SearchController } from '../controllers/search';
+import {
+  validateComponent,
+  validateName,
+  validateUser,
+} from '../middleware/validation';
+import { Auth } from '../middleware/auth';
 import { container } from '../container';
 
 const router = Router();
+const auth = container.resolve(Auth);
 const controller = container.resolve(ComponentsController);
+const distTags = container.resolve(DistTagsController);
+const search = container.resolve(SearchController);
+const owners = container.resolve(OwnersController);
+
+// Publishing and changing a component requires a publish token owned by
+// one of its owners
+const publisher = [auth.requireScope('publish'), auth.requireOwner];
+
+// Accept scoped names unencoded (/@team/button) as well as encoded
+router.use((req, res, next) => {
+  req.url = req.url.replace(/^\/(@[^/?]+)\/(?=[^/?])/, '/$1%2F');
+  next();
+});
+
+// Reject names that are unsafe to use in storage paths
+router.param('name', validateName);
+router.param('user', validateUser);
 
 // List components
 router.get('/', controller.list);
 
 // Create component
-router.post('/', validateComponent, controller.create);
+router.post('/', publisher, validateComponent, controller.create);
+
+// Search components. Registered before /:name so it is not taken for a name.
+router.get('/search', search.search);
 
 // Get component details
 router.get('/:name', controller.getDetails);
 
-// Get specific version
+// Get specific version, range or dist-tag
 router.get('/:name/versions/:version', controller.getVersion);
 
+// Deprecate or undeprecate a version
+router.patch('/:name/versions/:version', publisher, controller.updateVersion);
+
+// Unpublish a version within the grace window
+router.delete('/:name/versions/:version', publisher, controller.deleteVersion);
+
+// Dist-tags
+router.get('/:name/dist-tags', distTags.list);
+router.put('/:name/dist-tags/:tag', publisher, distTags.set);
+router.delete('/:name/dist-tags/:tag', publisher, distTags.remove);
+
+// Owners
+router.get('/:name/owners', owners.list);
+router.put('/:name/owners/:user', publisher, owners.add);
+router.delete('/:name/owners/:user', publisher, owners.remove);
+
 export { router as componentsRouter };
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { OwnersController } from '../controllers/owners';
+import { validateScope, validateUser } from '../middleware/validation';
+import { Auth } from '../middleware/auth';
+import { container } from '../container';
+
+const router = Router();
+const auth = container.resolve(Auth);
+const owners = container.resolve(OwnersController);
+
+router.param('scope', validateScope);
+router.param('user', validateUser);
+
+// Scope owners
+router.get('/:scope/owners', owners.list);
+router.put(
+  '/:scope/owners/:user',
+  auth.requireScope('publish'),
+  auth.requireOwner,
+  owners.add
+);
+router.delete(
+  '/:scope/owners/:user',
+  auth.requireScope('publish'),
+  auth.requireOwner,
+  owners.remove
+);
+
+export { router as scopesRouter };
@@ -0,0 +1,21 @@
+import { StorageProvider } from './interface';
+
+/**
+ * List the names of all stored components. Scoped components live one
+ * level deeper, under `components/@scope/name`.
+ */
+export async function listComponentNames(
+  storage: StorageProvider
+): Promise<string[]> {
+  const names: string[] = [];
+  for (const entry of await storage.list('components')) {
+    if (entry.startsWith('@')) {
+      for (const name of await storage.list(`components/${entry}`)) {
+        names.push(`${entry}/${name}`);
+      }
+    } else {
+      names.push(entry);
+    }
+  }
+  return names.sort();
+}
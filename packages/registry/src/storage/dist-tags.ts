@@ -0,0 +1,45 @@
+import { StorageProvider } from './interface';
+import { DistTags, DistTagsSchema } from '../types/component';
+
+function distTagsPath(name: string): string {
+  return `components/${name}/dist-tags.json`;
+}
+
+/**
+ * Read the dist-tags of a component, or an empty set if none were stored
+ */
+export async function readDistTags(
+  storage: StorageProvider,
+  name: string
+): Promise<DistTags> {
+  try {
+    const data = await storage.read(distTagsPath(name));
+    return DistTagsSchema.parse(JSON.parse(data.toString()));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export async function writeDistTags(
+  storage: StorageProvider,
+  name: string,
+  tags: DistTags
+): Promise<void> {
+  await storage.write(distTagsPath(name), Buffer.from(JSON.stringify(tags)));
+}
+
+export async function deleteDistTags(
+  storage: StorageProvider,
+  name: string
+): Promise<void> {
+  try {
+    await storage.delete(distTagsPath(name));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { StorageConfig } from '../config';
+import { FilesystemStorage } from './filesystem';
+import { StorageProvider } from './interface';
+import { S3Storage } from './s3';
+
+/**
+ * Create the storage provider selected in the registry config
+ */
+export function createStorage(config: StorageConfig): StorageProvider {
+  switch (config.type) {
+    case 'fs':
+      return new FilesystemStorage(config.path);
+    case 's3': {
+      const { type: _type, ...options } = config;
+      return new S3Storage(options);
+    }
+  }
+}
@@ -1,44 +1,88 @@
-import { StorageProvider } from './interface'
-import { join, relative } from 'path'
-import { mkdir, readFile, writeFile, unlink } from 'fs/promises'
+import { StorageEntry, StorageProvider } from './interface'
+import { dirname, relative, resolve, sep } from 'path'
+import { mkdir, readFile, writeFile, unlink, rmdir, stat } from 'fs/promises'
 import { readdir } from 'fs/promises'
+import { normalizeStoragePath } from './path'
 
 export class FilesystemStorage implements StorageProvider {
-  constructor(private readonly rootDir: string) {}
+  private readonly root: string
+
+  constructor(rootDir: string) {
+    this.root = resolve(rootDir)
+  }
+
+  private resolvePath(path: string): string {
+    return resolve(this.root, normalizeStoragePath(path))
+  }
+
+  private toStoragePath(fullPath: string): string {
+    return relative(this.root, fullPath).split(sep).join('/')
+  }
 
   async write(path: string, content: Buffer): Promise<void> {
-    const fullPath = join(this.rootDir, path)
-    await mkdir(join(fullPath, '..'), { recursive: true })
+    const fullPath = this.resolvePath(path)
+    await mkdir(dirname(fullPath), { recursive: true })
     await writeFile(fullPath, content)
   }
 
   async read(path: string): Promise<Buffer> {
-    const fullPath = join(this.rootDir, path)
-    return await readFile(fullPath)
+    return await readFile(this.resolvePath(path))
   }
 
   async list(prefix: string): Promise<string[]> {
-    const fullPath = join(this.rootDir, prefix)
-    const results: string[] = []
+    const fullPath = this.resolvePath(prefix)
 
     try {
-      const entries = await readdir(fullPath, { recursive: true })
-      for (const entry of entries) {
-        const entryPath = join(prefix, entry)
-        const relativePath = relative(this.rootDir, join(this.rootDir, entryPath))
-        results.push(relativePath)
+      return await readdir(fullPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
       }
+      return []
+    }
+  }
+
+  async listRecursive(prefix: string): Promise<StorageEntry[]> {
+    const fullPath = this.resolvePath(prefix)
+    const results: StorageEntry[] = []
+
+    let entries: string[]
+    try {
+      entries = await readdir(fullPath, { recursive: true })
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         throw error
       }
+      return results
+    }
+
+    for (const entry of entries) {
+      const entryPath = resolve(fullPath, entry)
+      const stats = await stat(entryPath)
+      if (stats.isFile()) {
+        results.push({
+          path: this.toStoragePath(entryPath),
+          size: stats.size,
+          modifiedAt: stats.mtime,
+        })
+      }
     }
 
-    return results
+    return results.sort((a, b) => a.path.localeCompare(b.path))
   }
 
   async delete(path: string): Promise<void> {
-    const fullPath = join(this.rootDir, path)
+    const fullPath = this.resolvePath(path)
     await unlink(fullPath)
+
+    // Prune directories left empty so deleted versions stop being listed
+    let dir = dirname(fullPath)
+    while (dir.startsWith(this.root + sep)) {
+      if ((await readdir(dir)).length > 0) {
+        break
+      }
+      await rmdir(dir)
+      dir = dirname(dir)
+    }
   }
 }
@@ -1,5 +1,20 @@
 /**
- * Storage provider interface for component registry
+ * A stored file returned by a recursive listing
+ */
+export interface StorageEntry {
+  /** Path relative to the storage root */
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  modifiedAt: Date;
+}
+
+/**
+ * Storage provider interface for component registry.
+ *
+ * Paths are relative to the storage root and always use `/` as separator.
+ * Providers must reject paths that resolve outside of the root.
  */
 export interface StorageProvider {
   /**
@@ -18,14 +33,21 @@ export interface StorageProvider {
   read(path: string): Promise<Buffer>;
 
   /**
-   * List all files under a prefix
+   * List the direct children (files and directories) of a prefix
    * @param prefix Prefix to list under
-   * @returns Array of relative paths
+   * @returns Names of the children, without the prefix
    */
   list(prefix: string): Promise<string[]>;
 
   /**
-   * Delete a file at path
+   * List every file under a prefix, at any depth
+   * @param prefix Prefix to list under
+   * @returns Files with their paths relative to the storage root
+   */
+  listRecursive(prefix: string): Promise<StorageEntry[]>;
+
+  /**
+   * Delete a file at path. Directories left empty are removed as well.
    * @param path Path to delete
    */
   delete(path: string): Promise<void>;
@@ -0,0 +1,122 @@
+import { StorageProvider } from './interface';
+import { OwnersSchema } from '../types/auth';
+import { scopeOf } from '../utils/name';
+
+function componentOwnersPath(name: string): string {
+  return `components/${name}/owners.json`;
+}
+
+function scopeOwnersPath(scope: string): string {
+  return `scopes/${scope}/owners.json`;
+}
+
+async function readOwners(
+  storage: StorageProvider,
+  path: string
+): Promise<string[]> {
+  try {
+    const data = await storage.read(path);
+    return OwnersSchema.parse(JSON.parse(data.toString()));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the owners of a component. Components published before ownership
+ * existed have none.
+ */
+export async function readComponentOwners(
+  storage: StorageProvider,
+  name: string
+): Promise<string[]> {
+  return readOwners(storage, componentOwnersPath(name));
+}
+
+export async function writeComponentOwners(
+  storage: StorageProvider,
+  name: string,
+  owners: string[]
+): Promise<void> {
+  await storage.write(
+    componentOwnersPath(name),
+    Buffer.from(JSON.stringify(owners))
+  );
+}
+
+export async function readScopeOwners(
+  storage: StorageProvider,
+  scope: string
+): Promise<string[]> {
+  return readOwners(storage, scopeOwnersPath(scope));
+}
+
+export async function writeScopeOwners(
+  storage: StorageProvider,
+  scope: string,
+  owners: string[]
+): Promise<void> {
+  await storage.write(scopeOwnersPath(scope), Buffer.from(JSON.stringify(owners)));
+}
+
+/**
+ * Check whether a user may manage a component: owners of the component
+ * and owners of its scope may. Nobody owns a component (or scope) until
+ * its first publish, so unowned ones are open to any publisher.
+ */
+export async function canManage(
+  storage: StorageProvider,
+  name: string,
+  user: string
+): Promise<boolean> {
+  const scope = scopeOf(name);
+  const scopeOwners = scope ? await readScopeOwners(storage, scope) : [];
+  if (scopeOwners.includes(user)) {
+    return true;
+  }
+  const owners = await readComponentOwners(storage, name);
+  return owners.length === 0
+    ? scopeOwners.length === 0
+    : owners.includes(user);
+}
+
+/**
+ * Check whether a user may manage the owners of a scope. Owning a scope
+ * means managing all of its components, so an unowned scope is only open
+ * while it has none; otherwise an admin has to hand it out.
+ */
+export async function canManageScope(
+  storage: StorageProvider,
+  scope: string,
+  user: string
+): Promise<boolean> {
+  const owners = await readScopeOwners(storage, scope);
+  if (owners.length > 0) {
+    return owners.includes(user);
+  }
+  return (await storage.list(`components/${scope}`)).length === 0;
+}
+
+/**
+ * Make the publisher the owner of a new component, and of its scope if
+ * the scope has no owners and no other components yet
+ */
+export async function claimOwnership(
+  storage: StorageProvider,
+  name: string,
+  user: string
+): Promise<void> {
+  if ((await readComponentOwners(storage, name)).length === 0) {
+    await writeComponentOwners(storage, name, [user]);
+  }
+  const scope = scopeOf(name);
+  if (scope && (await readScopeOwners(storage, scope)).length === 0) {
+    const components = await storage.list(`components/${scope}`);
+    if (components.every((component) => `${scope}/${component}` === name)) {
+      await writeScopeOwners(storage, scope, [user]);
+    }
+  }
+}
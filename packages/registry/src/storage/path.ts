@@ -0,0 +1,21 @@
+import { posix } from 'path';
+import { APIError } from '../errors';
+
+/**
+ * Normalize a storage path to a `/`-separated key relative to the storage
+ * root. Paths that would escape the root (`..` segments, absolute paths,
+ * NUL bytes) are rejected. The root itself normalizes to an empty string.
+ */
+export function normalizeStoragePath(path: string): string {
+  const normalized = posix.normalize(path.replace(/\\/g, '/'));
+  if (
+    path.includes('\0') ||
+    posix.isAbsolute(normalized) ||
+    /^[a-z]:/i.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    throw new APIError('INVALID_PATH', `Invalid storage path "${path}"`);
+  }
+  return normalized === '.' ? '' : normalized.replace(/\/+$/, '');
+}
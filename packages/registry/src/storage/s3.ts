@@ -0,0 +1,163 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { StorageEntry, StorageProvider } from './interface';
+import { normalizeStoragePath } from './path';
+
+export interface S3StorageOptions {
+  bucket: string;
+  /** Key prefix all registry objects are stored under */
+  prefix?: string;
+  /** Custom endpoint for S3-compatible services such as MinIO or R2 */
+  endpoint?: string;
+  region?: string;
+  /** Falls back to the default AWS credential chain when omitted */
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+  /** Address buckets as `endpoint/bucket` rather than `bucket.endpoint` */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Errors for missing objects carry `code: 'ENOENT'` like their filesystem
+ * counterparts, which is what callers check for
+ */
+function notFound(key: string): Error {
+  return Object.assign(new Error(`No such object: ${key}`), { code: 'ENOENT' });
+}
+
+function isNotFound(error: unknown): boolean {
+  const name = (error as { name?: string }).name;
+  return name === 'NoSuchKey' || name === 'NotFound';
+}
+
+export class S3Storage implements StorageProvider {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3StorageOptions, client?: S3Client) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? normalizeStoragePath(options.prefix) : '';
+    this.client =
+      client ??
+      new S3Client({
+        endpoint: options.endpoint,
+        region: options.region ?? 'us-east-1',
+        credentials: options.credentials,
+        forcePathStyle: options.forcePathStyle,
+      });
+  }
+
+  private toKey(path: string): string {
+    return [this.prefix, normalizeStoragePath(path)].filter(Boolean).join('/');
+  }
+
+  private toStoragePath(key: string): string {
+    return this.prefix ? key.slice(this.prefix.length + 1) : key;
+  }
+
+  /**
+   * List every page of objects under a key prefix
+   */
+  private async listPages(
+    prefix: string,
+    delimiter?: string
+  ): Promise<ListObjectsV2CommandOutput[]> {
+    const pages: ListObjectsV2CommandOutput[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          Delimiter: delimiter,
+          ContinuationToken: continuationToken,
+        })
+      );
+      pages.push(page);
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return pages;
+  }
+
+  private dirPrefix(path: string): string {
+    const key = this.toKey(path);
+    return key ? `${key}/` : '';
+  }
+
+  async write(path: string, content: Buffer): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(path),
+        Body: content,
+      })
+    );
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const key = this.toKey(path);
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      throw isNotFound(error) ? notFound(key) : error;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keyPrefix = this.dirPrefix(prefix);
+    const names = new Set<string>();
+
+    for (const page of await this.listPages(keyPrefix, '/')) {
+      for (const common of page.CommonPrefixes ?? []) {
+        names.add(common.Prefix!.slice(keyPrefix.length, -1));
+      }
+      for (const object of page.Contents ?? []) {
+        names.add(object.Key!.slice(keyPrefix.length));
+      }
+    }
+
+    return [...names];
+  }
+
+  async listRecursive(prefix: string): Promise<StorageEntry[]> {
+    const results: StorageEntry[] = [];
+
+    for (const page of await this.listPages(this.dirPrefix(prefix))) {
+      for (const object of page.Contents ?? []) {
+        results.push({
+          path: this.toStoragePath(object.Key!),
+          size: object.Size ?? 0,
+          modifiedAt: object.LastModified ?? new Date(0),
+        });
+      }
+    }
+
+    return results.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async delete(path: string): Promise<void> {
+    const key = this.toKey(path);
+
+    // S3 deletes are idempotent; check first so missing objects fail the
+    // same way they do on the filesystem
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+    } catch (error) {
+      throw isNotFound(error) ? notFound(key) : error;
+    }
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
@@ -0,0 +1,97 @@
+import { resolveLatest } from '@fetch-ui/core';
+import { StorageProvider } from './interface';
+import { listComponentNames } from './components';
+import { readDistTags } from './dist-tags';
+import {
+  ComponentSchema,
+  SearchIndex,
+  SearchIndexEntry,
+  SearchIndexSchema,
+} from '../types/component';
+import { availableStyles } from '../utils/style';
+
+const SEARCH_INDEX_PATH = 'index/search.json';
+
+/**
+ * Build the index entry of a component from its latest version, or
+ * undefined when no versions are left
+ */
+async function buildEntry(
+  storage: StorageProvider,
+  name: string
+): Promise<SearchIndexEntry | undefined> {
+  const tags = await readDistTags(storage, name);
+  const latest = resolveLatest(tags, await storage.list(`components/${name}`));
+  if (!latest) {
+    return undefined;
+  }
+
+  const data = await storage.read(`components/${name}/${latest}/component.json`);
+  const component = ComponentSchema.parse(JSON.parse(data.toString()));
+  const { metadata } = component;
+  return {
+    name,
+    latestVersion: metadata.version,
+    description: metadata.description,
+    author: metadata.author,
+    tags: metadata.tags,
+    style: metadata.style,
+    styles: availableStyles(component),
+    typescript: metadata.typescript,
+  };
+}
+
+/**
+ * Scan every stored component. Only needed when no index has been written
+ * yet, e.g. for registries populated before search existed.
+ */
+async function rebuildSearchIndex(storage: StorageProvider): Promise<SearchIndex> {
+  const index: SearchIndex = { components: {} };
+  for (const name of await listComponentNames(storage)) {
+    const entry = await buildEntry(storage, name);
+    if (entry) {
+      index.components[name] = entry;
+    }
+  }
+  await writeSearchIndex(storage, index);
+  return index;
+}
+
+export async function readSearchIndex(
+  storage: StorageProvider
+): Promise<SearchIndex> {
+  try {
+    const data = await storage.read(SEARCH_INDEX_PATH);
+    return SearchIndexSchema.parse(JSON.parse(data.toString()));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return rebuildSearchIndex(storage);
+    }
+    throw error;
+  }
+}
+
+async function writeSearchIndex(
+  storage: StorageProvider,
+  index: SearchIndex
+): Promise<void> {
+  await storage.write(SEARCH_INDEX_PATH, Buffer.from(JSON.stringify(index)));
+}
+
+/**
+ * Refresh the entry of one component after its latest version changed
+ * (publish, unpublish or moving the latest tag)
+ */
+export async function updateSearchIndex(
+  storage: StorageProvider,
+  name: string
+): Promise<void> {
+  const index = await readSearchIndex(storage);
+  const entry = await buildEntry(storage, name);
+  if (entry) {
+    index.components[name] = entry;
+  } else {
+    delete index.components[name];
+  }
+  await writeSearchIndex(storage, index);
+}
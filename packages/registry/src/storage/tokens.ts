@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from 'crypto';
+import { StorageProvider } from './interface';
+import {
+  TokenCreate,
+  TokenRecord,
+  TokenRecordSchema,
+} from '../types/auth';
+
+const TOKENS_DIR = 'auth/tokens';
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Tokens are stored by hash so a presented token is looked up with a
+ * single read. The id is a prefix of the hash, which is enough to revoke
+ * a token without revealing it.
+ */
+function tokenPath(hash: string): string {
+  return `${TOKENS_DIR}/${hash}.json`;
+}
+
+export async function createToken(
+  storage: StorageProvider,
+  input: TokenCreate
+): Promise<{ token: string; record: TokenRecord }> {
+  const token = `fui_${randomBytes(32).toString('base64url')}`;
+  const hash = hashToken(token);
+  const record: TokenRecord = {
+    id: hash.slice(0, 16),
+    ...input,
+    hash,
+    createdAt: new Date().toISOString(),
+  };
+  await storage.write(tokenPath(hash), Buffer.from(JSON.stringify(record)));
+  return { token, record };
+}
+
+/**
+ * Look up a presented token, or undefined if it is unknown or revoked
+ */
+export async function findToken(
+  storage: StorageProvider,
+  token: string
+): Promise<TokenRecord | undefined> {
+  try {
+    const data = await storage.read(tokenPath(hashToken(token)));
+    return TokenRecordSchema.parse(JSON.parse(data.toString()));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function listTokens(
+  storage: StorageProvider
+): Promise<TokenRecord[]> {
+  const tokens: TokenRecord[] = [];
+  for (const file of await storage.list(TOKENS_DIR)) {
+    const data = await storage.read(`${TOKENS_DIR}/${file}`);
+    tokens.push(TokenRecordSchema.parse(JSON.parse(data.toString())));
+  }
+  return tokens.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke a token by id. Returns false if no token has that id.
+ */
+export async function revokeToken(
+  storage: StorageProvider,
+  id: string
+): Promise<boolean> {
+  if (!/^[0-9a-f]{16}$/.test(id)) {
+    return false;
+  }
+  const file = (await storage.list(TOKENS_DIR)).find((name) =>
+    name.startsWith(id)
+  );
+  if (!file) {
+    return false;
+  }
+  await storage.delete(`${TOKENS_DIR}/${file}`);
+  return true;
+}
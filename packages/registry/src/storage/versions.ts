@@ -0,0 +1,51 @@
+import { StorageProvider } from './interface';
+import { ComponentVersion, ComponentVersionSchema } from '../types/component';
+
+function versionInfoPath(name: string, version: string): string {
+  return `components/${name}/${version}/version.json`;
+}
+
+/**
+ * Read the publish record of a version. Versions stored before publish
+ * records existed have none.
+ */
+export async function readVersionInfo(
+  storage: StorageProvider,
+  name: string,
+  version: string
+): Promise<ComponentVersion | undefined> {
+  try {
+    const data = await storage.read(versionInfoPath(name, version));
+    return ComponentVersionSchema.parse(JSON.parse(data.toString()));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function writeVersionInfo(
+  storage: StorageProvider,
+  name: string,
+  info: ComponentVersion
+): Promise<void> {
+  await storage.write(
+    versionInfoPath(name, info.version),
+    Buffer.from(JSON.stringify(info))
+  );
+}
+
+export async function deleteVersionInfo(
+  storage: StorageProvider,
+  name: string,
+  version: string
+): Promise<void> {
+  try {
+    await storage.delete(versionInfoPath(name, version));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { isValidUserName } from '../utils/name';
+
+// Publish implies read
+export const TokenScopeSchema = z.enum(['read', 'publish']);
+
+export type TokenScope = z.infer<typeof TokenScopeSchema>;
+
+// Stored token record. Only the SHA-256 hash of the token is kept.
+export const TokenRecordSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  // The user the token acts as; owners lists refer to these names
+  user: z.string().optional(),
+  scope: TokenScopeSchema,
+  // Only component names starting with this prefix may be published
+  prefix: z.string().optional(),
+  hash: z.string(),
+  createdAt: z.string(),
+});
+
+export type TokenRecord = z.infer<typeof TokenRecordSchema>;
+
+export const UserNameSchema = z.string().refine(isValidUserName, {
+  message: 'Invalid user name',
+});
+
+export const TokenCreateSchema = z.object({
+  name: z.string().optional(),
+  user: UserNameSchema.optional(),
+  scope: TokenScopeSchema,
+  prefix: z.string().min(1).optional(),
+});
+
+export type TokenCreate = z.infer<typeof TokenCreateSchema>;
+
+// Token as returned by the admin API, without its hash
+export const TokenResponseSchema = TokenRecordSchema.omit({ hash: true });
+
+export type TokenResponse = z.infer<typeof TokenResponseSchema>;
+
+// Owners of a component or scope, by user name
+export const OwnersSchema = z.array(z.string());
+
+export type Owners = z.infer<typeof OwnersSchema>;
@@ -0,0 +1,24 @@
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+
+/**
+ * Strong ETag of a JSON response body
+ */
+export function computeETag(body: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(body)).digest('base64url');
+  return `"${hash}"`;
+}
+
+/**
+ * Send a JSON body with its ETag, answering 304 Not Modified when it
+ * matches the request's If-None-Match. Clients may reuse their copy
+ * but have to revalidate it first.
+ */
+export function sendWithETag(req: Request, res: Response, body: unknown): void {
+  res.set({ ETag: computeETag(body), 'Cache-Control': 'no-cache' });
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.json(body);
+}
@@ -0,0 +1,40 @@
+import { COMPONENT_NAME_PATTERN } from '@fetch-ui/core';
+
+// A single name segment: letters, digits, `.`, `_` and `-`, starting with
+// a letter or digit so it can never be `.` or `..`
+const SEGMENT = '[a-z0-9][a-z0-9._-]*';
+
+const SCOPE_PATTERN = new RegExp(`^@${SEGMENT}$`, 'i');
+
+const USER_PATTERN = new RegExp(`^${SEGMENT}$`, 'i');
+
+// Routes under /components that would shadow a component of the same
+// name. Express matches paths case-insensitively, and so does this check.
+const RESERVED_NAMES = new Set(['search']);
+
+/**
+ * Check that a component name is safe to use in storage paths and is not
+ * taken by a route
+ */
+export function isValidComponentName(name: string): boolean {
+  return (
+    name.length <= 214 &&
+    COMPONENT_NAME_PATTERN.test(name) &&
+    !RESERVED_NAMES.has(name.toLowerCase())
+  );
+}
+
+export function isValidScope(scope: string): boolean {
+  return scope.length <= 214 && SCOPE_PATTERN.test(scope);
+}
+
+export function isValidUserName(user: string): boolean {
+  return user.length <= 214 && USER_PATTERN.test(user);
+}
+
+/**
+ * The scope of a scoped name (`@team` for `@team/button`), if any
+ */
+export function scopeOf(name: string): string | undefined {
+  return name.startsWith('@') ? name.slice(0, name.indexOf('/')) : undefined;
+}
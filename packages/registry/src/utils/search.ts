@@ -0,0 +1,136 @@
+import { SearchIndexEntry } from '../types/component';
+import { DEFAULT_STYLE } from './style';
+
+export interface SearchQuery {
+  q?: string;
+  tags?: string[];
+  author?: string;
+  style?: string;
+  typescript?: boolean;
+}
+
+export interface ScoredEntry extends SearchIndexEntry {
+  score: number;
+}
+
+export interface SearchFacets {
+  tags: Record<string, number>;
+  styles: Record<string, number>;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Tags match case-insensitively, so they are compared and counted in
+// lower case
+function tagsOf(entry: SearchIndexEntry): string[] {
+  return (entry.tags ?? []).map((tag) => tag.toLowerCase());
+}
+
+/**
+ * Score how well a single search term matches an entry. Name matches rank
+ * above tag matches, which rank above description matches.
+ */
+function scoreTerm(entry: SearchIndexEntry, term: string): number {
+  const name = entry.name.toLowerCase();
+  const nameWords = tokenize(entry.name);
+  const tags = tagsOf(entry);
+  const words = tokenize(entry.description ?? '');
+
+  let score = 0;
+  if (name === term) {
+    score += 10;
+  } else if (nameWords.includes(term)) {
+    score += 6;
+  } else if (name.includes(term)) {
+    score += 4;
+  }
+  if (tags.includes(term)) {
+    score += 5;
+  } else if (tags.some((tag) => tag.includes(term))) {
+    score += 2;
+  }
+  if (words.includes(term)) {
+    score += 2;
+  } else if (words.some((word) => word.startsWith(term))) {
+    score += 1;
+  }
+  return score;
+}
+
+/**
+ * Score an entry against every term of the query. Entries must match all
+ * terms; returns 0 when one of them is missing.
+ */
+function scoreEntry(entry: SearchIndexEntry, terms: string[]): number {
+  let total = 0;
+  for (const term of terms) {
+    const score = scoreTerm(entry, term);
+    if (score === 0) {
+      return 0;
+    }
+    total += score;
+  }
+  return total;
+}
+
+// Entries indexed before style variants only know their own style
+function stylesOf(entry: SearchIndexEntry): string[] {
+  return entry.styles ?? [entry.style ?? DEFAULT_STYLE];
+}
+
+function matchesFilters(entry: SearchIndexEntry, query: SearchQuery): boolean {
+  const tags = tagsOf(entry);
+  return (
+    (!query.tags ||
+      query.tags.every((tag) => tags.includes(tag.toLowerCase()))) &&
+    (!query.author ||
+      entry.author?.toLowerCase() === query.author.toLowerCase()) &&
+    (!query.style || stylesOf(entry).includes(query.style)) &&
+    (query.typescript === undefined ||
+      (entry.typescript ?? false) === query.typescript)
+  );
+}
+
+/**
+ * Filter and rank index entries, most relevant first. Without a text query
+ * every entry matching the filters is returned in name order.
+ */
+export function searchEntries(
+  entries: SearchIndexEntry[],
+  query: SearchQuery
+): ScoredEntry[] {
+  const terms = tokenize(query.q ?? '');
+  const results: ScoredEntry[] = [];
+
+  for (const entry of entries) {
+    if (!matchesFilters(entry, query)) {
+      continue;
+    }
+    const score = terms.length > 0 ? scoreEntry(entry, terms) : 0;
+    if (terms.length === 0 || score > 0) {
+      results.push({ ...entry, score });
+    }
+  }
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Count tags and styles across search results
+ */
+export function countFacets(entries: SearchIndexEntry[]): SearchFacets {
+  const facets: SearchFacets = { tags: {}, styles: {} };
+  for (const entry of entries) {
+    for (const tag of new Set(tagsOf(entry))) {
+      facets.tags[tag] = (facets.tags[tag] ?? 0) + 1;
+    }
+    for (const style of stylesOf(entry)) {
+      facets.styles[style] = (facets.styles[style] ?? 0) + 1;
+    }
+  }
+  return facets;
+}
@@ -0,0 +1,35 @@
+import { DEFAULT_STYLE, STYLE_NAME_PATTERN } from '@fetch-ui/core';
+import { Component } from '../types/component';
+
+export { DEFAULT_STYLE };
+
+export function isValidStyle(style: string): boolean {
+  return style.length <= 64 && STYLE_NAME_PATTERN.test(style);
+}
+
+/**
+ * Every style a component version ships, its own style first
+ */
+export function availableStyles(component: Component): string[] {
+  const own = component.metadata.style ?? DEFAULT_STYLE;
+  return [own, ...Object.keys(component.styles ?? {})];
+}
+
+/**
+ * The component as seen in one of its styles: the variant's files replace
+ * the component's own. Returns undefined if the style is not shipped.
+ */
+export function selectStyle(
+  component: Component,
+  style: string
+): Omit<Component, 'styles'> | undefined {
+  const { styles, ...rest } = component;
+  if (style === (component.metadata.style ?? DEFAULT_STYLE)) {
+    return rest;
+  }
+  const variant = styles?.[style];
+  if (!variant) {
+    return undefined;
+  }
+  return { ...rest, metadata: { ...rest.metadata, style }, files: variant.files };
+}
@@ -0,0 +1,129 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+interface StoredObject {
+  body: Buffer
+  modifiedAt: Date
+}
+
+export interface FakeS3Server {
+  endpoint: string
+  /** Objects by `bucket/key` */
+  objects: Map<string, StoredObject>
+  close(): Promise<void>
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+function sendError(res: ServerResponse, status: number, code: string) {
+  res.writeHead(status, { 'content-type': 'application/xml' })
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`)
+}
+
+/**
+ * Minimal in-process stand-in for the S3 REST API (path-style requests
+ * only): PutObject, GetObject, HeadObject, DeleteObject and ListObjectsV2
+ * with delimiters and pagination
+ */
+export async function startFakeS3({ pageSize = 1000 } = {}): Promise<FakeS3Server> {
+  const objects = new Map<string, StoredObject>()
+
+  function listObjects(res: ServerResponse, bucket: string, query: URLSearchParams) {
+    const prefix = query.get('prefix') ?? ''
+    const delimiter = query.get('delimiter') ?? ''
+    const token = query.get('continuation-token')
+
+    const entries = new Map<string, { key: string, object?: StoredObject }>()
+    for (const [id, object] of objects) {
+      if (!id.startsWith(`${bucket}/`)) continue
+      const key = id.slice(bucket.length + 1)
+      if (!key.startsWith(prefix)) continue
+      const rest = key.slice(prefix.length)
+      const index = delimiter ? rest.indexOf(delimiter) : -1
+      if (index >= 0) {
+        const common = prefix + rest.slice(0, index + delimiter.length)
+        entries.set(common, { key: common })
+      } else {
+        entries.set(key, { key, object })
+      }
+    }
+
+    const sorted = [...entries.values()]
+      .sort((a, b) => (a.key < b.key ? -1 : 1))
+      .filter((entry) => !token || entry.key > token)
+    const page = sorted.slice(0, pageSize)
+    const truncated = sorted.length > page.length
+
+    const contents = page
+      .filter((entry) => entry.object)
+      .map((entry) => `<Contents><Key>${escapeXml(entry.key)}</Key><LastModified>${entry.object!.modifiedAt.toISOString()}</LastModified><Size>${entry.object!.body.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`)
+    const commonPrefixes = page
+      .filter((entry) => !entry.object)
+      .map((entry) => `<CommonPrefixes><Prefix>${escapeXml(entry.key)}</Prefix></CommonPrefixes>`)
+
+    res.writeHead(200, { 'content-type': 'application/xml' })
+    res.end(
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">' +
+      `<Name>${bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount>` +
+      `<MaxKeys>${pageSize}</MaxKeys><IsTruncated>${truncated}</IsTruncated>` +
+      (truncated ? `<NextContinuationToken>${escapeXml(page[page.length - 1].key)}</NextContinuationToken>` : '') +
+      contents.join('') + commonPrefixes.join('') +
+      '</ListBucketResult>'
+    )
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url!, 'http://localhost')
+    const [, bucket, ...keyParts] = url.pathname.split('/')
+    const key = decodeURIComponent(keyParts.join('/'))
+    const id = `${bucket}/${key}`
+
+    if (req.method === 'GET' && !key && url.searchParams.get('list-type') === '2') {
+      return listObjects(res, bucket, url.searchParams)
+    }
+
+    const object = objects.get(id)
+    switch (req.method) {
+      case 'PUT':
+        objects.set(id, { body: await readBody(req), modifiedAt: new Date() })
+        res.writeHead(200, { etag: '"fake"' })
+        return res.end()
+      case 'GET':
+        if (!object) return sendError(res, 404, 'NoSuchKey')
+        res.writeHead(200, { 'content-length': object.body.length })
+        return res.end(object.body)
+      case 'HEAD':
+        res.writeHead(object ? 200 : 404, object ? { 'content-length': object.body.length } : {})
+        return res.end()
+      case 'DELETE':
+        objects.delete(id)
+        res.writeHead(204)
+        return res.end()
+      default:
+        return sendError(res, 405, 'MethodNotAllowed')
+    }
+  }
+
+  const server: Server = createServer((req, res) => {
+    handle(req, res).catch(() => sendError(res, 500, 'InternalError'))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
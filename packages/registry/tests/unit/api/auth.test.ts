@@ -0,0 +1,388 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const storageDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import('fs/promises');
+  const { join } = await import('path');
+  const { tmpdir } = await import('os');
+  const dir = await mkdtemp(join(tmpdir(), 'fetch-ui-test-'));
+  process.env.REGISTRY_STORAGE = 'fs';
+  process.env.REGISTRY_STORAGE_PATH = dir;
+  process.env.REGISTRY_AUTH = 'token';
+  process.env.REGISTRY_ADMIN_TOKEN = 'admin-secret';
+  return dir;
+});
+
+import { app } from '../../../src/app';
+import supertest from 'supertest';
+import { readdir, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { loadConfig } from '../../../src/config';
+
+const ADMIN = { Authorization: 'Bearer admin-secret' };
+
+function component(name: string, version = '1.0.0') {
+  return { metadata: { name, version }, files: [] };
+}
+
+describe('Registry auth', () => {
+  const request = supertest(app);
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  async function createToken(body: Record<string, unknown>): Promise<string> {
+    const response = await request.post('/admin/tokens').set(ADMIN).send(body);
+    expect(response.status).toBe(201);
+    return response.body.token;
+  }
+
+  describe('publishing', () => {
+    it('should reject publishing without a token', async () => {
+      const response = await request.post('/components').send(component('button'));
+
+      expect(response.status).toBe(401);
+      expect(response.body).toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request
+        .get('/components')
+        .set('Authorization', 'Bearer fui_unknown');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should allow publishing with a publish token', async () => {
+      const token = await createToken({ user: 'ada', scope: 'publish' });
+
+      const response = await request
+        .post('/components')
+        .set('Authorization', `Bearer ${token}`)
+        .send(component('button'));
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should accept the token as an API key', async () => {
+      const token = await createToken({ user: 'ada', scope: 'publish' });
+
+      const response = await request
+        .post('/components')
+        .set('X-API-Key', token)
+        .send(component('button'));
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should forbid publishing with a read token', async () => {
+      const token = await createToken({ scope: 'read' });
+
+      const response = await request
+        .post('/components')
+        .set('Authorization', `Bearer ${token}`)
+        .send(component('button'));
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should limit prefixed tokens to matching component names', async () => {
+      const token = await createToken({ user: 'ada', scope: 'publish', prefix: 'acme-' });
+      const headers = { Authorization: `Bearer ${token}` };
+
+      const allowed = await request.post('/components').set(headers).send(component('acme-button'));
+      expect(allowed.status).toBe(201);
+
+      const denied = await request.post('/components').set(headers).send(component('button'));
+      expect(denied.status).toBe(403);
+
+      const deprecate = await request
+        .patch('/components/button/versions/1.0.0')
+        .set(headers)
+        .send({ deprecated: true });
+      expect(deprecate.status).toBe(403);
+    });
+
+    it('should limit prefixed tokens to scopes inside their prefix', async () => {
+      const token = await createToken({ user: 'ada', scope: 'publish', prefix: '@acme/' });
+      const headers = { Authorization: `Bearer ${token}` };
+      await request.post('/components').set(ADMIN).send(component('@team/button'));
+      await request.post('/components').set(headers).send(component('@acme/button'));
+
+      const denied = await request.put('/scopes/@team/owners/ada').set(headers);
+      expect(denied.status).toBe(403);
+      expect(denied.body.message).toContain('limited to components starting with "@acme/"');
+
+      const allowed = await request.put('/scopes/@acme/owners/grace').set(headers);
+      expect(allowed.status).toBe(200);
+
+      const narrower = await createToken({ user: 'ada', scope: 'publish', prefix: '@acme/ui-' });
+      const removed = await request
+        .delete('/scopes/@acme/owners/grace')
+        .set({ Authorization: `Bearer ${narrower}` });
+      expect(removed.status).toBe(403);
+      expect(removed.body.message).toContain('limited to components starting with');
+    });
+
+    it('should forbid publishing with a token that is not linked to a user', async () => {
+      const token = await createToken({ scope: 'publish' });
+
+      const response = await request
+        .post('/components')
+        .set('Authorization', `Bearer ${token}`)
+        .send(component('button'));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should require a publish token to manage versions and dist-tags', async () => {
+      await request.post('/components').set(ADMIN).send(component('button'));
+
+      const deprecate = await request
+        .patch('/components/button/versions/1.0.0')
+        .send({ deprecated: true });
+      expect(deprecate.status).toBe(401);
+
+      const tag = await request
+        .put('/components/button/dist-tags/next')
+        .send({ version: '1.0.0' });
+      expect(tag.status).toBe(401);
+    });
+
+    it('should keep reads public by default', async () => {
+      await request.post('/components').set(ADMIN).send(component('button'));
+
+      const response = await request.get('/components/button');
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('health', () => {
+    it('should answer without checking tokens', async () => {
+      const response = await request
+        .get('/health')
+        .set({ Authorization: 'Bearer unknown' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ status: 'ok' });
+    });
+  });
+
+  describe('ownership', () => {
+    let ada: Record<string, string>;
+    let grace: Record<string, string>;
+
+    beforeEach(async () => {
+      ada = { Authorization: `Bearer ${await createToken({ user: 'ada', scope: 'publish' })}` };
+      grace = { Authorization: `Bearer ${await createToken({ user: 'grace', scope: 'publish' })}` };
+    });
+
+    it('should make the first publisher the owner', async () => {
+      await request.post('/components').set(ada).send(component('button'));
+
+      const owners = await request.get('/components/button/owners');
+      expect(owners.body).toEqual(['ada']);
+
+      const update = await request.post('/components').set(grace).send(component('button', '1.1.0'));
+      expect(update.status).toBe(403);
+      expect(update.body.message).toBe('grace is not an owner of button');
+
+      const own = await request.post('/components').set(ada).send(component('button', '1.1.0'));
+      expect(own.status).toBe(201);
+    });
+
+    it('should only let owners deprecate, unpublish and tag versions', async () => {
+      await request.post('/components').set(ada).send(component('button'));
+
+      const deprecate = await request
+        .patch('/components/button/versions/1.0.0')
+        .set(grace)
+        .send({ deprecated: true });
+      expect(deprecate.status).toBe(403);
+
+      const unpublish = await request.delete('/components/button/versions/1.0.0').set(grace);
+      expect(unpublish.status).toBe(403);
+
+      const tag = await request
+        .put('/components/button/dist-tags/next')
+        .set(grace)
+        .send({ version: '1.0.0' });
+      expect(tag.status).toBe(403);
+    });
+
+    it('should let owners add and remove owners', async () => {
+      await request.post('/components').set(ada).send(component('button'));
+
+      const denied = await request.put('/components/button/owners/grace').set(grace);
+      expect(denied.status).toBe(403);
+
+      const added = await request.put('/components/button/owners/grace').set(ada);
+      expect(added.body).toEqual(['ada', 'grace']);
+
+      const removed = await request.delete('/components/button/owners/ada').set(grace);
+      expect(removed.body).toEqual(['grace']);
+
+      const last = await request.delete('/components/button/owners/grace').set(grace);
+      expect(last.status).toBe(409);
+      expect(last.body).toMatchObject({ code: 'LAST_OWNER' });
+    });
+
+    it('should return 404 for owners of unknown components', async () => {
+      const response = await request.get('/components/button/owners');
+      expect(response.status).toBe(404);
+    });
+
+    it('should publish scoped components and claim the scope', async () => {
+      const response = await request
+        .post('/components')
+        .set(ada)
+        .send(component('@team/button'));
+      expect(response.status).toBe(201);
+
+      // Scoped names work encoded or as two path segments
+      const details = await request.get('/components/@team/button');
+      expect(details.status).toBe(200);
+      expect(details.body.component.metadata.name).toBe('@team/button');
+
+      const encoded = await request.get('/components/%40team%2Fbutton/versions/1.0.0');
+      expect(encoded.status).toBe(200);
+
+      const scopeOwners = await request.get('/scopes/@team/owners');
+      expect(scopeOwners.body).toEqual(['ada']);
+
+      const list = await request.get('/components');
+      expect(list.body.components.map((c: { name: string }) => c.name)).toEqual(['@team/button']);
+    });
+
+    it('should only let scope owners publish new components in a scope', async () => {
+      await request.post('/components').set(ada).send(component('@team/button'));
+
+      const denied = await request.post('/components').set(grace).send(component('@team/card'));
+      expect(denied.status).toBe(403);
+
+      await request.put('/scopes/@team/owners/grace').set(ada);
+
+      const allowed = await request.post('/components').set(grace).send(component('@team/card'));
+      expect(allowed.status).toBe(201);
+
+      // Scope owners may manage every component in the scope
+      const deprecate = await request
+        .patch('/components/@team/button/versions/1.0.0')
+        .set(grace)
+        .send({ deprecated: true });
+      expect(deprecate.status).toBe(200);
+    });
+
+    it('should not hand out scopes that already have components', async () => {
+      await request.post('/components').set(ada).send(component('@team/button'));
+      // Scopes published before scope ownership existed have no owners
+      await rm(join(storageDir, 'scopes'), { recursive: true });
+
+      const card = await request.post('/components').set(grace).send(component('@team/card'));
+      expect(card.status).toBe(201);
+      const scopeOwners = await request.get('/scopes/@team/owners');
+      expect(scopeOwners.body).toEqual([]);
+
+      const deprecate = await request
+        .patch('/components/@team/button/versions/1.0.0')
+        .set(grace)
+        .send({ deprecated: true });
+      expect(deprecate.status).toBe(403);
+
+      const claim = await request.put('/scopes/@team/owners/grace').set(grace);
+      expect(claim.status).toBe(403);
+
+      const granted = await request.put('/scopes/@team/owners/grace').set(ADMIN);
+      expect(granted.body).toEqual(['grace']);
+    });
+
+    it('should reject invalid scopes and user names', async () => {
+      const scope = await request.get('/scopes/team/owners');
+      expect(scope.status).toBe(400);
+
+      await request.post('/components').set(ada).send(component('button'));
+      const user = await request.put('/components/button/owners/..').set(ada);
+      expect(user.status).toBe(400);
+    });
+  });
+
+  describe('token administration', () => {
+    it('should store tokens hashed', async () => {
+      const token = await createToken({ name: 'ci', scope: 'publish' });
+
+      const [file] = await readdir(join(storageDir, 'auth/tokens'));
+      const stored = await readFile(join(storageDir, 'auth/tokens', file), 'utf-8');
+      expect(stored).not.toContain(token);
+    });
+
+    it('should list tokens without their secrets', async () => {
+      await createToken({ name: 'ci', scope: 'publish', prefix: 'acme-' });
+
+      const response = await request.get('/admin/tokens').set(ADMIN);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({ name: 'ci', scope: 'publish', prefix: 'acme-' });
+      expect(response.body[0]).not.toHaveProperty('hash');
+      expect(response.body[0]).not.toHaveProperty('token');
+    });
+
+    it('should revoke tokens', async () => {
+      const token = await createToken({ scope: 'publish' });
+      const [{ id }] = (await request.get('/admin/tokens').set(ADMIN)).body;
+
+      const revoked = await request.delete(`/admin/tokens/${id}`).set(ADMIN);
+      expect(revoked.status).toBe(204);
+
+      const response = await request
+        .post('/components')
+        .set('Authorization', `Bearer ${token}`)
+        .send(component('button'));
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 when revoking an unknown token', async () => {
+      const response = await request.delete('/admin/tokens/0000000000000000').set(ADMIN);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ code: 'TOKEN_NOT_FOUND' });
+    });
+
+    it('should only let the admin token manage tokens', async () => {
+      const token = await createToken({ scope: 'publish' });
+
+      const anonymous = await request.get('/admin/tokens');
+      expect(anonymous.status).toBe(401);
+
+      const withToken = await request
+        .post('/admin/tokens')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ scope: 'publish' });
+      expect(withToken.status).toBe(403);
+    });
+
+    it('should validate new tokens', async () => {
+      const response = await request.post('/admin/tokens').set(ADMIN).send({ scope: 'owner' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('config', () => {
+    it('should enable token auth with public reads by default', () => {
+      expect(loadConfig({}).auth).toEqual({
+        enabled: true,
+        requireTokenForRead: false,
+        adminToken: undefined,
+      });
+    });
+
+    it('should read the auth mode from the environment', () => {
+      expect(loadConfig({ REGISTRY_AUTH: 'none' }).auth.enabled).toBe(false);
+      expect(loadConfig({ REGISTRY_AUTH_READ: 'token' }).auth.requireTokenForRead).toBe(true);
+      expect(() => loadConfig({ REGISTRY_AUTH: 'basic' })).toThrow('Unknown REGISTRY_AUTH');
+    });
+  });
+});
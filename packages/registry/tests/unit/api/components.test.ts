@@ -1,13 +1,26 @@
 import 'reflect-metadata';
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// The container reads its storage location when the app is imported
+const storageDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import('fs/promises');
+  const { join } = await import('path');
+  const { tmpdir } = await import('os');
+  const dir = await mkdtemp(join(tmpdir(), 'fetch-ui-test-'));
+  process.env.REGISTRY_STORAGE = 'fs';
+  process.env.REGISTRY_STORAGE_PATH = dir;
+  // Access control is covered in auth.test.ts
+  process.env.REGISTRY_AUTH = 'none';
+  return dir;
+});
+
 import { app } from '../../../src/app';
 import supertest from 'supertest';
 import { Component, ComponentMetadata } from '../../../src/types/component';
 import { StorageProvider } from '../../../src/storage/interface';
 import { FilesystemStorage } from '../../../src/storage/filesystem';
-import { mkdtemp, rm } from 'fs/promises';
+import { rm } from 'fs/promises';
 import { join } from 'path';
-import { tmpdir } from 'os';
 
 describe('Components API', () => {
   let request: supertest.SuperTest<supertest.Test>;
@@ -15,7 +28,7 @@ describe('Components API', () => {
   let tempDir: string;
 
   beforeEach(async () => {
-    tempDir = await mkdtemp(join(tmpdir(), 'fetch-ui-test-'));
+    tempDir = storageDir;
     storage = new FilesystemStorage(tempDir);
     request = supertest(app);
   });
@@ -24,6 +37,19 @@ describe('Components API', () => {
     await rm(tempDir, { recursive: true, force: true });
   });
 
+  async function storeVersions(name: string, versions: string[]) {
+    for (const version of versions) {
+      const component: Component = {
+        metadata: { name, version },
+        files: [],
+      };
+      await storage.write(
+        `components/${name}/${version}/component.json`,
+        Buffer.from(JSON.stringify(component))
+      );
+    }
+  }
+
   describe('GET /components', () => {
     it('should return empty list when no components exist', async () => {
       const response = await request.get('/components');
@@ -146,6 +172,72 @@ describe('Components API', () => {
       });
     });
 
+    it('should store component dependencies separately from npm dependencies', async () => {
+      const metadata = {
+        name: 'dialog',
+        version: '1.0.0',
+        dependencies: { '@radix-ui/react-dialog': '^1.0.0' },
+        componentDependencies: { button: '^2.0.0', '@team/overlay': '~1.2.0' },
+      };
+
+      const response = await request.post('/components').send({ metadata, files: [] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.metadata).toEqual(metadata);
+    });
+
+    it('should reject invalid component dependencies', async () => {
+      const invalidName = await request.post('/components').send({
+        metadata: { name: 'dialog', version: '1.0.0', componentDependencies: { '../button': '^1.0.0' } },
+        files: [],
+      });
+      expect(invalidName.status).toBe(400);
+      expect(invalidName.body).toMatchObject({ code: 'INVALID_NAME' });
+
+      const self = await request.post('/components').send({
+        metadata: { name: 'dialog', version: '1.0.0', componentDependencies: { dialog: '^1.0.0' } },
+        files: [],
+      });
+      expect(self.status).toBe(400);
+
+      const invalidRange = await request.post('/components').send({
+        metadata: { name: 'dialog', version: '1.0.0', componentDependencies: { button: 'soon' } },
+        files: [],
+      });
+      expect(invalidRange.status).toBe(400);
+      expect(invalidRange.body).toMatchObject({ code: 'INVALID_VERSION' });
+    });
+
+    it('should reject versions that are not valid semver', async () => {
+      const component: Component = {
+        metadata: {
+          name: 'test-button',
+          version: '1.0',
+        },
+        files: [],
+      };
+
+      const response = await request
+        .post('/components')
+        .send(component);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        code: 'INVALID_VERSION',
+      });
+    });
+
+    it('should reject loose spellings of a version', async () => {
+      for (const version of ['v1.0.0', '=1.0.0', ' 1.0.0']) {
+        const response = await request
+          .post('/components')
+          .send({ metadata: { name: 'test-button', version }, files: [] });
+
+        expect(response.status).toBe(400);
+        expect(response.body).toMatchObject({ code: 'INVALID_VERSION' });
+      }
+    });
+
     it('should handle version conflicts', async () => {
       const component: Component = {
         metadata: {
@@ -172,6 +264,111 @@ describe('Components API', () => {
     });
   });
 
+  describe('GET /components/search', () => {
+    async function publish(metadata: ComponentMetadata) {
+      await request.post('/components').send({ metadata, files: [] });
+    }
+
+    beforeEach(async () => {
+      await publish({
+        name: 'button',
+        version: '1.0.0',
+        description: 'A clickable button',
+        tags: ['form', 'action'],
+        typescript: true,
+      });
+      await publish({
+        name: 'icon-button',
+        version: '1.0.0',
+        description: 'A button with an icon',
+        tags: ['action'],
+        style: 'minimal',
+      });
+      await publish({
+        name: 'dialog',
+        version: '1.0.0',
+        description: 'A modal dialog',
+        tags: ['overlay'],
+      });
+    });
+
+    it('should rank results and count facets', async () => {
+      const response = await request.get('/components/search').query({ q: 'button' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results.map((r: { name: string }) => r.name)).toEqual([
+        'button',
+        'icon-button',
+      ]);
+      expect(response.body).toMatchObject({
+        total: 2,
+        page: 1,
+        pageSize: 10,
+        facets: {
+          tags: { form: 1, action: 2 },
+          styles: { default: 1, minimal: 1 },
+        },
+      });
+    });
+
+    it('should filter by tags, style and typescript', async () => {
+      const byTags = await request.get('/components/search').query({ tags: 'action,form' });
+      expect(byTags.body.results.map((r: { name: string }) => r.name)).toEqual(['button']);
+
+      const byStyle = await request.get('/components/search').query({ style: 'minimal' });
+      expect(byStyle.body.results.map((r: { name: string }) => r.name)).toEqual(['icon-button']);
+
+      const byTypescript = await request.get('/components/search').query({ typescript: 'true' });
+      expect(byTypescript.body.results.map((r: { name: string }) => r.name)).toEqual(['button']);
+    });
+
+    it('should serve newly published versions from the index', async () => {
+      await publish({
+        name: 'dialog',
+        version: '2.0.0',
+        description: 'An accessible modal dialog',
+        tags: ['overlay', 'a11y'],
+      });
+
+      const response = await request.get('/components/search').query({ q: 'accessible' });
+
+      expect(response.body.results).toHaveLength(1);
+      expect(response.body.results[0]).toMatchObject({
+        name: 'dialog',
+        latestVersion: '2.0.0',
+      });
+    });
+
+    it('should drop unpublished components from the index', async () => {
+      await request.delete('/components/dialog/versions/1.0.0');
+
+      const response = await request.get('/components/search').query({ q: 'dialog' });
+      expect(response.body.total).toBe(0);
+    });
+
+    it('should not rescan storage once the index exists', async () => {
+      await storeVersions('unindexed', ['1.0.0']);
+
+      const response = await request.get('/components/search');
+      expect(response.body.results.map((r: { name: string }) => r.name)).not.toContain('unindexed');
+    });
+
+    it('should build the index from storage when none exists', async () => {
+      await rm(join(tempDir, 'index'), { recursive: true, force: true });
+      await storeVersions('unindexed', ['1.0.0']);
+
+      const response = await request.get('/components/search');
+      expect(response.body.total).toBe(4);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const response = await request.get('/components/search').query({ typescript: 'yes' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
   describe('GET /components/:name', () => {
     it('should return component details', async () => {
       const component: Component = {
@@ -201,6 +398,29 @@ describe('Components API', () => {
       expect(response.body.versions).toHaveLength(1);
     });
 
+    it('should pick the latest version by semver', async () => {
+      await storeVersions('test-button', ['1.9.0', '1.10.0', '1.2.0']);
+
+      const response = await request.get('/components/test-button');
+
+      expect(response.status).toBe(200);
+      expect(response.body.component.metadata.version).toBe('1.10.0');
+      expect(response.body.versions.map((v: { version: string }) => v.version))
+        .toEqual(['1.2.0', '1.9.0', '1.10.0']);
+    });
+
+    it('should not serve prereleases as latest', async () => {
+      await storeVersions('test-button', ['1.0.0', '2.0.0-beta.1']);
+
+      const response = await request.get('/components/test-button');
+
+      expect(response.status).toBe(200);
+      expect(response.body.component.metadata.version).toBe('1.0.0');
+
+      const list = await request.get('/components');
+      expect(list.body.components[0].latestVersion).toBe('1.0.0');
+    });
+
     it('should return 404 for non-existent component', async () => {
       const response = await request.get('/components/non-existent');
       
@@ -232,6 +452,41 @@ describe('Components API', () => {
       expect(response.body).toMatchObject(component);
     });
 
+    it('should resolve a range to the highest matching version', async () => {
+      await storeVersions('test-button', ['2.0.0', '2.1.0', '2.3.1', '3.0.0']);
+
+      const response = await request.get(
+        `/components/test-button/versions/${encodeURIComponent('^2.1')}`
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.metadata.version).toBe('2.3.1');
+    });
+
+    it('should return 404 when no version matches the range', async () => {
+      await storeVersions('test-button', ['1.0.0']);
+
+      const response = await request.get(
+        `/components/test-button/versions/${encodeURIComponent('^2')}`
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({
+        code: 'VERSION_NOT_FOUND',
+      });
+    });
+
+    it('should reject invalid version ranges', async () => {
+      const response = await request.get(
+        '/components/test-button/versions/1.2.3.4'
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        code: 'INVALID_VERSION',
+      });
+    });
+
     it('should return 404 for non-existent version', async () => {
       const response = await request.get('/components/test-button/versions/999.0.0');
       
@@ -241,4 +496,378 @@ describe('Components API', () => {
       });
     });
   });
+
+  describe('ETags', () => {
+    it('should answer 304 when the details did not change', async () => {
+      await request
+        .post('/components')
+        .send({ metadata: { name: 'test-button', version: '1.0.0' }, files: [] });
+
+      const first = await request.get('/components/test-button');
+      expect(first.headers.etag).toMatch(/^"[\w-]+"$/);
+      expect(first.headers['cache-control']).toBe('no-cache');
+
+      const second = await request
+        .get('/components/test-button')
+        .set('If-None-Match', first.headers.etag);
+      expect(second.status).toBe(304);
+      expect(second.text).toBe('');
+    });
+
+    it('should answer 304 for versions stored without a publish record', async () => {
+      await storeVersions('test-button', ['1.0.0']);
+
+      const first = await request.get('/components/test-button');
+      expect(first.body.versions[0].createdAt).toBe('1970-01-01T00:00:00.000Z');
+
+      const second = await request
+        .get('/components/test-button')
+        .set('If-None-Match', first.headers.etag);
+      expect(second.status).toBe(304);
+    });
+
+    it('should send a new ETag once a version is published', async () => {
+      await storeVersions('test-button', ['1.0.0']);
+      const first = await request.get('/components/test-button/versions/latest');
+
+      await storeVersions('test-button', ['1.1.0']);
+      const second = await request
+        .get('/components/test-button/versions/latest')
+        .set('If-None-Match', first.headers.etag);
+
+      expect(second.status).toBe(200);
+      expect(second.body.metadata.version).toBe('1.1.0');
+      expect(second.headers.etag).not.toBe(first.headers.etag);
+    });
+  });
+
+  describe('style variants', () => {
+    const file = (content: string) => ({ path: 'index.tsx', content, type: 'typescript' })
+
+    beforeEach(async () => {
+      await request.post('/components').send({
+        metadata: { name: 'button', version: '1.0.0' },
+        files: [file('default')],
+        styles: {
+          minimal: { files: [file('minimal')] },
+          'new-york': { files: [file('new-york')] },
+        },
+      });
+    });
+
+    it('should serve the component\'s own style by default', async () => {
+      const response = await request.get('/components/button/versions/1.0.0');
+
+      expect(response.status).toBe(200);
+      expect(response.body.files).toEqual([file('default')]);
+      expect(response.body.styles).toBeUndefined();
+      expect(response.body.availableStyles).toEqual(['default', 'minimal', 'new-york']);
+    });
+
+    it('should serve the requested style', async () => {
+      const response = await request
+        .get('/components/button/versions/latest')
+        .query({ style: 'new-york' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.metadata.style).toBe('new-york');
+      expect(response.body.files).toEqual([file('new-york')]);
+    });
+
+    it('should return 404 for styles the version does not ship', async () => {
+      const response = await request
+        .get('/components/button/versions/1.0.0')
+        .query({ style: 'brutalist' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ code: 'STYLE_NOT_FOUND' });
+    });
+
+    it('should reject invalid style names', async () => {
+      const query = await request
+        .get('/components/button/versions/1.0.0')
+        .query({ style: '../x' });
+      expect(query.status).toBe(400);
+      expect(query.body).toMatchObject({ code: 'INVALID_STYLE' });
+
+      const publish = await request.post('/components').send({
+        metadata: { name: 'card', version: '1.0.0' },
+        files: [],
+        styles: { 'Not A Style': { files: [] } },
+      });
+      expect(publish.status).toBe(400);
+    });
+
+    it('should not accept a variant for the component\'s own style', async () => {
+      const response = await request.post('/components').send({
+        metadata: { name: 'card', version: '1.0.0', style: 'minimal' },
+        files: [],
+        styles: { minimal: { files: [] } },
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_STYLE' });
+    });
+
+    it('should find components by any style they ship', async () => {
+      const response = await request.get('/components/search').query({ style: 'new-york' });
+
+      expect(response.body.results.map((r: { name: string }) => r.name)).toEqual(['button']);
+      expect(response.body.facets.styles).toEqual({ default: 1, minimal: 1, 'new-york': 1 });
+    });
+  });
+
+  describe('dist-tags', () => {
+    const publish = (version: string, tag?: string) =>
+      request
+        .post('/components')
+        .query(tag ? { tag } : {})
+        .send({ metadata: { name: 'test-button', version }, files: [] });
+
+    it('should tag stable publishes as latest', async () => {
+      await publish('1.0.0');
+      await publish('1.1.0');
+
+      const response = await request.get('/components/test-button/dist-tags');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ latest: '1.1.0' });
+    });
+
+    it('should publish a release candidate without moving latest', async () => {
+      await publish('1.0.0');
+      await publish('2.0.0-rc.1', 'next');
+
+      const details = await request.get('/components/test-button');
+      expect(details.body.component.metadata.version).toBe('1.0.0');
+      expect(details.body.distTags).toEqual({ latest: '1.0.0', next: '2.0.0-rc.1' });
+
+      const next = await request.get('/components/test-button/versions/next');
+      expect(next.status).toBe(200);
+      expect(next.body.metadata.version).toBe('2.0.0-rc.1');
+    });
+
+    it('should not move latest back for an older stable publish', async () => {
+      await publish('2.0.0');
+      await publish('1.5.1');
+
+      const list = await request.get('/components');
+      expect(list.body.components[0].latestVersion).toBe('2.0.0');
+    });
+
+    it('should move and remove tags', async () => {
+      await publish('1.0.0');
+      await publish('1.1.0');
+
+      const moved = await request
+        .put('/components/test-button/dist-tags/latest')
+        .send({ version: '1.0.0' });
+      expect(moved.status).toBe(200);
+
+      const details = await request.get('/components/test-button');
+      expect(details.body.component.metadata.version).toBe('1.0.0');
+
+      await request
+        .put('/components/test-button/dist-tags/beta')
+        .send({ version: '1.1.0' });
+      const removed = await request.delete('/components/test-button/dist-tags/beta');
+      expect(removed.status).toBe(200);
+      expect(removed.body).toEqual({ latest: '1.0.0' });
+    });
+
+    it('should reject tags for unpublished versions', async () => {
+      await publish('1.0.0');
+
+      const response = await request
+        .put('/components/test-button/dist-tags/next')
+        .send({ version: '9.9.9' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ code: 'VERSION_NOT_FOUND' });
+    });
+
+    it('should reject tag names that look like versions', async () => {
+      await publish('1.0.0');
+
+      const response = await request
+        .put('/components/test-button/dist-tags/1.x')
+        .send({ version: '1.0.0' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_TAG' });
+    });
+
+    it('should not remove the latest tag', async () => {
+      await publish('1.0.0');
+
+      const response = await request.delete('/components/test-button/dist-tags/latest');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for unknown tags', async () => {
+      await publish('1.0.0');
+
+      const response = await request.get('/components/test-button/versions/canary');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ code: 'TAG_NOT_FOUND' });
+    });
+  });
+
+  describe('PATCH /components/:name/versions/:version', () => {
+    beforeEach(async () => {
+      await request
+        .post('/components')
+        .send({ metadata: { name: 'test-button', version: '1.0.0' }, files: [] });
+    });
+
+    it('should deprecate a version with a message', async () => {
+      const response = await request
+        .patch('/components/test-button/versions/1.0.0')
+        .send({ deprecated: true, deprecationMessage: 'Use 2.x instead' });
+
+      expect(response.status).toBe(200);
+
+      const details = await request.get('/components/test-button');
+      expect(details.body.versions[0]).toMatchObject({
+        version: '1.0.0',
+        deprecated: true,
+        deprecationMessage: 'Use 2.x instead',
+      });
+
+      const version = await request.get('/components/test-button/versions/1.0.0');
+      expect(version.body).toMatchObject({
+        deprecated: true,
+        deprecationMessage: 'Use 2.x instead',
+      });
+    });
+
+    it('should undeprecate a version', async () => {
+      await request
+        .patch('/components/test-button/versions/1.0.0')
+        .send({ deprecated: true, deprecationMessage: 'Broken' });
+      await request
+        .patch('/components/test-button/versions/1.0.0')
+        .send({ deprecated: false });
+
+      const version = await request.get('/components/test-button/versions/1.0.0');
+      expect(version.body.deprecated).toBeUndefined();
+      expect(version.body.deprecationMessage).toBeUndefined();
+    });
+
+    it('should return 404 for non-existent version', async () => {
+      const response = await request
+        .patch('/components/test-button/versions/9.9.9')
+        .send({ deprecated: true });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should validate the request body', async () => {
+      const response = await request
+        .patch('/components/test-button/versions/1.0.0')
+        .send({ deprecationMessage: 'missing flag' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /components/:name/versions/:version', () => {
+    const publish = (version: string) =>
+      request
+        .post('/components')
+        .send({ metadata: { name: 'test-button', version }, files: [] });
+
+    it('should unpublish a recently published version', async () => {
+      await publish('1.0.0');
+      await publish('1.1.0');
+
+      const response = await request.delete('/components/test-button/versions/1.1.0');
+      expect(response.status).toBe(204);
+
+      const details = await request.get('/components/test-button');
+      expect(details.body.component.metadata.version).toBe('1.0.0');
+      expect(details.body.versions).toHaveLength(1);
+      expect(details.body.distTags).toEqual({ latest: '1.0.0' });
+    });
+
+    it('should remove the component once its last version is unpublished', async () => {
+      await publish('1.0.0');
+
+      await request.delete('/components/test-button/versions/1.0.0');
+
+      const details = await request.get('/components/test-button');
+      expect(details.status).toBe(404);
+    });
+
+    it('should refuse to unpublish outside the grace window', async () => {
+      await publish('1.0.0');
+      const published = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+      await storage.write(
+        'components/test-button/1.0.0/version.json',
+        Buffer.from(JSON.stringify({
+          version: '1.0.0',
+          createdAt: published,
+          updatedAt: published,
+        }))
+      );
+
+      const response = await request.delete('/components/test-button/versions/1.0.0');
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ code: 'UNPUBLISH_WINDOW_EXPIRED' });
+    });
+
+    it('should return 404 for non-existent version', async () => {
+      const response = await request.delete('/components/test-button/versions/1.0.0');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('malicious names', () => {
+    it.each([
+      '..%2F..%2Fetc',
+      '..',
+      '.hidden',
+      'button%00',
+    ])('should reject %s as a component name', async (name) => {
+      const response = await request.get(`/components/${name}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_NAME' });
+    });
+
+    it('should reject traversal in the version path segment', async () => {
+      await storeVersions('test-button', ['1.0.0']);
+
+      const response = await request.patch(
+        '/components/test-button/versions/..%2F..%2F1.0.0'
+      ).send({ deprecated: true });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_VERSION' });
+    });
+
+    it('should refuse to publish a component with a path in its name', async () => {
+      const response = await request.post('/components').send({
+        metadata: { name: '../../outside', version: '1.0.0' },
+        files: [],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_NAME' });
+    });
+
+    it('should refuse to publish a component named after a route', async () => {
+      const response = await request.post('/components').send({
+        metadata: { name: 'search', version: '1.0.0' },
+        files: [],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_NAME' });
+    });
+  });
 });
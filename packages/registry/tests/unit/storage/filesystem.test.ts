@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { FilesystemStorage } from '../../../src/storage/filesystem'
 import { join } from 'path'
-import { mkdtemp, rm, readFile, writeFile, mkdir } from 'fs/promises'
+import { mkdtemp, rm, readFile, writeFile, mkdir, stat } from 'fs/promises'
 import { tmpdir } from 'os'
 
 describe('FilesystemStorage', () => {
@@ -29,10 +29,35 @@ describe('FilesystemStorage', () => {
     expect(result).toEqual(content)
   })
 
-  it('should list files with given prefix', async () => {
+  it('should list the direct children of a prefix', async () => {
+    const files = [
+      'components/button/1.0.0/component.json',
+      'components/button/2.0.0/component.json',
+      'components/button/dist-tags.json',
+      'components/input/1.0.0/component.json'
+    ]
+
+    for (const file of files) {
+      await storage.write(file, Buffer.from('{}'))
+    }
+
+    expect((await storage.list('components')).sort()).toEqual(['button', 'input'])
+    expect((await storage.list('components/button')).sort()).toEqual([
+      '1.0.0',
+      '2.0.0',
+      'dist-tags.json'
+    ])
+  })
+
+  it('should return an empty list for a missing prefix', async () => {
+    await expect(storage.list('components/missing')).resolves.toEqual([])
+    await expect(storage.listRecursive('components/missing')).resolves.toEqual([])
+  })
+
+  it('should list files with given prefix recursively', async () => {
     const files = [
       'components/button/index.ts',
-      'components/button/style.css',
+      'components/button/styles/style.css',
       'components/input/index.ts'
     ]
 
@@ -44,10 +69,13 @@ describe('FilesystemStorage', () => {
       await writeFile(filePath, 'test content')
     }
 
-    const result = await storage.list('components/button')
-    expect(result).toHaveLength(2)
-    expect(result).toContain('components/button/index.ts')
-    expect(result).toContain('components/button/style.css')
+    const result = await storage.listRecursive('components/button')
+    expect(result.map((entry) => entry.path)).toEqual([
+      'components/button/index.ts',
+      'components/button/styles/style.css'
+    ])
+    expect(result[0].size).toBe('test content'.length)
+    expect(result[0].modifiedAt).toBeInstanceOf(Date)
   })
 
   it('should delete a file', async () => {
@@ -60,7 +88,46 @@ describe('FilesystemStorage', () => {
     await expect(storage.read(path)).rejects.toThrow()
   })
 
+  it('should remove directories left empty by a delete', async () => {
+    await storage.write('components/button/1.0.0/component.json', Buffer.from('{}'))
+    await storage.write('components/button/2.0.0/component.json', Buffer.from('{}'))
+
+    await storage.delete('components/button/1.0.0/component.json')
+
+    await expect(readFile(join(tempDir, 'components/button/2.0.0/component.json'))).resolves.toBeDefined()
+    await expect(stat(join(tempDir, 'components/button/1.0.0'))).rejects.toThrow()
+  })
+
   it('should throw error when reading non-existent file', async () => {
     await expect(storage.read('non-existent.txt')).rejects.toThrow()
   })
+
+  describe('path traversal', () => {
+    const maliciousPaths = [
+      '../outside.txt',
+      'components/../../outside.txt',
+      'components/button/../../../outside.txt',
+      '/etc/passwd',
+      'components/button\0.json'
+    ]
+
+    it.each(maliciousPaths)('should refuse to write %s', async (path) => {
+      await expect(storage.write(path, Buffer.from('x'))).rejects.toMatchObject({
+        code: 'INVALID_PATH'
+      })
+      await expect(stat(join(tempDir, '..', 'outside.txt'))).rejects.toThrow()
+    })
+
+    it.each(maliciousPaths)('should refuse to read, list or delete %s', async (path) => {
+      await expect(storage.read(path)).rejects.toMatchObject({ code: 'INVALID_PATH' })
+      await expect(storage.list(path)).rejects.toMatchObject({ code: 'INVALID_PATH' })
+      await expect(storage.listRecursive(path)).rejects.toMatchObject({ code: 'INVALID_PATH' })
+      await expect(storage.delete(path)).rejects.toMatchObject({ code: 'INVALID_PATH' })
+    })
+
+    it('should allow paths that stay inside the root after normalization', async () => {
+      await storage.write('components/button/../input/index.ts', Buffer.from('x'))
+      await expect(storage.read('components/input/index.ts')).resolves.toEqual(Buffer.from('x'))
+    })
+  })
 })
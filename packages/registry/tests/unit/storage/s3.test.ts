@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { S3Storage } from '../../../src/storage/s3'
+import { createStorage } from '../../../src/storage/factory'
+import { FilesystemStorage } from '../../../src/storage/filesystem'
+import { loadConfig } from '../../../src/config'
+import { FakeS3Server, startFakeS3 } from '../../helpers/s3-server'
+
+describe('S3Storage', () => {
+  let server: FakeS3Server
+  let storage: S3Storage
+
+  function createS3Storage(prefix?: string) {
+    return new S3Storage({
+      bucket: 'registry',
+      prefix,
+      endpoint: server.endpoint,
+      region: 'us-east-1',
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+      forcePathStyle: true
+    })
+  }
+
+  beforeEach(async () => {
+    // A small page size exercises list pagination
+    server = await startFakeS3({ pageSize: 2 })
+    storage = createS3Storage('fetch-ui')
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('should write and read an object under the prefix', async () => {
+    const content = Buffer.from('Hello, World!')
+
+    await storage.write('components/button/1.0.0/component.json', content)
+
+    expect(await storage.read('components/button/1.0.0/component.json')).toEqual(content)
+    expect([...server.objects.keys()]).toEqual([
+      'registry/fetch-ui/components/button/1.0.0/component.json'
+    ])
+  })
+
+  it('should report missing objects as ENOENT', async () => {
+    await expect(storage.read('missing.json')).rejects.toMatchObject({ code: 'ENOENT' })
+    await expect(storage.delete('missing.json')).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('should list the direct children of a prefix across pages', async () => {
+    for (const version of ['1.0.0', '1.1.0', '2.0.0']) {
+      await storage.write(`components/button/${version}/component.json`, Buffer.from('{}'))
+    }
+    await storage.write('components/button/dist-tags.json', Buffer.from('{}'))
+    await storage.write('components/input/1.0.0/component.json', Buffer.from('{}'))
+
+    expect((await storage.list('components')).sort()).toEqual(['button', 'input'])
+    expect((await storage.list('components/button')).sort()).toEqual([
+      '1.0.0',
+      '1.1.0',
+      '2.0.0',
+      'dist-tags.json'
+    ])
+    await expect(storage.list('components/missing')).resolves.toEqual([])
+  })
+
+  it('should list files recursively with size and modification time', async () => {
+    await storage.write('components/button/1.0.0/component.json', Buffer.from('{}'))
+    await storage.write('components/button/2.0.0/component.json', Buffer.from('{"a":1}'))
+    await storage.write('components/button/dist-tags.json', Buffer.from('{}'))
+    await storage.write('components/input/1.0.0/component.json', Buffer.from('{}'))
+
+    const result = await storage.listRecursive('components/button')
+
+    expect(result.map((entry) => entry.path)).toEqual([
+      'components/button/1.0.0/component.json',
+      'components/button/2.0.0/component.json',
+      'components/button/dist-tags.json'
+    ])
+    expect(result[1].size).toBe(7)
+    expect(result[1].modifiedAt).toBeInstanceOf(Date)
+  })
+
+  it('should delete an object', async () => {
+    await storage.write('test.txt', Buffer.from('x'))
+    await storage.delete('test.txt')
+
+    await expect(storage.read('test.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+    expect(server.objects.size).toBe(0)
+  })
+
+  it('should work without a prefix', async () => {
+    storage = createS3Storage()
+    await storage.write('components/button/1.0.0/component.json', Buffer.from('{}'))
+
+    expect([...server.objects.keys()]).toEqual(['registry/components/button/1.0.0/component.json'])
+    expect(await storage.list('')).toEqual(['components'])
+  })
+
+  it('should refuse paths that escape the prefix', async () => {
+    await expect(storage.write('../outside.txt', Buffer.from('x'))).rejects.toMatchObject({
+      code: 'INVALID_PATH'
+    })
+    await expect(storage.list('components/../../other')).rejects.toMatchObject({
+      code: 'INVALID_PATH'
+    })
+    expect(server.objects.size).toBe(0)
+  })
+})
+
+describe('storage selection', () => {
+  it('should default to filesystem storage', () => {
+    const config = loadConfig({})
+
+    expect(config.storage).toEqual({ type: 'fs', path: 'storage' })
+    expect(createStorage(config.storage)).toBeInstanceOf(FilesystemStorage)
+  })
+
+  it('should select S3 storage from the environment', () => {
+    const config = loadConfig({
+      REGISTRY_STORAGE: 's3',
+      REGISTRY_S3_BUCKET: 'registry',
+      REGISTRY_S3_PREFIX: 'fetch-ui',
+      REGISTRY_S3_ENDPOINT: 'http://localhost:9000',
+      REGISTRY_S3_ACCESS_KEY_ID: 'key',
+      REGISTRY_S3_SECRET_ACCESS_KEY: 'secret',
+      REGISTRY_S3_FORCE_PATH_STYLE: 'true'
+    })
+
+    expect(config.storage).toEqual({
+      type: 's3',
+      bucket: 'registry',
+      prefix: 'fetch-ui',
+      endpoint: 'http://localhost:9000',
+      region: undefined,
+      credentials: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      forcePathStyle: true
+    })
+    expect(createStorage(config.storage)).toBeInstanceOf(S3Storage)
+  })
+
+  it('should require a bucket for S3 storage', () => {
+    expect(() => loadConfig({ REGISTRY_STORAGE: 's3' })).toThrow('REGISTRY_S3_BUCKET is required')
+  })
+
+  it('should reject unknown storage types', () => {
+    expect(() => loadConfig({ REGISTRY_STORAGE: 'azure' })).toThrow('Unknown REGISTRY_STORAGE "azure"')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { isValidComponentName, isValidScope, scopeOf } from '../../../src/utils/name'
+
+describe('name utils', () => {
+  it('should accept plain and scoped component names', () => {
+    expect(isValidComponentName('button')).toBe(true)
+    expect(isValidComponentName('date-picker.v2')).toBe(true)
+    expect(isValidComponentName('@team/button')).toBe(true)
+  })
+
+  it('should reject names that could escape a storage path', () => {
+    expect(isValidComponentName('..')).toBe(false)
+    expect(isValidComponentName('../button')).toBe(false)
+    expect(isValidComponentName('@team/../button')).toBe(false)
+    expect(isValidComponentName('@../button')).toBe(false)
+    expect(isValidComponentName('team/button')).toBe(false)
+    expect(isValidComponentName('@team/button/extra')).toBe(false)
+    expect(isValidComponentName('@team')).toBe(false)
+  })
+
+  it('should reserve names taken by routes', () => {
+    expect(isValidComponentName('search')).toBe(false)
+    expect(isValidComponentName('Search')).toBe(false)
+    expect(isValidComponentName('@team/search')).toBe(true)
+    expect(isValidComponentName('search-box')).toBe(true)
+  })
+
+  it('should validate scopes', () => {
+    expect(isValidScope('@team')).toBe(true)
+    expect(isValidScope('team')).toBe(false)
+    expect(isValidScope('@team/button')).toBe(false)
+  })
+
+  it('should extract the scope of a name', () => {
+    expect(scopeOf('@team/button')).toBe('@team')
+    expect(scopeOf('button')).toBeUndefined()
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { countFacets, searchEntries } from '../../../src/utils/search'
+import { SearchIndexEntry } from '../../../src/types/component'
+
+const entries: SearchIndexEntry[] = [
+  {
+    name: 'button',
+    latestVersion: '1.0.0',
+    description: 'A clickable button',
+    author: 'Ada',
+    tags: ['form', 'action'],
+    style: 'default',
+    typescript: true
+  },
+  {
+    name: 'icon-button',
+    latestVersion: '2.0.0',
+    description: 'A button that only shows an icon',
+    author: 'Grace',
+    tags: ['action'],
+    style: 'minimal',
+    typescript: true
+  },
+  {
+    name: 'dialog',
+    latestVersion: '1.2.0',
+    description: 'Modal dialog with a close button',
+    tags: ['overlay'],
+    typescript: false
+  }
+]
+
+describe('search utils', () => {
+  it('should rank name matches above description matches', () => {
+    const results = searchEntries(entries, { q: 'button' })
+
+    expect(results.map((entry) => entry.name)).toEqual(['button', 'icon-button', 'dialog'])
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+    expect(results[1].score).toBeGreaterThan(results[2].score)
+  })
+
+  it('should require every term of the query to match', () => {
+    expect(searchEntries(entries, { q: 'button icon' }).map((entry) => entry.name)).toEqual([
+      'icon-button'
+    ])
+    expect(searchEntries(entries, { q: 'button table' })).toEqual([])
+  })
+
+  it('should match tags and description word prefixes', () => {
+    expect(searchEntries(entries, { q: 'overlay' }).map((entry) => entry.name)).toEqual(['dialog'])
+    expect(searchEntries(entries, { q: 'click' }).map((entry) => entry.name)).toEqual(['button'])
+  })
+
+  it('should return every entry in name order without a query', () => {
+    expect(searchEntries(entries, {}).map((entry) => entry.name)).toEqual([
+      'button',
+      'dialog',
+      'icon-button'
+    ])
+  })
+
+  it('should apply tag, author, style and typescript filters', () => {
+    const names = (query: Parameters<typeof searchEntries>[1]) =>
+      searchEntries(entries, query).map((entry) => entry.name)
+
+    expect(names({ tags: ['action', 'form'] })).toEqual(['button'])
+    expect(names({ author: 'grace' })).toEqual(['icon-button'])
+    expect(names({ style: 'default' })).toEqual(['button', 'dialog'])
+    expect(names({ typescript: false })).toEqual(['dialog'])
+    expect(names({ q: 'button', style: 'minimal' })).toEqual(['icon-button'])
+  })
+
+  it('should count tags and styles', () => {
+    expect(countFacets(entries)).toEqual({
+      tags: { form: 1, action: 2, overlay: 1 },
+      styles: { default: 2, minimal: 1 }
+    })
+  })
+
+  it('should count tags in the case they are filtered by', () => {
+    const mixed = [
+      { ...entries[0], tags: ['Form', 'form'] },
+      { ...entries[1], tags: ['FORM'] }
+    ]
+
+    expect(countFacets(mixed).tags).toEqual({ form: 2 })
+    expect(searchEntries(mixed, { tags: ['form'] })).toHaveLength(2)
+  })
+})
@@ -1,6 +1,13 @@
+import { fileURLToPath } from 'url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Tests run against the core sources, without building core first
+      '@fetch-ui/core': fileURLToPath(new URL('../core/src/index.ts', import.meta.url))
+    }
+  },
   test: {
     globals: true,
     environment: 'node',